@@ -0,0 +1,140 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateTable
+CREATE TABLE "accounts" (
+    "id" VARCHAR(255) NOT NULL,
+    "token" VARCHAR(2048) NOT NULL,
+    "name" VARCHAR(1024) NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 1,
+    "blocked_until" INTEGER NOT NULL DEFAULT 0,
+    "block_reason" VARCHAR(1024),
+    "block_error_code" VARCHAR(64),
+    "rate_limit_count" INTEGER NOT NULL DEFAULT 0,
+    "last_used_at" INTEGER NOT NULL DEFAULT 0,
+    "request_count" INTEGER NOT NULL DEFAULT 0,
+    "failure_count" INTEGER NOT NULL DEFAULT 0,
+    "success_rate" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "daily_request_count" INTEGER NOT NULL DEFAULT 0,
+    "daily_request_date" VARCHAR(10),
+    "daily_quota" INTEGER,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "feeds" (
+    "id" VARCHAR(255) NOT NULL,
+    "mp_name" VARCHAR(512) NOT NULL,
+    "mp_cover" VARCHAR(1024) NOT NULL,
+    "mp_intro" TEXT NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 1,
+    "sync_time" INTEGER NOT NULL DEFAULT 0,
+    "update_time" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+    "has_history" INTEGER DEFAULT 1,
+    "refresh_mode" VARCHAR(16) NOT NULL DEFAULT 'global',
+    "refresh_interval" INTEGER NOT NULL DEFAULT 0,
+    "next_sync_at" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "articles" (
+    "id" VARCHAR(255) NOT NULL,
+    "mp_id" VARCHAR(255) NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "pic_url" VARCHAR(255) NOT NULL,
+    "publish_time" INTEGER NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "articles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "article_contents" (
+    "id" VARCHAR(255) NOT NULL,
+    "raw_html" TEXT,
+    "clean_html" TEXT,
+    "text" TEXT,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "error" VARCHAR(1024),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_retry_at" INTEGER NOT NULL DEFAULT 0,
+    "fetched_at" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "article_contents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" SERIAL NOT NULL,
+    "type" VARCHAR(32) NOT NULL,
+    "mp_id" VARCHAR(255) NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "page" INTEGER NOT NULL DEFAULT 1,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "run_at" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_feeds" (
+    "id" VARCHAR(255) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "keyword" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "feed_groups" (
+    "id" VARCHAR(255) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "sort" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feed_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "feed_group_feeds" (
+    "group_id" VARCHAR(255) NOT NULL,
+    "mp_id" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feed_group_feeds_pkey" PRIMARY KEY ("group_id","mp_id")
+);
+
+-- CreateIndex
+CREATE INDEX "articles_mp_id_publish_time_idx" ON "articles"("mp_id", "publish_time");
+
+-- CreateIndex
+CREATE INDEX "articles_title_idx" ON "articles" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "article_contents_status_next_retry_at_idx" ON "article_contents"("status", "next_retry_at");
+
+-- CreateIndex
+CREATE INDEX "article_contents_text_idx" ON "article_contents" USING GIN ("text" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "feed_group_feeds_mp_id_idx" ON "feed_group_feeds"("mp_id");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "webhooks" (
+    "id" VARCHAR(255) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "url" VARCHAR(1024) NOT NULL,
+    "secret" VARCHAR(255) NOT NULL,
+    "mp_ids" TEXT NOT NULL,
+    "events" VARCHAR(255) NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" SERIAL NOT NULL,
+    "webhook_id" VARCHAR(255) NOT NULL,
+    "event" VARCHAR(255) NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "error" TEXT,
+    "next_retry_at" INTEGER NOT NULL DEFAULT 0,
+    "delivered_at" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_status_next_retry_at_idx" ON "webhook_deliveries"("status", "next_retry_at");
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_webhook_id_id_idx" ON "webhook_deliveries"("webhook_id", "id");
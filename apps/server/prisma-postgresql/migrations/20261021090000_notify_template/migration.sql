@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "notify_templates" (
+    "event" VARCHAR(255) NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notify_templates_pkey" PRIMARY KEY ("event")
+);
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "type" TEXT NOT NULL,
+    "mp_id" TEXT NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "page" INTEGER NOT NULL DEFAULT 1,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "run_at" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs"("status", "run_at");
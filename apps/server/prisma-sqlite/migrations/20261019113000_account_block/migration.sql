@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "block_error_code" TEXT;
+ALTER TABLE "accounts" ADD COLUMN "block_reason" TEXT;
+ALTER TABLE "accounts" ADD COLUMN "blocked_until" INTEGER NOT NULL DEFAULT 0;
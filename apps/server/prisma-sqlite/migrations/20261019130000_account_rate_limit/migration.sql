@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "rate_limit_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "feeds" ADD COLUMN "next_sync_at" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "feeds" ADD COLUMN "refresh_interval" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "feeds" ADD COLUMN "refresh_mode" TEXT NOT NULL DEFAULT 'global';
+
+-- CreateIndex
+CREATE INDEX "articles_mp_id_publish_time_idx" ON "articles"("mp_id", "publish_time");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "article_contents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "raw_html" TEXT,
+    "clean_html" TEXT,
+    "text" TEXT,
+    "status" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "fetched_at" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME DEFAULT CURRENT_TIMESTAMP
+);
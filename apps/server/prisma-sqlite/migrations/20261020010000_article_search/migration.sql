@@ -0,0 +1,31 @@
+-- CreateTable
+-- 全文搜索索引，rowid 与 articles 的 rowid 对应，执行 VACUUM 后需重建
+CREATE VIRTUAL TABLE "articles_fts" USING fts5("id" UNINDEXED, "title", "content", tokenize = 'trigram');
+
+INSERT INTO "articles_fts" ("rowid", "id", "title", "content")
+SELECT a."rowid", a."id", a."title", c."text"
+FROM "articles" a LEFT JOIN "article_contents" c ON c."id" = a."id";
+
+-- CreateTrigger
+CREATE TRIGGER "articles_fts_insert" AFTER INSERT ON "articles" BEGIN
+    INSERT INTO "articles_fts" ("rowid", "id", "title", "content")
+    VALUES (new."rowid", new."id", new."title", (SELECT "text" FROM "article_contents" WHERE "id" = new."id"));
+END;
+
+CREATE TRIGGER "articles_fts_update" AFTER UPDATE OF "title" ON "articles" WHEN new."title" IS NOT old."title" BEGIN
+    UPDATE "articles_fts" SET "title" = new."title" WHERE "rowid" = new."rowid";
+END;
+
+CREATE TRIGGER "articles_fts_delete" AFTER DELETE ON "articles" BEGIN
+    DELETE FROM "articles_fts" WHERE "rowid" = old."rowid";
+END;
+
+CREATE TRIGGER "article_contents_fts_insert" AFTER INSERT ON "article_contents" BEGIN
+    UPDATE "articles_fts" SET "content" = new."text"
+    WHERE "rowid" = (SELECT "rowid" FROM "articles" WHERE "id" = new."id");
+END;
+
+CREATE TRIGGER "article_contents_fts_update" AFTER UPDATE OF "text" ON "article_contents" WHEN new."text" IS NOT old."text" BEGIN
+    UPDATE "articles_fts" SET "content" = new."text"
+    WHERE "rowid" = (SELECT "rowid" FROM "articles" WHERE "id" = new."id");
+END;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "feed_groups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "sort" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "feed_group_feeds" (
+    "group_id" TEXT NOT NULL,
+    "mp_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("group_id", "mp_id")
+);
+
+-- CreateIndex
+CREATE INDEX "feed_group_feeds_mp_id_idx" ON "feed_group_feeds"("mp_id");
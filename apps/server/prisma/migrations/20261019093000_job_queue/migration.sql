@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `jobs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `type` VARCHAR(32) NOT NULL,
+    `mp_id` VARCHAR(255) NOT NULL,
+    `status` INTEGER NOT NULL DEFAULT 0,
+    `page` INTEGER NOT NULL DEFAULT 1,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `error` TEXT NULL,
+    `run_at` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `jobs_status_run_at_idx`(`status`, `run_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
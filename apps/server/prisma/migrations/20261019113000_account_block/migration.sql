@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `accounts` ADD COLUMN `block_error_code` VARCHAR(64) NULL,
+    ADD COLUMN `block_reason` VARCHAR(1024) NULL,
+    ADD COLUMN `blocked_until` INTEGER NOT NULL DEFAULT 0;
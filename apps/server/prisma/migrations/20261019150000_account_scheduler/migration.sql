@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `accounts` ADD COLUMN `daily_quota` INTEGER NULL,
+    ADD COLUMN `daily_request_count` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `daily_request_date` VARCHAR(10) NULL,
+    ADD COLUMN `failure_count` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `last_used_at` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `request_count` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `success_rate` DOUBLE NOT NULL DEFAULT 1;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `article_contents` (
+    `id` VARCHAR(255) NOT NULL,
+    `raw_html` LONGTEXT NULL,
+    `clean_html` LONGTEXT NULL,
+    `text` LONGTEXT NULL,
+    `status` INTEGER NOT NULL DEFAULT 0,
+    `error` VARCHAR(1024) NULL,
+    `fetched_at` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `article_contents` ADD COLUMN `attempts` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `next_retry_at` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX `article_contents_status_next_retry_at_idx` ON `article_contents`(`status`, `next_retry_at`);
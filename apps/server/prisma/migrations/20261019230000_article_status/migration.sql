@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `articles` ADD COLUMN `status` INTEGER NOT NULL DEFAULT 0;
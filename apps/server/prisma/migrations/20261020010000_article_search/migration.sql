@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `articles_title_idx` ON `articles`(`title`) WITH PARSER ngram;
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `article_contents_text_idx` ON `article_contents`(`text`) WITH PARSER ngram;
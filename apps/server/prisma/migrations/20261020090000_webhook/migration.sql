@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE `webhooks` (
+    `id` VARCHAR(255) NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `url` VARCHAR(1024) NOT NULL,
+    `secret` VARCHAR(255) NOT NULL,
+    `mp_ids` TEXT NOT NULL,
+    `events` VARCHAR(255) NOT NULL,
+    `status` INTEGER NOT NULL DEFAULT 1,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_deliveries` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `webhook_id` VARCHAR(255) NOT NULL,
+    `event` VARCHAR(255) NOT NULL,
+    `payload` TEXT NOT NULL,
+    `status` INTEGER NOT NULL DEFAULT 0,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `response_status` INTEGER NULL,
+    `error` TEXT NULL,
+    `next_retry_at` INTEGER NOT NULL DEFAULT 0,
+    `delivered_at` INTEGER NOT NULL DEFAULT 0,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `webhook_deliveries_status_next_retry_at_idx`(`status`, `next_retry_at`),
+    INDEX `webhook_deliveries_webhook_id_id_idx`(`webhook_id`, `id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
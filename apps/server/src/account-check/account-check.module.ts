@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { AccountCheckService } from './account-check.service';
 import { PrismaModule } from '@server/prisma/prisma.module';
 import { TrpcModule } from '@server/trpc/trpc.module';
+import { NotifyModule } from '@server/notify/notify.module';
 
 @Module({
-  imports: [PrismaModule, TrpcModule],
+  imports: [PrismaModule, TrpcModule, NotifyModule],
   providers: [AccountCheckService],
   exports: [AccountCheckService],
 })
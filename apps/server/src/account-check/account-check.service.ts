@@ -3,8 +3,19 @@ import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '@server/prisma/prisma.service';
 import { TrpcService } from '@server/trpc/trpc.service';
-import { statusMap } from '@server/constants';
+import {
+  NotifyEvent,
+  notifyEvents,
+  notifyTestEvent,
+  statusMap,
+} from '@server/constants';
 import { ConfigurationType } from '@server/configuration';
+import { NotifyService } from '@server/notify/notify.service';
+import {
+  AccountNotifyInfo,
+  createAccountNotifyMessage,
+  defaultNotifyTemplates,
+} from '@wewe-rss/core';
 import Axios, { AxiosInstance } from 'axios';
 import * as QRCode from 'qrcode';
 
@@ -17,6 +28,7 @@ export class AccountCheckService {
     private readonly prismaService: PrismaService,
     private readonly trpcService: TrpcService,
     private readonly configService: ConfigService,
+    private readonly notifyService: NotifyService,
   ) {
     const { url } =
       this.configService.get<ConfigurationType['platform']>('platform')!;
@@ -89,86 +101,20 @@ export class AccountCheckService {
   }
 
   /**
-   * 通过webhook发送通知（钉钉机器人）
+   * 使用页面上编辑的模板生成通知内容，未保存时使用默认模板
    */
-  async sendWebhookNotification(
-    accountId: string,
-    accountName: string,
-    qrCodeBase64: string,
-    scanUrl: string,
-  ): Promise<void> {
-    // 钉钉机器人webhook URL
-    const webhookUrl =
-      process.env.ACCOUNT_CHECK_WEBHOOK_URL ||
-      'https://oapi.dingtalk.com/robot/send?access_token=f9612510b343e6d8bffc60b2a0d7168593b1bb93e55a75a1a1e0dd2c80555c40';
-
-    try {
-      // 格式化时间为北京时间
-      const beijingTime = new Date().toLocaleString('zh-CN', { 
-        timeZone: 'Asia/Shanghai',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-      });
-
-      // 构建钉钉markdown消息（包含"微信"两个字）
-      const markdownText = `## 微信读书账号失效通知
-
-**账号信息：**
-- 账号ID：\`${accountId}\`
-- 账号名称：${accountName}
-- 失效时间：${beijingTime}
-
-**请扫描以下二维码重新登录微信账号：**
-
-![登录二维码](${qrCodeBase64})
-
-**二维码链接：** ${scanUrl}
-
-**或直接访问：** [点击这里打开二维码](${scanUrl})
-
-> 请尽快重新登录微信账号，以免影响服务使用。`;
-
-      const payload = {
-        msgtype: 'markdown',
-        markdown: {
-          title: '微信读书账号失效通知',
-          text: markdownText,
-        },
-      };
-
-      await Axios.post(webhookUrl, payload, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        timeout: 10 * 1e3,
-      });
-
-      this.logger.log(`已发送钉钉webhook通知: 账号 ${accountId} (${accountName})`);
-    } catch (error: any) {
-      this.logger.error(`发送webhook通知失败: ${error.message}`, error.stack);
-      // 如果markdown格式失败，尝试发送文本消息
-      try {
-        const textPayload = {
-          msgtype: 'text',
-          text: {
-            content: `微信读书账号失效通知\n\n账号ID: ${accountId}\n账号名称: ${accountName}\n失效时间: ${new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}\n\n请扫描二维码重新登录: ${scanUrl}`,
-          },
-        };
-        await Axios.post(webhookUrl, textPayload, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 10 * 1e3,
-        });
-        this.logger.log(`已发送钉钉文本通知: 账号 ${accountId} (${accountName})`);
-      } catch (textError: any) {
-        this.logger.error(`发送文本通知也失败: ${textError.message}`);
-      }
-    }
+  private async createNotifyMessage(
+    event: NotifyEvent,
+    info: AccountNotifyInfo,
+  ) {
+    const template = await this.prismaService.notifyTemplate.findUnique({
+      where: { event },
+    });
+    return createAccountNotifyMessage(
+      event,
+      info,
+      template ?? defaultNotifyTemplates[event],
+    );
   }
 
   /**
@@ -193,12 +139,15 @@ export class AccountCheckService {
         const loginData = await this.trpcService.createLoginUrl();
         const qrCodeBase64 = await this.generateQRCodeBase64(loginData.scanUrl);
 
-        // 发送webhook通知
-        await this.sendWebhookNotification(
-          account.id,
-          account.name,
-          qrCodeBase64,
-          loginData.scanUrl,
+        // 发送失效通知
+        await this.notifyService.send(
+          await this.createNotifyMessage(notifyEvents.ACCOUNT_INVALID, {
+            accountId: account.id,
+            accountName: account.name,
+            scanUrl: loginData.scanUrl,
+            qrCodeUrl: qrCodeBase64,
+            loginId: loginData.uuid,
+          }),
         );
 
         await this.tryRefreshAccountFromLogin(account, loginData.uuid);
@@ -248,8 +197,15 @@ export class AccountCheckService {
           status: statusMap.ENABLE,
         },
       });
-      this.trpcService.removeBlockedAccount(account.id);
+      await this.trpcService.removeBlockedAccount(account.id);
       this.logger.log(`账号 ${account.id} 登录信息已更新`);
+
+      await this.notifyService.send(
+        await this.createNotifyMessage(notifyEvents.ACCOUNT_RESTORED, {
+          accountId: account.id,
+          accountName: loginResult.username || account.name,
+        }),
+      );
     } catch (error) {
       this.logger.error(`账号 ${account.id} 获取登录结果失败:`, error);
     }
@@ -332,29 +288,41 @@ export class AccountCheckService {
   }
 
   /**
-   * 测试webhook推送功能
+   * 向所有通知渠道发送一条测试通知，没有渠道发送成功时抛出错误
    */
-  async testWebhookNotification(): Promise<void> {
-    this.logger.log('开始测试webhook推送功能');
-
-    try {
-      // 生成测试用的登录二维码
-      const loginData = await this.trpcService.createLoginUrl();
-      const qrCodeBase64 = await this.generateQRCodeBase64(loginData.scanUrl);
-
-      // 发送测试通知
-      await this.sendWebhookNotification(
-        'TEST_ACCOUNT_ID',
-        '测试微信账号',
-        qrCodeBase64,
-        loginData.scanUrl,
+  async testNotification(): Promise<void> {
+    this.logger.log('开始测试通知推送功能');
+
+    // 生成测试用的登录二维码
+    const loginData = await this.trpcService.createLoginUrl();
+    const qrCodeBase64 = await this.generateQRCodeBase64(loginData.scanUrl);
+
+    const message = await this.createNotifyMessage(
+      notifyEvents.ACCOUNT_INVALID,
+      {
+        accountId: 'TEST_ACCOUNT_ID',
+        accountName: '测试微信账号',
+        scanUrl: loginData.scanUrl,
+        qrCodeUrl: qrCodeBase64,
+        loginId: loginData.uuid,
+      },
+    );
+    const results = await this.notifyService.send({
+      ...message,
+      event: notifyTestEvent,
+    });
+
+    if (results.length === 0) {
+      throw new Error('未配置通知渠道，请设置 NOTIFY_CHANNELS');
+    }
+    const failed = results.filter(({ error }) => error);
+    if (failed.length === results.length) {
+      throw new Error(
+        failed.map(({ channel, error }) => `${channel}: ${error}`).join('; '),
       );
-
-      this.logger.log('测试webhook推送完成');
-    } catch (error) {
-      this.logger.error('测试webhook推送失败:', error);
-      throw error;
     }
+    this.logger.log(
+      `测试通知推送完成，成功 ${results.length - failed.length} 个渠道`,
+    );
   }
 }
-
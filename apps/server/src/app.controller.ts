@@ -51,8 +51,8 @@ export class AppController {
   @Get('/test-webhook')
   async testWebhook() {
     try {
-      await this.accountCheckService.testWebhookNotification();
-      return { success: true, message: '测试webhook通知已发送' };
+      await this.accountCheckService.testNotification();
+      return { success: true, message: '测试通知已发送' };
     } catch (error: any) {
       return { success: false, message: error.message };
     }
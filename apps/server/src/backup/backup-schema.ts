@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// 备份文件中每类数据的字段，只包含迁移实例需要的数据，不包含调度统计等运行时状态
+const timestamps = {
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date().nullish(),
+};
+
+export const backupRecordSchemas = {
+  accounts: z.object({
+    id: z.string(),
+    // 导出时不包含 token 则为空
+    token: z.string(),
+    name: z.string(),
+    status: z.number().int(),
+    dailyQuota: z.number().int().nullish(),
+    ...timestamps,
+  }),
+  feeds: z.object({
+    id: z.string(),
+    mpName: z.string(),
+    mpCover: z.string(),
+    mpIntro: z.string(),
+    status: z.number().int(),
+    syncTime: z.number().int(),
+    updateTime: z.number().int(),
+    hasHistory: z.number().int().nullish(),
+    refreshMode: z.string(),
+    refreshInterval: z.number().int(),
+    ...timestamps,
+  }),
+  feedGroups: z.object({
+    id: z.string(),
+    name: z.string(),
+    sort: z.number().int(),
+    mpIds: z.array(z.string()),
+    ...timestamps,
+  }),
+  alertFeeds: z.object({
+    id: z.string(),
+    name: z.string(),
+    keyword: z.string(),
+    ...timestamps,
+  }),
+  articles: z.object({
+    id: z.string(),
+    mpId: z.string(),
+    title: z.string(),
+    picUrl: z.string(),
+    publishTime: z.number().int(),
+    status: z.number().int(),
+    ...timestamps,
+  }),
+  articleContents: z.object({
+    id: z.string(),
+    rawHtml: z.string().nullish(),
+    cleanHtml: z.string().nullish(),
+    text: z.string().nullish(),
+    status: z.number().int(),
+    error: z.string().nullish(),
+    attempts: z.number().int(),
+    nextRetryAt: z.number().int(),
+    fetchedAt: z.number().int(),
+    ...timestamps,
+  }),
+};
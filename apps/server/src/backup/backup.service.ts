@@ -0,0 +1,231 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@server/prisma/prisma.service';
+import { BackupSection, statusMap } from '@server/constants';
+import { invalidateFeedCache } from '@server/feeds/feed-cache';
+import { z } from 'zod';
+import { backupRecordSchemas } from './backup-schema';
+
+type BackupRecord<T extends BackupSection> = z.infer<
+  (typeof backupRecordSchemas)[T]
+>;
+
+@Injectable()
+export class BackupService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * 按 id 顺序分页导出一类数据
+   */
+  async exportSection({
+    section,
+    cursor,
+    limit,
+    includeTokens,
+  }: {
+    section: BackupSection;
+    cursor?: string | null;
+    limit: number;
+    includeTokens: boolean;
+  }) {
+    const args = {
+      orderBy: { id: 'asc' as const },
+      take: limit + 1,
+      where: cursor ? { id: { gt: cursor } } : undefined,
+    };
+
+    let items: { id: string }[];
+    switch (section) {
+      case 'accounts': {
+        const rows = await this.prismaService.account.findMany(args);
+        items = rows.map((row) => ({
+          id: row.id,
+          token: includeTokens ? row.token : '',
+          name: row.name,
+          status: row.status,
+          dailyQuota: row.dailyQuota,
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+        }));
+        break;
+      }
+      case 'feeds': {
+        const rows = await this.prismaService.feed.findMany(args);
+        // 不导出下次更新时间，导入后重新计算
+        items = rows.map((row) => ({ ...row, nextSyncAt: undefined }));
+        break;
+      }
+      case 'feedGroups': {
+        const rows = await this.prismaService.feedGroup.findMany(args);
+        const members = await this.prismaService.feedGroupFeed.findMany({
+          where: { groupId: { in: rows.map((row) => row.id) } },
+          orderBy: { createdAt: 'asc' },
+        });
+        items = rows.map((row) => ({
+          ...row,
+          mpIds: members
+            .filter((member) => member.groupId === row.id)
+            .map((member) => member.mpId),
+        }));
+        break;
+      }
+      case 'alertFeeds':
+        items = await this.prismaService.alertFeed.findMany(args);
+        break;
+      case 'articles':
+        items = await this.prismaService.article.findMany(args);
+        break;
+      case 'articleContents':
+        items = await this.prismaService.articleContent.findMany(args);
+        break;
+    }
+
+    let nextCursor: string | undefined = undefined;
+    if (items.length > limit) {
+      items.pop();
+      nextCursor = items[items.length - 1].id;
+    }
+    return { items, nextCursor };
+  }
+
+  /**
+   * 统计每类数据的记录数，用于迁移后校验
+   */
+  async countSections(): Promise<Record<BackupSection, number>> {
+    const prisma = this.prismaService;
+    const [accounts, feeds, feedGroups, alertFeeds, articles, articleContents] =
+      await Promise.all([
+        prisma.account.count(),
+        prisma.feed.count(),
+        prisma.feedGroup.count(),
+        prisma.alertFeed.count(),
+        prisma.article.count(),
+        prisma.articleContent.count(),
+      ]);
+    return {
+      accounts,
+      feeds,
+      feedGroups,
+      alertFeeds,
+      articles,
+      articleContents,
+    };
+  }
+
+  /**
+   * 导入一批数据，已存在的记录会被覆盖，返回导入的数量
+   */
+  async restoreSection(section: BackupSection, items: unknown[]) {
+    const prisma = this.prismaService;
+    switch (section) {
+      case 'accounts': {
+        const records = this.parse('accounts', items);
+        const existing = await prisma.account.findMany({
+          where: { id: { in: records.map(({ id }) => id) } },
+          select: { id: true },
+        });
+        const existingIds = new Set(existing.map(({ id }) => id));
+        await prisma.$transaction(
+          records.map(({ id, token, ...data }) => {
+            if (token) {
+              return prisma.account.upsert({
+                where: { id },
+                update: { ...data, token },
+                create: { ...data, id, token },
+              });
+            }
+            // 备份不包含 token 时保留已有账号的 token，新账号需要重新扫码登录
+            return existingIds.has(id)
+              ? prisma.account.update({ where: { id }, data })
+              : prisma.account.create({
+                  data: { ...data, id, token: '', status: statusMap.INVALID },
+                });
+          }),
+        );
+        return records.length;
+      }
+      case 'feeds': {
+        const records = this.parse('feeds', items);
+        await prisma.$transaction(
+          records.map(({ id, ...data }) =>
+            prisma.feed.upsert({
+              where: { id },
+              update: data,
+              create: { ...data, id },
+            }),
+          ),
+        );
+        records.forEach(({ id }) => invalidateFeedCache(id));
+        return records.length;
+      }
+      case 'feedGroups': {
+        const records = this.parse('feedGroups', items);
+        await prisma.$transaction(
+          records.flatMap(({ id, mpIds, ...data }) => [
+            prisma.feedGroup.upsert({
+              where: { id },
+              update: data,
+              create: { ...data, id },
+            }),
+            prisma.feedGroupFeed.deleteMany({ where: { groupId: id } }),
+            ...[...new Set(mpIds)].map((mpId) =>
+              prisma.feedGroupFeed.create({ data: { groupId: id, mpId } }),
+            ),
+          ]),
+        );
+        records.forEach(({ id }) => invalidateFeedCache(`group/${id}`));
+        return records.length;
+      }
+      case 'alertFeeds': {
+        const records = this.parse('alertFeeds', items);
+        await prisma.$transaction(
+          records.map(({ id, ...data }) =>
+            prisma.alertFeed.upsert({
+              where: { id },
+              update: data,
+              create: { ...data, id },
+            }),
+          ),
+        );
+        return records.length;
+      }
+      case 'articles': {
+        const records = this.parse('articles', items);
+        await prisma.$transaction(
+          records.map(({ id, ...data }) =>
+            prisma.article.upsert({
+              where: { id },
+              update: data,
+              create: { ...data, id },
+            }),
+          ),
+        );
+        new Set(records.map(({ mpId }) => mpId)).forEach((mpId) =>
+          invalidateFeedCache(mpId),
+        );
+        return records.length;
+      }
+      case 'articleContents': {
+        const records = this.parse('articleContents', items);
+        await prisma.$transaction(
+          records.map(({ id, ...data }) =>
+            prisma.articleContent.upsert({
+              where: { id },
+              update: data,
+              create: { ...data, id },
+            }),
+          ),
+        );
+        return records.length;
+      }
+    }
+  }
+
+  private parse<T extends BackupSection>(
+    section: T,
+    items: unknown[],
+  ): BackupRecord<T>[] {
+    return backupRecordSchemas[section]
+      .array()
+      .parse(items) as BackupRecord<T>[];
+  }
+}
@@ -9,20 +9,37 @@ const configuration = () => {
 
   const authCode = process.env.AUTH_CODE;
   const platformUrl = process.env.PLATFORM_URL || 'https://weread.111965.xyz';
+  const platformMaxRequestPerMinute = parseInt(
+    process.env.PLATFORM_MAX_REQUEST_PER_MINUTE || '30',
+  );
+  const accountDailyQuota = parseInt(process.env.ACCOUNT_DAILY_QUOTA || '0');
   const originUrl = process.env.SERVER_ORIGIN_URL || '';
 
   const feedMode = process.env.FEED_MODE as 'fulltext' | '';
 
-  const databaseType = process.env.DATABASE_TYPE || 'mysql';
+  // 不同数据库使用各自的 prisma schema：prisma(mysql)、prisma-sqlite、prisma-postgresql
+  const databaseType = (process.env.DATABASE_TYPE || 'mysql') as
+    | 'mysql'
+    | 'sqlite'
+    | 'postgresql';
 
   const updateDelayTime = parseInt(`${process.env.UPDATE_DELAY_TIME} || 60`);
 
   const enableCleanHtml = process.env.ENABLE_CLEAN_HTML === 'true';
+
+  // 通知渠道 JSON 数组；ACCOUNT_CHECK_WEBHOOK_URL 为旧版的钉钉机器人地址，SECRET 为其加签密钥
+  const notifyChannels = process.env.NOTIFY_CHANNELS;
+  const accountCheckWebhookUrl = process.env.ACCOUNT_CHECK_WEBHOOK_URL;
+  const accountCheckWebhookSecret = process.env.ACCOUNT_CHECK_WEBHOOK_SECRET;
   return {
     server: { isProd, port, host },
     throttler: { maxRequestPerMinute },
     auth: { code: authCode },
-    platform: { url: platformUrl },
+    platform: {
+      url: platformUrl,
+      maxRequestPerMinute: platformMaxRequestPerMinute,
+      accountDailyQuota,
+    },
     feed: {
       originUrl,
       mode: feedMode,
@@ -32,6 +49,11 @@ const configuration = () => {
     database: {
       type: databaseType,
     },
+    notify: {
+      channels: notifyChannels,
+      legacyWebhookUrl: accountCheckWebhookUrl,
+      legacyWebhookSecret: accountCheckWebhookSecret,
+    },
   };
 };
 
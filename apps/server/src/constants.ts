@@ -1,16 +1,80 @@
-export const statusMap = {
-  // 0:失效 1:启用 2:禁用
-  INVALID: 0,
-  ENABLE: 1,
-  DISABLE: 2,
-};
+// 与 Worker 共用的常量
+export {
+  statusMap,
+  feedTypes,
+  feedMimeTypeMap,
+  defaultCount,
+  articleContentStatusMap,
+  articleStatusMap,
+  articleStatusLabelMap,
+  articleStatusKeywords,
+  contentPrefetch,
+  contentFailedMessage,
+  feedRefreshModes,
+  minRefreshInterval,
+  adaptiveRefresh,
+  accountBlockDurationMap,
+  rateLimitBackoff,
+  successRateWeight,
+  maxRetryAfterWait,
+  defaultAccountBlockDuration,
+  webhookEvents,
+  webhookPingEvent,
+  webhookDeliveryStatusMap,
+  webhookDelivery,
+  notifyEvents,
+  notifyTestEvent,
+} from '@wewe-rss/core';
+export type {
+  FeedType,
+  FeedRefreshMode,
+  WebhookEvent,
+  NotifyEvent,
+} from '@wewe-rss/core';
+
+// 订阅源响应的 Cache-Control max-age（秒）
+export const feedCacheMaxAge = 5 * 60;
+
+// 渲染后的订阅源内容缓存时间（秒），有新文章时提前清除
+export const feedCacheTtl = 60 * 60;
+
+// 全文预抓取的间隔（秒）
+export const contentPrefetchInterval = 10;
+
+// 重试发送 webhook 的检查间隔（秒），新文章的 webhook 在更新后立即发送
+export const webhookDeliveryInterval = 30;
 
-export const feedTypes = ['rss', 'atom', 'json'] as const;
+export const jobStatusMap = {
+  // 0:排队中 1:执行中 2:已完成 3:失败
+  QUEUED: 0,
+  RUNNING: 1,
+  DONE: 2,
+  FAILED: 3,
+};
 
-export const feedMimeTypeMap = {
-  rss: 'application/rss+xml; charset=utf-8',
-  atom: 'application/atom+xml; charset=utf-8',
-  json: 'application/feed+json; charset=utf-8',
+export const jobTypes = {
+  // 更新最新文章
+  REFRESH: 'refresh',
+  // 获取历史文章
+  HISTORY: 'history',
 } as const;
 
-export const defaultCount = 20;
+export type JobType = (typeof jobTypes)[keyof typeof jobTypes];
+
+// 任务失败重试次数
+export const maxJobAttempts = 3;
+
+// 备份文件格式版本，格式不兼容时递增
+export const backupVersion = 1;
+
+// 备份包含的数据，恢复时按此顺序导入
+export const backupSections = [
+  'accounts',
+  'feeds',
+  'feedGroups',
+  'alertFeeds',
+  'articles',
+  'articleContents',
+] as const;
+
+export type BackupSection = (typeof backupSections)[number];
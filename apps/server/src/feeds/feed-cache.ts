@@ -0,0 +1,70 @@
+import { feedCacheTtl } from '@server/constants';
+import { LRUCache } from 'lru-cache';
+
+type RenderedFeed = { content: string; mimeType: string };
+
+// 按内容长度限制总大小，全文输出的订阅源可能很大
+const feedCache = new LRUCache<string, RenderedFeed>({
+  maxSize: 50 * 1024 * 1024,
+  sizeCalculation: ({ content }) => content.length || 1,
+  ttl: feedCacheTtl * 1e3,
+});
+
+// 聚合多个公众号文章的订阅源，任一公众号有新文章时都需要清除
+const isAggregateFeed = (id: string) =>
+  id === 'all' ||
+  id === 'search' ||
+  id.startsWith('alert/') ||
+  id.startsWith('merge/') ||
+  id.startsWith('group/');
+
+export const getFeedCacheKey = ({
+  id,
+  keyword,
+  type,
+  mode,
+  title_include,
+  title_exclude,
+  removed,
+  limit,
+  page,
+}: {
+  id?: string;
+  keyword?: string;
+  type: string;
+  mode?: string;
+  title_include?: string;
+  title_exclude?: string;
+  removed?: string;
+  limit: number;
+  page: number;
+}) =>
+  [
+    id || 'all',
+    keyword ?? '',
+    type,
+    mode ?? '',
+    title_include ?? '',
+    title_exclude ?? '',
+    removed ?? '',
+    limit,
+    page,
+  ].join('|');
+
+export const getCachedFeed = (key: string) => feedCache.get(key);
+
+export const setCachedFeed = (key: string, feed: RenderedFeed) => {
+  feedCache.set(key, feed);
+};
+
+/**
+ * 清除公众号对应的订阅源缓存，全部文章、搜索结果等订阅源也可能包含该公众号的文章，一并清除
+ */
+export const invalidateFeedCache = (mpId: string) => {
+  for (const key of feedCache.keys()) {
+    const [id] = key.split('|');
+    if (id === mpId || isAggregateFeed(id)) {
+      feedCache.delete(key);
+    }
+  }
+};
@@ -2,6 +2,7 @@ import {
   Controller,
   DefaultValuePipe,
   Get,
+  HttpStatus,
   Logger,
   Param,
   ParseIntPipe,
@@ -11,12 +12,57 @@ import {
 } from '@nestjs/common';
 import { FeedsService } from './feeds.service';
 import { Response as Res, Request as Req } from 'express';
+import { createHash } from 'crypto';
+import { feedCacheMaxAge } from '@server/constants';
+import { ConfigService } from '@nestjs/config';
+import { ConfigurationType } from '@server/configuration';
 
 @Controller('feeds')
 export class FeedsController {
   private readonly logger = new Logger(this.constructor.name);
 
-  constructor(private readonly feedsService: FeedsService) {}
+  constructor(
+    private readonly feedsService: FeedsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 设置缓存相关响应头，内容未变化时直接返回 304，返回是否已响应
+   */
+  private async handleConditionalGet(
+    req: Req,
+    res: Res,
+    target: { id?: string; groupId?: string; alertId?: string } = {},
+  ) {
+    const { lastModified, version } =
+      await this.feedsService.getFeedFreshness(target);
+    // 同一订阅源不同格式、分页和过滤参数的内容不同
+    const etag = `W/"${createHash('sha1')
+      .update(`${req.originalUrl}|${version}`)
+      .digest('hex')}"`;
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', new Date(lastModified).toUTCString());
+    res.setHeader('Cache-Control', `public, max-age=${feedCacheMaxAge}`);
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    const ifModifiedSince = req.headers['if-modified-since'];
+    let notModified = false;
+    if (ifNoneMatch) {
+      notModified = ifNoneMatch
+        .split(',')
+        .some((tag) => tag.trim() === etag || tag.trim() === '*');
+    } else if (ifModifiedSince) {
+      const since = Date.parse(ifModifiedSince);
+      notModified =
+        !Number.isNaN(since) && Math.floor(lastModified / 1e3) * 1e3 <= since;
+    }
+
+    if (notModified) {
+      res.status(HttpStatus.NOT_MODIFIED).end();
+    }
+    return notModified;
+  }
 
   @Get('/')
   async getFeedList() {
@@ -32,17 +78,176 @@ export class FeedsController {
     @Query('mode') mode: string,
     @Query('title_include') title_include: string,
     @Query('title_exclude') title_exclude: string,
+    @Query('removed') removed: string,
+  ) {
+    const path = req.path;
+    const type = path.split('.').pop() || '';
+
+    if (await this.handleConditionalGet(req, res)) {
+      return;
+    }
+
+    const { content, mimeType } = await this.feedsService.handleGenerateFeed({
+      type,
+      limit,
+      page,
+      mode,
+      title_include,
+      title_exclude,
+      removed,
+    });
+
+    res.setHeader('Content-Type', mimeType);
+    res.send(content);
+  }
+
+  @Get('/opml')
+  async getOpml(
+    @Request() req: Req,
+    @Response() res: Res,
+    @Query('type') type: string = 'atom',
+  ) {
+    const originUrl =
+      this.configService.get<ConfigurationType['feed']>('feed')!.originUrl ||
+      `${req.protocol}://${req.get('host')}`;
+    const content = await this.feedsService.getOpml({ type, originUrl });
+
+    res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      'attachment; filename="WeWeRSS-All.opml"',
+    );
+    res.send(content);
+  }
+
+  @Get('/merge.(json|rss|atom)')
+  async getMergeFeed(
+    @Request() req: Req,
+    @Response() res: Res,
+    @Query('ids') ids: string = '',
+    @Query('limit', new DefaultValuePipe(30), ParseIntPipe) limit: number = 30,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('mode') mode: string,
+    @Query('title_include') title_include: string,
+    @Query('title_exclude') title_exclude: string,
+    @Query('removed') removed: string,
   ) {
     const path = req.path;
     const type = path.split('.').pop() || '';
+    const mpIds = [
+      ...new Set(
+        ids
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean),
+      ),
+    ];
+
+    if (await this.handleConditionalGet(req, res)) {
+      return;
+    }
+
+    const { content, mimeType } = await this.feedsService.handleGenerateFeed({
+      mpIds,
+      type,
+      limit,
+      page,
+      mode,
+      title_include,
+      title_exclude,
+      removed,
+    });
+
+    res.setHeader('Content-Type', mimeType);
+    res.send(content);
+  }
+
+  @Get('/group/:group')
+  async getGroupFeed(
+    @Request() req: Req,
+    @Response() res: Res,
+    @Param('group') group: string,
+    @Query('limit', new DefaultValuePipe(30), ParseIntPipe) limit: number = 30,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('mode') mode: string,
+    @Query('title_include') title_include: string,
+    @Query('title_exclude') title_exclude: string,
+    @Query('removed') removed: string,
+  ) {
+    const [groupId, type] = group.split('.');
+
+    if (await this.handleConditionalGet(req, res, { groupId })) {
+      return;
+    }
 
     const { content, mimeType } = await this.feedsService.handleGenerateFeed({
+      groupId,
       type,
       limit,
       page,
       mode,
       title_include,
       title_exclude,
+      removed,
+    });
+
+    res.setHeader('Content-Type', mimeType);
+    res.send(content);
+  }
+
+  @Get('/search.(json|rss|atom)')
+  async getSearchFeed(
+    @Request() req: Req,
+    @Response() res: Res,
+    @Query('q') q: string = '',
+    @Query('limit', new DefaultValuePipe(30), ParseIntPipe) limit: number = 30,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('mode') mode: string,
+    @Query('removed') removed: string,
+  ) {
+    const path = req.path;
+    const type = path.split('.').pop() || '';
+
+    if (await this.handleConditionalGet(req, res)) {
+      return;
+    }
+
+    const { content, mimeType } = await this.feedsService.handleGenerateFeed({
+      keyword: q,
+      type,
+      limit,
+      page,
+      mode,
+      removed,
+    });
+
+    res.setHeader('Content-Type', mimeType);
+    res.send(content);
+  }
+
+  @Get('/alert/:alert')
+  async getAlertFeed(
+    @Request() req: Req,
+    @Response() res: Res,
+    @Param('alert') alert: string,
+    @Query('limit', new DefaultValuePipe(30), ParseIntPipe) limit: number = 30,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('mode') mode: string,
+    @Query('removed') removed: string,
+  ) {
+    const [alertId, type] = alert.split('.');
+
+    if (await this.handleConditionalGet(req, res, { alertId })) {
+      return;
+    }
+
+    const { content, mimeType } = await this.feedsService.handleGenerateFeed({
+      alertId,
+      type,
+      limit,
+      page,
+      mode,
+      removed,
     });
 
     res.setHeader('Content-Type', mimeType);
@@ -51,6 +256,7 @@ export class FeedsController {
 
   @Get('/:feed')
   async getFeed(
+    @Request() req: Req,
     @Response() res: Res,
     @Param('feed') feed: string,
     @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number = 10,
@@ -58,6 +264,7 @@ export class FeedsController {
     @Query('mode') mode: string,
     @Query('title_include') title_include: string,
     @Query('title_exclude') title_exclude: string,
+    @Query('removed') removed: string,
     @Query('update') update: boolean = false,
   ) {
     const [id, type] = feed.split('.');
@@ -67,6 +274,10 @@ export class FeedsController {
       this.feedsService.updateFeed(id);
     }
 
+    if (await this.handleConditionalGet(req, res, { id })) {
+      return;
+    }
+
     const { content, mimeType } = await this.feedsService.handleGenerateFeed({
       id,
       type,
@@ -75,6 +286,7 @@ export class FeedsController {
       mode,
       title_include,
       title_exclude,
+      removed,
     });
 
     res.setHeader('Content-Type', mimeType);
@@ -3,9 +3,10 @@ import { FeedsController } from './feeds.controller';
 import { FeedsService } from './feeds.service';
 import { PrismaModule } from '@server/prisma/prisma.module';
 import { TrpcModule } from '@server/trpc/trpc.module';
+import { StoreModule } from '@server/store/store.module';
 
 @Module({
-  imports: [PrismaModule, TrpcModule],
+  imports: [PrismaModule, TrpcModule, StoreModule],
   controllers: [FeedsController],
   providers: [FeedsService],
 })
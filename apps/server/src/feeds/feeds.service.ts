@@ -1,24 +1,34 @@
 import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '@server/prisma/prisma.service';
-import { Cron } from '@nestjs/schedule';
+import { Cron, Interval } from '@nestjs/schedule';
 import { TrpcService } from '@server/trpc/trpc.service';
-import { feedMimeTypeMap, feedTypes } from '@server/constants';
+import {
+  articleContentStatusMap,
+  contentPrefetch,
+  contentPrefetchInterval,
+} from '@server/constants';
 import { ConfigService } from '@nestjs/config';
-import { Article, Feed as FeedInfo } from '@prisma/client';
 import { ConfigurationType } from '@server/configuration';
-import { Feed, Item } from 'feed';
 import got, { Got } from 'got';
-import { load } from 'cheerio';
 import { minify } from 'html-minifier';
-import { LRUCache } from 'lru-cache';
-import pMap from '@cjs-exporter/p-map';
+import {
+  buildOpml,
+  FeedError,
+  FeedOptions,
+  fetchArticleContent,
+  generateFeed,
+  getFeedKey,
+  normalizeFeedType,
+} from '@wewe-rss/core';
+import {
+  getCachedFeed,
+  getFeedCacheKey,
+  setCachedFeed,
+} from '@server/feeds/feed-cache';
+import { PrismaStore } from '@server/store/prisma-store';
 
 console.log('CRON_EXPRESSION: ', process.env.CRON_EXPRESSION);
 
-const mpCache = new LRUCache<string, string>({
-  max: 5000,
-});
-
 @Injectable()
 export class FeedsService {
   private readonly logger = new Logger(this.constructor.name);
@@ -28,6 +38,7 @@ export class FeedsService {
     private readonly prismaService: PrismaService,
     private readonly trpcService: TrpcService,
     private readonly configService: ConfigService,
+    private readonly prismaStore: PrismaStore,
   ) {
     this.request = got.extend({
       retry: {
@@ -73,246 +84,180 @@ export class FeedsService {
   async handleUpdateFeedsCron() {
     this.logger.debug('Called handleUpdateFeedsCron');
 
-    const feeds = await this.prismaService.feed.findMany({
-      where: { status: 1 },
-    });
-    this.logger.debug('feeds length:' + feeds.length);
-
-    const updateDelayTime =
-      this.configService.get<ConfigurationType['feed']>(
-        'feed',
-      )!.updateDelayTime;
-
-    for (const feed of feeds) {
-      this.logger.debug('feed', feed.id);
-      try {
-        await this.trpcService.refreshMpArticlesAndUpdateFeed(feed.id);
+    // 加入任务队列，由队列按 updateDelayTime 间隔依次更新
+    const count = await this.trpcService.refreshGlobalScheduleFeeds();
+    this.logger.debug('feeds length:' + count);
+  }
 
-        await new Promise((resolve) =>
-          setTimeout(resolve, updateDelayTime * 1e3),
-        );
-      } catch (err) {
-        this.logger.error('handleUpdateFeedsCron error', err);
-      } finally {
-        // wait 30s for next feed
-        await new Promise((resolve) => setTimeout(resolve, 30 * 1e3));
+  @Interval('updateDueFeeds', 60 * 1e3)
+  async handleUpdateDueFeeds() {
+    try {
+      const count = await this.trpcService.refreshDueFeeds();
+      if (count > 0) {
+        this.logger.debug(`handleUpdateDueFeeds feeds length: ${count}`);
       }
+    } catch (err) {
+      this.logger.error('handleUpdateDueFeeds error', err);
     }
   }
 
-  async cleanHtml(source: string) {
-    const $ = load(source, { decodeEntities: false });
-
-    const dirtyHtml = $.html($('.rich_media_content'));
-
-    const html = dirtyHtml
-      .replace(/data-src=/g, 'src=')
-      .replace(/opacity: 0( !important)?;/g, '')
-      .replace(/visibility: hidden;/g, '');
-
-    const content =
-      '<style> .rich_media_content {overflow: hidden;color: #222;font-size: 17px;word-wrap: break-word;-webkit-hyphens: auto;-ms-hyphens: auto;hyphens: auto;text-align: justify;position: relative;z-index: 0;}.rich_media_content {font-size: 18px;}</style>' +
-      html;
-
-    const result = minify(content, {
-      removeAttributeQuotes: true,
-      collapseWhitespace: true,
-    });
-
-    return result;
+  /**
+   * 抓取文章全文，保存原始 html、清理后的 html 和纯文本；失败时按次数退避重试
+   */
+  async fetchArticleContent(id: string) {
+    return fetchArticleContent(
+      this.prismaStore,
+      {
+        id,
+        fetchHtml: (url) => this.request(url, { responseType: 'text' }).text(),
+        minify: (html) =>
+          minify(html, {
+            removeAttributeQuotes: true,
+            collapseWhitespace: true,
+          }),
+      },
+      this.logger,
+    );
   }
 
-  async getHtmlByUrl(url: string) {
-    const html = await this.request(url, { responseType: 'text' }).text();
-    if (
-      this.configService.get<ConfigurationType['feed']>('feed')!.enableCleanHtml
-    ) {
-      const result = await this.cleanHtml(html);
-      return result;
-    }
-
-    return html;
-  }
+  private isContentQueueRunning = false;
 
-  async tryGetContent(id: string) {
-    let content = mpCache.get(id);
-    if (content) {
-      return content;
+  @Interval('prefetchArticleContent', contentPrefetchInterval * 1e3)
+  async handlePrefetchArticleContent() {
+    if (this.isContentQueueRunning) {
+      return;
     }
-    const url = `https://mp.weixin.qq.com/s/${id}`;
-    content = await this.getHtmlByUrl(url).catch((e) => {
-      this.logger.error(`getHtmlByUrl(${url}) error: ${e.message}`);
 
-      return '获取全文失败，请重试~';
-    });
-    mpCache.set(id, content);
-    return content;
+    this.isContentQueueRunning = true;
+    try {
+      const pending = await this.prismaService.articleContent.findMany({
+        where: {
+          status: articleContentStatusMap.PENDING,
+          nextRetryAt: { lte: Math.floor(Date.now() / 1e3) },
+        },
+        select: { id: true },
+        orderBy: [{ nextRetryAt: 'asc' }, { createdAt: 'desc' }],
+        take: contentPrefetch.batchSize,
+      });
+      for (const { id } of pending) {
+        await this.fetchArticleContent(id);
+      }
+    } catch (err) {
+      this.logger.error('handlePrefetchArticleContent error', err);
+    } finally {
+      this.isContentQueueRunning = false;
+    }
   }
 
-  async renderFeed({
-    type,
-    feedInfo,
-    articles,
-    mode,
-  }: {
-    type: string;
-    feedInfo: FeedInfo;
-    articles: Article[];
-    mode?: string;
-  }) {
-    const { originUrl, mode: globalMode } =
-      this.configService.get<ConfigurationType['feed']>('feed')!;
-
-    const link = `${originUrl}/feeds/${feedInfo.id}.${type}`;
-
-    const feed = new Feed({
-      title: feedInfo.mpName,
-      description: feedInfo.mpIntro,
-      id: link,
-      link: link,
-      language: 'zh-cn', // optional, used only in RSS 2.0, possible values: http://www.w3.org/TR/REC-html40/struct/dirlang.html#langcodes
-      image: feedInfo.mpCover,
-      favicon: feedInfo.mpCover,
-      copyright: '',
-      updated: new Date(feedInfo.updateTime * 1e3),
-      generator: 'WeWe-RSS',
-      author: { name: feedInfo.mpName },
-    });
-
-    feed.addExtension({
-      name: 'generator',
-      objects: `WeWe-RSS`,
-    });
-
-    const feeds = await this.prismaService.feed.findMany({
-      select: { id: true, mpName: true },
+  async handleGenerateFeed(opts: FeedOptions) {
+    const type = normalizeFeedType(opts.type);
+    // 合并、分组、搜索和提醒订阅不对应单个公众号，使用虚拟 id
+    const cacheKey = getFeedCacheKey({
+      id: getFeedKey(opts),
+      keyword: opts.keyword,
+      type,
+      mode: opts.mode,
+      title_include: opts.title_include,
+      title_exclude: opts.title_exclude,
+      removed: opts.removed,
+      limit: opts.limit,
+      page: opts.page,
     });
+    const cached = getCachedFeed(cacheKey);
+    if (cached) {
+      return cached;
+    }
 
-    /**mode 高于 globalMode。如果 mode 值存在，取 mode 值*/
-    const enableFullText =
-      typeof mode === 'string'
-        ? mode === 'fulltext'
-        : globalMode === 'fulltext';
-
-    const showAuthor = feedInfo.id === 'all';
-
-    const mapper = async (item) => {
-      const { title, id, publishTime, picUrl, mpId } = item;
-      const link = `https://mp.weixin.qq.com/s/${id}`;
-
-      const mpName = feeds.find((item) => item.id === mpId)?.mpName || '-';
-      const published = new Date(publishTime * 1e3);
-
-      let content = '';
-      if (enableFullText) {
-        content = await this.tryGetContent(id);
+    const { originUrl, mode, enableCleanHtml } =
+      this.configService.get<ConfigurationType['feed']>('feed')!;
+    try {
+      const result = await generateFeed(
+        this.prismaStore,
+        { originUrl, feedMode: mode, enableCleanHtml },
+        { ...opts, type },
+        this.logger,
+      );
+      setCachedFeed(cacheKey, result);
+      return result;
+    } catch (err) {
+      if (err instanceof FeedError) {
+        throw new HttpException(err.message, HttpStatus.BAD_REQUEST);
       }
-
-      feed.addItem({
-        id,
-        title,
-        link: link,
-        guid: link,
-        content,
-        date: published,
-        image: picUrl,
-        author: showAuthor ? [{ name: mpName }] : undefined,
-      });
-    };
-
-    await pMap(articles, mapper, { concurrency: 2, stopOnError: false });
-
-    return feed;
+      throw err;
+    }
   }
 
-  async handleGenerateFeed({
+  /**
+   * 订阅源内容的最后修改时间（毫秒）和版本标识，用于 ETag / Last-Modified。
+   * 分组和提醒订阅修改成员或关键词后内容也会变化，同时统计分组、提醒订阅本身的修改时间
+   */
+  async getFeedFreshness({
     id,
-    type,
-    limit,
-    page,
-    mode,
-    title_include,
-    title_exclude,
-  }: {
-    id?: string;
-    type: string;
-    limit: number;
-    page: number;
-    mode?: string;
-    title_include?: string;
-    title_exclude?: string;
-  }) {
-    if (!feedTypes.includes(type as any)) {
-      type = 'atom';
-    }
-
-    let articles: Article[];
-    let feedInfo: FeedInfo;
-    if (id) {
-      feedInfo = (await this.prismaService.feed.findFirst({
-        where: { id },
-      }))!;
-
-      if (!feedInfo) {
-        throw new HttpException('不存在该feed！', HttpStatus.BAD_REQUEST);
-      }
-
-      articles = await this.prismaService.article.findMany({
-        where: { mpId: id },
-        orderBy: { publishTime: 'desc' },
-        take: limit,
-        skip: (page - 1) * limit,
-      });
-    } else {
-      articles = await this.prismaService.article.findMany({
-        orderBy: { publishTime: 'desc' },
-        take: limit,
-        skip: (page - 1) * limit,
-      });
-
-      const { originUrl } =
-        this.configService.get<ConfigurationType['feed']>('feed')!;
-      feedInfo = {
-        id: 'all',
-        mpName: 'WeWe-RSS All',
-        mpIntro: 'WeWe-RSS 全部文章',
-        mpCover: originUrl
-          ? `${originUrl}/favicon.ico`
-          : 'https://r2-assets.111965.xyz/wewe-rss.png',
-        status: 1,
-        syncTime: 0,
-        updateTime: Math.floor(Date.now() / 1e3),
-        hasHistory: -1,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    groupId,
+    alertId,
+  }: { id?: string; groupId?: string; alertId?: string } = {}) {
+    const [articleStats, feedStats, source] = await Promise.all([
+      this.prismaService.article.aggregate({
+        where: id ? { mpId: id } : {},
+        _max: { updatedAt: true },
+        _count: true,
+      }),
+      this.prismaService.feed.aggregate({
+        where: id ? { id } : {},
+        _max: { updatedAt: true },
+        _count: true,
+      }),
+      groupId
+        ? this.prismaService.feedGroup.findUnique({
+            where: { id: groupId },
+            select: { updatedAt: true },
+          })
+        : alertId
+          ? this.prismaService.alertFeed.findUnique({
+              where: { id: alertId },
+              select: { updatedAt: true },
+            })
+          : null,
+    ]);
+    if (id && feedStats._count === 0) {
+      throw new HttpException('不存在该feed！', HttpStatus.BAD_REQUEST);
     }
 
-    this.logger.log('handleGenerateFeed articles: ' + articles.length);
-    const feed = await this.renderFeed({ feedInfo, articles, type, mode });
-
-    if (title_include) {
-      const includes = title_include.split('|');
-      feed.items = feed.items.filter((i: Item) =>
-        includes.some((k) => i.title.includes(k)),
-      );
-    }
-    if (title_exclude) {
-      const excludes = title_exclude.split('|');
-      feed.items = feed.items.filter(
-        (i: Item) => !excludes.some((k) => i.title.includes(k)),
-      );
-    }
+    const sourceModified = source?.updatedAt?.getTime() || 0;
+    const lastModified = Math.max(
+      articleStats._max.updatedAt?.getTime() || 0,
+      feedStats._max.updatedAt?.getTime() || 0,
+      sourceModified,
+    );
+    return {
+      lastModified,
+      version: `${lastModified}-${articleStats._count}-${feedStats._count}-${sourceModified}`,
+    };
+  }
 
-    switch (type) {
-      case 'rss':
-        return { content: feed.rss2(), mimeType: feedMimeTypeMap[type] };
-      case 'json':
-        return { content: feed.json1(), mimeType: feedMimeTypeMap[type] };
-      case 'atom':
-      default:
-        return { content: feed.atom1(), mimeType: feedMimeTypeMap[type] };
-    }
+  /**
+   * 导出全部订阅源，按分组嵌套
+   */
+  async getOpml({ type, originUrl }: { type: string; originUrl: string }) {
+    const [feeds, groups, members] = await Promise.all([
+      this.prismaService.feed.findMany({ orderBy: { createdAt: 'asc' } }),
+      this.prismaService.feedGroup.findMany({
+        orderBy: [{ sort: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prismaService.feedGroupFeed.findMany(),
+    ]);
+
+    return buildOpml({
+      originUrl,
+      type: normalizeFeedType(type),
+      feeds,
+      groups: groups.map((group) => ({
+        name: group.name,
+        mpIds: members
+          .filter((member) => member.groupId === group.id)
+          .map((member) => member.mpId),
+      })),
+    });
   }
 
   async getFeedList() {
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { PrismaModule } from '@server/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [JobsService],
+  exports: [JobsService],
+})
+export class JobsModule {}
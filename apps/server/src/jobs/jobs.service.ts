@@ -0,0 +1,114 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '@server/prisma/prisma.service';
+import { JobType, jobStatusMap } from '@server/constants';
+
+const activeStatuses = [jobStatusMap.QUEUED, jobStatusMap.RUNNING];
+
+@Injectable()
+export class JobsService implements OnModuleInit {
+  private readonly logger = new Logger(this.constructor.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async onModuleInit() {
+    // 服务重启时中断的任务重新排队，历史文章从保存的页码继续
+    const { count } = await this.prismaService.job.updateMany({
+      where: { status: jobStatusMap.RUNNING },
+      data: { status: jobStatusMap.QUEUED },
+    });
+    if (count > 0) {
+      this.logger.log(`恢复 ${count} 个中断的任务`);
+    }
+  }
+
+  /**
+   * 加入队列，同一公众号同类型的任务未完成时直接返回已有任务
+   */
+  async enqueue(
+    type: JobType,
+    mpId: string,
+    { page = 1, runAt = 0 }: { page?: number; runAt?: number } = {},
+  ) {
+    const existing = await this.prismaService.job.findFirst({
+      where: { type, mpId, status: { in: activeStatuses } },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return this.prismaService.job.create({
+      data: { type, mpId, page, runAt },
+    });
+  }
+
+  /**
+   * 抢占排队中的任务，返回是否成功
+   */
+  async claim(id: number) {
+    const { count } = await this.prismaService.job.updateMany({
+      where: { id, status: jobStatusMap.QUEUED },
+      data: { status: jobStatusMap.RUNNING },
+    });
+    return count > 0;
+  }
+
+  async claimNext() {
+    const job = await this.prismaService.job.findFirst({
+      where: {
+        status: jobStatusMap.QUEUED,
+        runAt: { lte: Math.floor(Date.now() / 1e3) },
+      },
+      orderBy: [{ runAt: 'asc' }, { id: 'asc' }],
+    });
+    if (!job || !(await this.claim(job.id))) {
+      return null;
+    }
+    return { ...job, status: jobStatusMap.RUNNING };
+  }
+
+  async complete(id: number) {
+    return this.prismaService.job.update({
+      where: { id },
+      data: { status: jobStatusMap.DONE, error: null },
+    });
+  }
+
+  async requeue(
+    id: number,
+    data: { page?: number; attempts?: number; runAt?: number; error?: string },
+  ) {
+    return this.prismaService.job.update({
+      where: { id },
+      data: { ...data, status: jobStatusMap.QUEUED },
+    });
+  }
+
+  async fail(id: number, error: string, attempts: number) {
+    return this.prismaService.job.update({
+      where: { id },
+      data: { status: jobStatusMap.FAILED, error, attempts },
+    });
+  }
+
+  /**
+   * 取消未完成的任务，不传 mpId 时取消该类型的全部任务
+   */
+  async cancel(type: JobType, mpId?: string) {
+    const { count } = await this.prismaService.job.updateMany({
+      where: {
+        type,
+        mpId: mpId || undefined,
+        status: { in: activeStatuses },
+      },
+      data: { status: jobStatusMap.FAILED, error: 'cancelled' },
+    });
+    return count;
+  }
+
+  async listActive(type: JobType) {
+    return this.prismaService.job.findMany({
+      where: { type, status: { in: activeStatuses } },
+      orderBy: { id: 'asc' },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConfigurationType } from '@server/configuration';
+import {
+  NotifyChannel,
+  NotifyClient,
+  NotifyMessage,
+  SmtpSocket,
+  parseNotifyChannels,
+  sendNotification,
+} from '@wewe-rss/core';
+import Axios from 'axios';
+import { createHmac } from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+
+/**
+ * 将 net/tls 的事件转换为 SmtpSocket 按顺序读取的接口
+ */
+class NodeSmtpSocket implements SmtpSocket {
+  private chunks: string[] = [];
+  private waiting: (() => void) | null = null;
+  private closed = false;
+  private error: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    private readonly host: string,
+  ) {
+    this.listen();
+  }
+
+  static connect({
+    host,
+    port,
+    secure,
+  }: {
+    host: string;
+    port: number;
+    secure: boolean;
+  }) {
+    return new Promise<NodeSmtpSocket>((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new NodeSmtpSocket(socket, host));
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  private listen() {
+    const wake = () => {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting?.();
+    };
+    this.socket.on('data', (data: Buffer) => {
+      this.chunks.push(data.toString('utf8'));
+      wake();
+    });
+    this.socket.once('close', () => {
+      this.closed = true;
+      wake();
+    });
+    this.socket.on('error', (error) => {
+      this.error = error;
+      wake();
+    });
+  }
+
+  async read() {
+    while (this.chunks.length === 0) {
+      if (this.error) {
+        throw this.error;
+      }
+      if (this.closed) {
+        return null;
+      }
+      await new Promise<void>((resolve) => (this.waiting = resolve));
+    }
+    return this.chunks.shift()!;
+  }
+
+  write(data: string) {
+    return new Promise<void>((resolve, reject) =>
+      this.socket.write(data, (error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  startTls() {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('error');
+    return new Promise<void>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: this.host });
+      socket.once('secureConnect', () => {
+        socket.off('error', reject);
+        this.socket = socket;
+        this.listen();
+        resolve();
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  async close() {
+    this.socket.destroy();
+  }
+}
+
+@Injectable()
+export class NotifyService {
+  private readonly logger = new Logger(this.constructor.name);
+
+  private readonly channels: NotifyChannel[];
+
+  private readonly client: NotifyClient = {
+    async post({ url, headers, body, timeout }) {
+      const response = await Axios.post(url, body, {
+        headers,
+        timeout,
+        // 状态码和错误码由 sendNotification 判断，不抛出错误
+        validateStatus: () => true,
+        transformRequest: (data) => data,
+        transformResponse: (data) => data,
+        responseType: 'text',
+      });
+      return { status: response.status, body: `${response.data ?? ''}` };
+    },
+    connectSmtp: (options) => NodeSmtpSocket.connect(options),
+    async sign(secret, data) {
+      return createHmac('sha256', secret).update(data).digest('hex');
+    },
+  };
+
+  constructor(private readonly configService: ConfigService) {
+    this.channels = parseNotifyChannels(
+      this.configService.get<ConfigurationType['notify']>('notify')!,
+      this.logger,
+    );
+  }
+
+  /**
+   * 发送到订阅了该事件的通知渠道，未配置渠道时不发送
+   */
+  async send(message: NotifyMessage) {
+    if (this.channels.length === 0) {
+      this.logger.debug(`未配置通知渠道，跳过通知: ${message.title}`);
+      return [];
+    }
+    return sendNotification(this.channels, message, this.client, this.logger);
+  }
+}
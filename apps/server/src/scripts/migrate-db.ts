@@ -0,0 +1,242 @@
+/**
+ * 在不同数据库类型（DATABASE_TYPE）的实例之间迁移数据，例如 SQLite -> MySQL、MySQL -> Cloudflare D1。
+ *
+ * 源实例和目标实例都需要处于运行状态，数据通过两边的备份接口（backup.export / backup.restore）逐批传输，
+ * 由各自实例负责与本地数据库之间的转换：Prisma 的 DateTime 与 D1 中毫秒整数的 created_at 在传输时统一为 ISO 时间。
+ *
+ * 用法：
+ *   node dist/scripts/migrate-db --from http://旧实例:4000 --from-auth-code xxx \
+ *     --to https://新实例 --to-auth-code xxx [--include-tokens] [--batch-size 500]
+ *
+ * 每批导入成功后会把进度写入 checkpoint 文件，中断后使用相同参数重新运行即可继续，
+ * 全部导入后对比两边的记录数，校验通过才删除 checkpoint 文件。
+ */
+import axios, { AxiosInstance } from 'axios';
+import {
+  existsSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { parseArgs } from 'util';
+import { BackupSection, backupSections } from '../constants';
+
+type BackupInfo = {
+  version: number;
+  sections: BackupSection[];
+  counts: Record<BackupSection, number>;
+};
+
+type Checkpoint = {
+  from: string;
+  to: string;
+  sections: Partial<
+    Record<
+      BackupSection,
+      { cursor: string | null; done: boolean; migrated: number }
+    >
+  >;
+};
+
+// 文章内容包含原始 HTML，单批数量过大容易超出请求体限制
+const contentBatchSize = 20;
+
+const createClient = (baseURL: string, authCode?: string) =>
+  axios.create({
+    baseURL: `${baseURL.replace(/\/+$/, '')}/trpc`,
+    headers: authCode ? { Authorization: authCode } : {},
+    timeout: 120 * 1e3,
+  });
+
+const getErrorMessage = (err: any) =>
+  err?.response?.data?.error?.message || err?.message || String(err);
+
+async function query<T>(client: AxiosInstance, path: string, input?: unknown) {
+  const { data } = await client.get(path, {
+    params: input === undefined ? undefined : { input: JSON.stringify(input) },
+  });
+  return data.result.data as T;
+}
+
+async function mutation<T>(
+  client: AxiosInstance,
+  path: string,
+  input: unknown,
+) {
+  const { data } = await client.post(path, input);
+  return data.result.data as T;
+}
+
+/**
+ * D1 中的时间戳为毫秒整数，旧版本的导出结果可能直接返回数字，统一转换为 ISO 时间
+ */
+const normalizeTimestamps = (item: Record<string, unknown>) => {
+  const result = { ...item };
+  for (const key of ['createdAt', 'updatedAt']) {
+    const value = result[key];
+    if (typeof value === 'number') {
+      // 秒级时间戳转换为毫秒
+      result[key] = new Date(value < 1e12 ? value * 1e3 : value).toISOString();
+    }
+  }
+  return result;
+};
+
+function loadCheckpoint(path: string, from: string, to: string): Checkpoint {
+  if (existsSync(path)) {
+    const checkpoint = JSON.parse(readFileSync(path, 'utf-8')) as Checkpoint;
+    if (checkpoint.from === from && checkpoint.to === to) {
+      console.log(`从 ${path} 继续上次的迁移进度`);
+      return checkpoint;
+    }
+    throw new Error(
+      `${path} 记录的是 ${checkpoint.from} -> ${checkpoint.to} 的迁移进度，请使用 --reset 重新开始或指定其他 --checkpoint`,
+    );
+  }
+  return { from, to, sections: {} };
+}
+
+function saveCheckpoint(path: string, checkpoint: Checkpoint) {
+  // 先写临时文件再重命名，避免中断时留下不完整的 checkpoint
+  writeFileSync(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      'from-auth-code': { type: 'string' },
+      to: { type: 'string' },
+      'to-auth-code': { type: 'string' },
+      'include-tokens': { type: 'boolean', default: false },
+      'batch-size': { type: 'string', default: '500' },
+      checkpoint: { type: 'string', default: '.wewe-rss-migrate.json' },
+      reset: { type: 'boolean', default: false },
+    },
+  });
+
+  const from = values.from?.replace(/\/+$/, '');
+  const to = values.to?.replace(/\/+$/, '');
+  if (!from || !to) {
+    throw new Error('请通过 --from 和 --to 指定源实例和目标实例的地址');
+  }
+  if (from === to) {
+    throw new Error('源实例和目标实例不能相同');
+  }
+  const batchSize = Math.min(
+    Math.max(parseInt(values['batch-size']!, 10) || 500, 1),
+    1000,
+  );
+  const checkpointPath = values.checkpoint!;
+
+  const source = createClient(from, values['from-auth-code']);
+  const target = createClient(to, values['to-auth-code']);
+
+  const sourceInfo = await query<BackupInfo>(source, 'backup.info');
+  const targetInfo = await query<BackupInfo>(target, 'backup.info');
+  if (sourceInfo.version > targetInfo.version) {
+    throw new Error(
+      `目标实例不支持备份版本 ${sourceInfo.version}，请先升级目标实例`,
+    );
+  }
+  // 双方都支持的数据才能迁移
+  const sections = backupSections.filter(
+    (section) =>
+      sourceInfo.sections.includes(section) &&
+      targetInfo.sections.includes(section),
+  );
+
+  if (values.reset) {
+    rmSync(checkpointPath, { force: true });
+  }
+  const checkpoint = loadCheckpoint(checkpointPath, from, to);
+
+  for (const section of sections) {
+    const progress = (checkpoint.sections[section] ??= {
+      cursor: null,
+      done: false,
+      migrated: 0,
+    });
+    if (progress.done) {
+      console.log(`[${section}] 已完成，跳过`);
+      continue;
+    }
+
+    const limit =
+      section === 'articleContents'
+        ? Math.min(batchSize, contentBatchSize)
+        : batchSize;
+    do {
+      const { items, nextCursor } = await query<{
+        items: Record<string, unknown>[];
+        nextCursor?: string;
+      }>(source, 'backup.export', {
+        section,
+        cursor: progress.cursor,
+        limit,
+        includeTokens: values['include-tokens'],
+      });
+
+      if (items.length) {
+        const { count } = await mutation<{ count: number }>(
+          target,
+          'backup.restore',
+          {
+            version: sourceInfo.version,
+            section,
+            items: items.map(normalizeTimestamps),
+          },
+        );
+        progress.migrated += count;
+      }
+      progress.cursor = nextCursor ?? null;
+      progress.done = !nextCursor;
+      saveCheckpoint(checkpointPath, checkpoint);
+
+      console.log(
+        `[${section}] 已迁移 ${progress.migrated}/${sourceInfo.counts[section]}`,
+      );
+    } while (!progress.done);
+  }
+
+  // 迁移期间源实例可能仍在写入，以最新的记录数为准
+  const sourceCounts = (await query<BackupInfo>(source, 'backup.info')).counts;
+  const targetCounts = (await query<BackupInfo>(target, 'backup.info')).counts;
+  const mismatched: BackupSection[] = [];
+  for (const section of sections) {
+    const ok = targetCounts[section] >= sourceCounts[section];
+    if (!ok) {
+      mismatched.push(section);
+    }
+    console.log(
+      `[${section}] 源实例 ${sourceCounts[section]} 条，目标实例 ${
+        targetCounts[section]
+      } 条 ${ok ? '✓' : '✗'}`,
+    );
+  }
+
+  if (mismatched.length) {
+    // 重新迁移不一致的数据，已存在的记录会被覆盖
+    for (const section of mismatched) {
+      delete checkpoint.sections[section];
+    }
+    saveCheckpoint(checkpointPath, checkpoint);
+    throw new Error(
+      `记录数校验失败：${mismatched.join(', ')}，请重新运行以再次迁移这些数据`,
+    );
+  }
+
+  rmSync(checkpointPath, { force: true });
+  console.log(
+    values['include-tokens']
+      ? '迁移完成'
+      : '迁移完成，未迁移账号 token，请在目标实例重新扫码登录',
+  );
+}
+
+main().catch((err) => {
+  console.error('迁移失败：', getErrorMessage(err));
+  process.exit(1);
+});
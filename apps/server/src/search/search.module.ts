@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { PrismaModule } from '@server/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { ConfigurationType } from '@server/configuration';
+import { PrismaService } from '@server/prisma/prisma.service';
+import { getSnippet, highlight, splitSearchTerms } from '@wewe-rss/core';
+
+type SearchRow = {
+  id: string;
+  mpId: string;
+  title: string;
+  picUrl: string;
+  publishTime: number;
+  status: number;
+  text: string | null;
+};
+
+// 索引的最短关键词长度：sqlite 使用 trigram 分词，mysql 使用 ngram 分词（默认 ngram_token_size=2）
+// postgresql 的 pg_trgm 索引对短关键词退化为顺序扫描，不需要区分
+const minIndexedTermLength = {
+  sqlite: 3,
+  mysql: 2,
+};
+
+// 别名加上引号，postgresql 会把未加引号的别名转为小写
+const searchColumns = Prisma.sql`a.id, a.mp_id AS "mpId", a.title, a.pic_url AS "picUrl",
+  a.publish_time AS "publishTime", a.status, c.text`;
+
+// 使用 ! 作为转义符，sqlite、mysql 和 postgresql 中都不需要额外转义
+const toLikePattern = (term: string) => `%${term.replace(/[!%_]/g, '!$&')}%`;
+
+@Injectable()
+export class SearchService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 按标题和已保存的全文搜索文章，多个关键词用空格分隔，需全部命中；latest 为 true 时按发布时间排序
+   */
+  async searchArticles({
+    keyword,
+    mpId,
+    limit,
+    offset,
+    latest = false,
+  }: {
+    keyword: string;
+    mpId?: string | null;
+    limit: number;
+    offset: number;
+    latest?: boolean;
+  }) {
+    const terms = splitSearchTerms(keyword);
+    if (terms.length === 0) {
+      return { items: [], nextCursor: undefined };
+    }
+
+    const { type } =
+      this.configService.get<ConfigurationType['database']>('database')!;
+    const isSqlite = type === 'sqlite';
+    const minLength = isSqlite
+      ? minIndexedTermLength.sqlite
+      : minIndexedTermLength.mysql;
+    // 关键词太短时索引无法命中，退回 LIKE 查询
+    const useIndex = terms.every((term) => [...term].length >= minLength);
+
+    const mpIdFilter = mpId ? Prisma.sql`AND a.mp_id = ${mpId}` : Prisma.empty;
+    const pageFilter = Prisma.sql`LIMIT ${limit + 1} OFFSET ${offset}`;
+    const latestOrder = latest
+      ? Prisma.sql`a.publish_time DESC,`
+      : Prisma.empty;
+
+    let rows: SearchRow[];
+    if (type === 'postgresql') {
+      rows = await this.searchByTrigram(
+        terms,
+        mpIdFilter,
+        latestOrder,
+        pageFilter,
+      );
+    } else if (!useIndex) {
+      rows = await this.searchByLike(terms, mpIdFilter, pageFilter);
+    } else if (isSqlite) {
+      const query = terms
+        .map((term) => `"${term.replace(/"/g, '""')}"`)
+        .join(' ');
+      rows = await this.prismaService.$queryRaw<SearchRow[]>`
+        SELECT ${searchColumns}
+        FROM articles_fts f
+        JOIN articles a ON a.rowid = f.rowid
+        LEFT JOIN article_contents c ON c.id = a.id
+        WHERE articles_fts MATCH ${query} ${mpIdFilter}
+        ORDER BY ${latestOrder} bm25(articles_fts, 0, 10.0, 1.0), a.publish_time DESC
+        ${pageFilter}`;
+    } else {
+      const query = terms
+        .map((term) => `+"${term.replace(/"/g, '')}"`)
+        .join(' ');
+      rows = await this.prismaService.$queryRaw<SearchRow[]>`
+        SELECT ${searchColumns}
+        FROM articles a
+        LEFT JOIN article_contents c ON c.id = a.id
+        WHERE (MATCH(a.title) AGAINST(${query} IN BOOLEAN MODE)
+          OR MATCH(c.text) AGAINST(${query} IN BOOLEAN MODE)) ${mpIdFilter}
+        ORDER BY ${latestOrder} MATCH(a.title) AGAINST(${query} IN BOOLEAN MODE) * 10
+          + IFNULL(MATCH(c.text) AGAINST(${query} IN BOOLEAN MODE), 0) DESC,
+          a.publish_time DESC
+        ${pageFilter}`;
+    }
+
+    let nextCursor: number | undefined = undefined;
+    if (rows.length > limit) {
+      rows.pop();
+      nextCursor = offset + limit;
+    }
+
+    return {
+      items: rows.map(({ text, ...row }) => ({
+        ...row,
+        publishTime: Number(row.publishTime),
+        status: Number(row.status),
+        titleHighlight: highlight(row.title, terms),
+        snippet: getSnippet(text || '', terms),
+      })),
+      nextCursor,
+    };
+  }
+
+  private async searchByLike(
+    terms: string[],
+    mpIdFilter: Prisma.Sql,
+    pageFilter: Prisma.Sql,
+  ) {
+    const conditions = terms.map((term) => {
+      const pattern = toLikePattern(term);
+      return Prisma.sql`(a.title LIKE ${pattern} ESCAPE '!'
+        OR c.text LIKE ${pattern} ESCAPE '!')`;
+    });
+    return this.prismaService.$queryRaw<SearchRow[]>`
+      SELECT ${searchColumns}
+      FROM articles a
+      LEFT JOIN article_contents c ON c.id = a.id
+      WHERE ${Prisma.join(conditions, ' AND ')} ${mpIdFilter}
+      ORDER BY a.publish_time DESC
+      ${pageFilter}`;
+  }
+
+  /**
+   * postgresql 使用 pg_trgm 索引加速 ILIKE 查询，不区分大小写，标题命中的关键词越多越靠前
+   */
+  private async searchByTrigram(
+    terms: string[],
+    mpIdFilter: Prisma.Sql,
+    latestOrder: Prisma.Sql,
+    pageFilter: Prisma.Sql,
+  ) {
+    const patterns = terms.map(toLikePattern);
+    const conditions = patterns.map(
+      (pattern) => Prisma.sql`(a.title ILIKE ${pattern} ESCAPE '!'
+        OR c.text ILIKE ${pattern} ESCAPE '!')`,
+    );
+    const titleScore = Prisma.join(
+      patterns.map(
+        (pattern) => Prisma.sql`(a.title ILIKE ${pattern} ESCAPE '!')::int`,
+      ),
+      ' + ',
+    );
+    return this.prismaService.$queryRaw<SearchRow[]>`
+      SELECT ${searchColumns}
+      FROM articles a
+      LEFT JOIN article_contents c ON c.id = a.id
+      WHERE ${Prisma.join(conditions, ' AND ')} ${mpIdFilter}
+      ORDER BY ${latestOrder} ${titleScore} DESC, a.publish_time DESC
+      ${pageFilter}`;
+  }
+}
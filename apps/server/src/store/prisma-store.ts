@@ -0,0 +1,363 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConfigurationType } from '@server/configuration';
+import {
+  articleStatusMap,
+  statusMap,
+  webhookDeliveryStatusMap,
+} from '@server/constants';
+import { invalidateFeedCache } from '@server/feeds/feed-cache';
+import { PrismaService } from '@server/prisma/prisma.service';
+import { SearchService } from '@server/search/search.service';
+import type {
+  AccountBlock,
+  ArticleContentData,
+  CoreStore,
+  MpArticle,
+  WebhookDeliveryResult,
+} from '@wewe-rss/core';
+import { splitWebhookList } from '@wewe-rss/core';
+
+/**
+ * @wewe-rss/core 的 Prisma 存储实现，订阅源缓存在内存中，更新后直接清除
+ */
+@Injectable()
+export class PrismaStore implements CoreStore {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  // sqlite3 不支持 createMany，mysql 和 postgresql 使用 createMany 跳过已存在的记录
+  private get supportsCreateMany() {
+    const { type } =
+      this.configService.get<ConfigurationType['database']>('database')!;
+    return type !== 'sqlite';
+  }
+
+  getFeed(id: string) {
+    return this.prismaService.feed.findUnique({ where: { id } });
+  }
+
+  listFeeds(ids?: string[]) {
+    return this.prismaService.feed.findMany({
+      where: ids ? { id: { in: ids } } : {},
+    });
+  }
+
+  async getFeedGroup(id: string) {
+    const group = await this.prismaService.feedGroup.findUnique({
+      where: { id },
+    });
+    if (!group) {
+      return null;
+    }
+    const members = await this.prismaService.feedGroupFeed.findMany({
+      where: { groupId: id },
+    });
+    return { ...group, mpIds: members.map((member) => member.mpId) };
+  }
+
+  getAlertFeed(id: string) {
+    return this.prismaService.alertFeed.findUnique({ where: { id } });
+  }
+
+  async listArticles({
+    mpIds,
+    groupId,
+    limit,
+    offset,
+    hideRemoved,
+  }: {
+    mpIds?: string[];
+    groupId?: string;
+    limit: number;
+    offset: number;
+    hideRemoved: boolean;
+  }) {
+    if (groupId) {
+      const members = await this.prismaService.feedGroupFeed.findMany({
+        where: { groupId },
+      });
+      mpIds = members.map((member) => member.mpId);
+    }
+    return this.prismaService.article.findMany({
+      where: {
+        mpId: mpIds ? { in: mpIds } : undefined,
+        status: hideRemoved ? articleStatusMap.LIVE : undefined,
+      },
+      orderBy: { publishTime: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  getArticlesByIds(ids: string[], hideRemoved: boolean) {
+    return this.prismaService.article.findMany({
+      where: {
+        id: { in: ids },
+        status: hideRemoved ? articleStatusMap.LIVE : undefined,
+      },
+      orderBy: { publishTime: 'desc' },
+    });
+  }
+
+  async searchArticleIds(query: {
+    keyword: string;
+    limit: number;
+    offset: number;
+  }) {
+    const { items } = await this.searchService.searchArticles({
+      ...query,
+      latest: true,
+    });
+    return items.map((item) => item.id);
+  }
+
+  getArticleContents(ids: string[]) {
+    return this.prismaService.articleContent.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, status: true, rawHtml: true, cleanHtml: true },
+    });
+  }
+
+  async enqueueArticleContents(ids: string[]) {
+    if (ids.length === 0) {
+      return;
+    }
+    if (this.supportsCreateMany) {
+      await (this.prismaService.articleContent as any).createMany({
+        data: ids.map((id) => ({ id })),
+        skipDuplicates: true,
+      });
+    } else {
+      await this.prismaService.$transaction(
+        ids.map((id) =>
+          this.prismaService.articleContent.upsert({
+            create: { id },
+            update: {},
+            where: { id },
+          }),
+        ),
+      );
+    }
+  }
+
+  getArticleContent(id: string) {
+    return this.prismaService.articleContent.findUnique({
+      where: { id },
+      select: { status: true, attempts: true },
+    });
+  }
+
+  async upsertArticleContent(id: string, data: ArticleContentData) {
+    await this.prismaService.articleContent.upsert({
+      where: { id },
+      create: { id, ...data },
+      update: data,
+    });
+  }
+
+  async touchArticle(id: string, status: number) {
+    const article = await this.prismaService.article.findUnique({
+      where: { id },
+      select: { mpId: true },
+    });
+    if (!article) {
+      return null;
+    }
+    await this.prismaService.article.update({
+      where: { id },
+      data: { status, updatedAt: new Date() },
+    });
+    return article.mpId;
+  }
+
+  async invalidateFeed(mpId: string) {
+    invalidateFeedCache(mpId);
+  }
+
+  listAvailableAccounts() {
+    return this.prismaService.account.findMany({
+      where: {
+        status: statusMap.ENABLE,
+        blockedUntil: { lte: Math.floor(Date.now() / 1e3) },
+      },
+    });
+  }
+
+  async markAccountUsed(id: string, today: string) {
+    const account = await this.prismaService.account.findUniqueOrThrow({
+      where: { id },
+      select: { dailyRequestDate: true },
+    });
+    await this.prismaService.account.update({
+      where: { id },
+      data: {
+        lastUsedAt: Math.floor(Date.now() / 1e3),
+        requestCount: { increment: 1 },
+        dailyRequestDate: today,
+        dailyRequestCount:
+          account.dailyRequestDate === today ? { increment: 1 } : 1,
+      },
+    });
+  }
+
+  async recordAccountResult(id: string, success: boolean, successRate: number) {
+    await this.prismaService.account.updateMany({
+      where: { id },
+      data: success
+        ? { successRate, rateLimitCount: 0 }
+        : { successRate, failureCount: { increment: 1 } },
+    });
+  }
+
+  async invalidateAccount(id: string) {
+    await this.prismaService.account.update({
+      where: { id },
+      data: { status: statusMap.INVALID },
+    });
+  }
+
+  async incrementRateLimit(id: string) {
+    const account = await this.prismaService.account.update({
+      where: { id },
+      data: { rateLimitCount: { increment: 1 } },
+    });
+    return account.rateLimitCount;
+  }
+
+  async setAccountBlock(id: string, block: AccountBlock) {
+    await this.prismaService.account.updateMany({
+      where: { id },
+      data: block,
+    });
+  }
+
+  /**
+   * 批量插入文章，已存在的跳过，返回插入前不存在的文章 id。sqlite 同时更新已存在文章的标题和发布时间
+   */
+  async saveArticles(mpId: string, articles: MpArticle[]) {
+    const existing = await this.prismaService.article.findMany({
+      where: { id: { in: articles.map(({ id }) => id) } },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map(({ id }) => id));
+
+    if (this.supportsCreateMany) {
+      await (this.prismaService.article as any).createMany({
+        data: articles.map(({ id, picUrl, publishTime, title }) => ({
+          id,
+          mpId,
+          picUrl,
+          publishTime,
+          title,
+        })),
+        skipDuplicates: true,
+      });
+    } else {
+      await this.prismaService.$transaction(
+        articles.map(({ id, picUrl, publishTime, title }) =>
+          this.prismaService.article.upsert({
+            create: { id, mpId, picUrl, publishTime, title },
+            update: { publishTime, title },
+            where: { id },
+          }),
+        ),
+      );
+    }
+
+    return articles.map(({ id }) => id).filter((id) => !existingIds.has(id));
+  }
+
+  getFeedSchedule(id: string) {
+    return this.prismaService.feed.findUnique({ where: { id } });
+  }
+
+  async getRecentPublishTimes(mpId: string, limit: number) {
+    const articles = await this.prismaService.article.findMany({
+      where: { mpId },
+      select: { publishTime: true },
+      orderBy: { publishTime: 'desc' },
+      take: limit,
+    });
+    return articles.map(({ publishTime }) => publishTime);
+  }
+
+  async updateFeedSync(
+    mpId: string,
+    data: { syncTime: number; hasHistory: number; nextSyncAt?: number },
+  ) {
+    await this.prismaService.feed.update({ where: { id: mpId }, data });
+  }
+
+  async listActiveWebhooks() {
+    const webhooks = await this.prismaService.webhook.findMany({
+      where: { status: statusMap.ENABLE },
+    });
+    return webhooks.map((webhook) => ({
+      ...webhook,
+      mpIds: splitWebhookList(webhook.mpIds),
+      events: splitWebhookList(webhook.events),
+    }));
+  }
+
+  async createWebhookDeliveries(
+    items: { webhookId: string; event: string; payload: string }[],
+  ) {
+    if (this.supportsCreateMany) {
+      await (this.prismaService.webhookDelivery as any).createMany({
+        data: items,
+      });
+      return;
+    }
+    await this.prismaService.$transaction(
+      items.map((data) => this.prismaService.webhookDelivery.create({ data })),
+    );
+  }
+
+  async listDueWebhookDeliveries(now: number, limit: number) {
+    const webhooks = await this.prismaService.webhook.findMany({
+      where: { status: statusMap.ENABLE },
+    });
+    if (webhooks.length === 0) {
+      return [];
+    }
+    const deliveries = await this.prismaService.webhookDelivery.findMany({
+      where: {
+        status: webhookDeliveryStatusMap.PENDING,
+        nextRetryAt: { lte: now },
+        webhookId: { in: webhooks.map(({ id }) => id) },
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+    const webhookMap = new Map(
+      webhooks.map((webhook) => [webhook.id, webhook]),
+    );
+    return deliveries.map((delivery) => {
+      const { url, secret } = webhookMap.get(delivery.webhookId)!;
+      return { ...delivery, url, secret };
+    });
+  }
+
+  async claimWebhookDelivery(
+    id: number,
+    nextRetryAt: number,
+    leaseUntil: number,
+  ) {
+    const { count } = await this.prismaService.webhookDelivery.updateMany({
+      where: { id, status: webhookDeliveryStatusMap.PENDING, nextRetryAt },
+      data: { nextRetryAt: leaseUntil },
+    });
+    return count > 0;
+  }
+
+  async updateWebhookDelivery(id: number, result: WebhookDeliveryResult) {
+    await this.prismaService.webhookDelivery.update({
+      where: { id },
+      data: result,
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@server/prisma/prisma.module';
+import { SearchModule } from '@server/search/search.module';
+import { PrismaStore } from './prisma-store';
+
+@Module({
+  imports: [PrismaModule, SearchModule],
+  providers: [PrismaStore],
+  exports: [PrismaStore],
+})
+export class StoreModule {}
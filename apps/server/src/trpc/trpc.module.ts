@@ -2,9 +2,21 @@ import { Module } from '@nestjs/common';
 import { TrpcService } from '@server/trpc/trpc.service';
 import { TrpcRouter } from '@server/trpc/trpc.router';
 import { PrismaModule } from '@server/prisma/prisma.module';
+import { JobsModule } from '@server/jobs/jobs.module';
+import { SearchModule } from '@server/search/search.module';
+import { BackupModule } from '@server/backup/backup.module';
+import { StoreModule } from '@server/store/store.module';
+import { WebhooksModule } from '@server/webhooks/webhooks.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    JobsModule,
+    SearchModule,
+    BackupModule,
+    StoreModule,
+    WebhooksModule,
+  ],
   controllers: [],
   providers: [TrpcService, TrpcRouter],
   exports: [TrpcService, TrpcRouter],
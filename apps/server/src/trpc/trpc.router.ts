@@ -4,9 +4,57 @@ import { TrpcService } from '@server/trpc/trpc.service';
 import * as trpcExpress from '@trpc/server/adapters/express';
 import { TRPCError } from '@trpc/server';
 import { PrismaService } from '@server/prisma/prisma.service';
-import { statusMap } from '@server/constants';
+import {
+  articleContentStatusMap,
+  backupSections,
+  backupVersion,
+  feedRefreshModes,
+  minRefreshInterval,
+  notifyEvents,
+  statusMap,
+  webhookDeliveryStatusMap,
+  webhookEvents,
+} from '@server/constants';
 import { ConfigService } from '@nestjs/config';
+import { Prisma, Webhook } from '@prisma/client';
 import { ConfigurationType } from '@server/configuration';
+import { invalidateFeedCache } from '@server/feeds/feed-cache';
+import { SearchService } from '@server/search/search.service';
+import { BackupService } from '@server/backup/backup.service';
+import { WebhooksService } from '@server/webhooks/webhooks.service';
+import {
+  findUnknownVariables,
+  mergeNotifyTemplates,
+  notifyTemplateVariables,
+  previewNotifyTemplate,
+  splitWebhookList,
+} from '@wewe-rss/core';
+
+const webhookInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  url: z
+    .string()
+    .url()
+    .max(1024)
+    .regex(/^https?:\/\//, '仅支持 http/https 地址'),
+  secret: z.string().min(1).max(255),
+  // 为空表示全部公众号
+  mpIds: z.array(z.string()),
+  events: z.array(z.nativeEnum(webhookEvents)).min(1),
+  status: z.number().int(),
+});
+
+const notifyTemplateInput = z.object({
+  event: z.nativeEnum(notifyEvents),
+  title: z.string().trim().min(1).max(255),
+  content: z.string().trim().min(1).max(10000),
+});
+
+const toWebhookDto = (webhook: Webhook) => ({
+  ...webhook,
+  mpIds: splitWebhookList(webhook.mpIds),
+  events: splitWebhookList(webhook.events),
+});
 
 @Injectable()
 export class TrpcRouter {
@@ -14,6 +62,9 @@ export class TrpcRouter {
     private readonly trpcService: TrpcService,
     private readonly prismaService: PrismaService,
     private readonly configService: ConfigService,
+    private readonly searchService: SearchService,
+    private readonly backupService: BackupService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
   private readonly logger = new Logger(this.constructor.name);
@@ -37,6 +88,17 @@ export class TrpcRouter {
             id: true,
             name: true,
             status: true,
+            blockedUntil: true,
+            blockReason: true,
+            blockErrorCode: true,
+            rateLimitCount: true,
+            lastUsedAt: true,
+            requestCount: true,
+            failureCount: true,
+            successRate: true,
+            dailyRequestCount: true,
+            dailyRequestDate: true,
+            dailyQuota: true,
             createdAt: true,
             updatedAt: true,
             token: false,
@@ -59,7 +121,7 @@ export class TrpcRouter {
           nextCursor = nextItem.id;
         }
 
-        const disabledAccounts = this.trpcService.getBlockedAccountIds();
+        const disabledAccounts = await this.trpcService.getBlockedAccountIds();
         return {
           blocks: disabledAccounts,
           items,
@@ -98,7 +160,7 @@ export class TrpcRouter {
           update: data,
           create: input,
         });
-        this.trpcService.removeBlockedAccount(id);
+        await this.trpcService.removeBlockedAccount(id);
 
         return account;
       }),
@@ -110,6 +172,7 @@ export class TrpcRouter {
             token: z.string().min(1).optional(),
             name: z.string().min(1).optional(),
             status: z.number().optional(),
+            dailyQuota: z.number().int().min(0).nullable().optional(),
           }),
         }),
       )
@@ -119,14 +182,15 @@ export class TrpcRouter {
           where: { id },
           data,
         });
-        this.trpcService.removeBlockedAccount(id);
+        if (data.status !== undefined || data.token) {
+          await this.trpcService.removeBlockedAccount(id);
+        }
         return account;
       }),
     delete: this.trpcService.protectedProcedure
       .input(z.string())
       .mutation(async ({ input: id }) => {
         await this.prismaService.account.delete({ where: { id } });
-        this.trpcService.removeBlockedAccount(id);
 
         return id;
       }),
@@ -222,24 +286,71 @@ export class TrpcRouter {
             syncTime: z.number().optional(),
             updateTime: z.number().optional(),
             status: z.number().optional(),
+            refreshMode: z
+              .enum([
+                feedRefreshModes.GLOBAL,
+                feedRefreshModes.INTERVAL,
+                feedRefreshModes.ADAPTIVE,
+              ])
+              .optional(),
+            // 最短 10 分钟
+            refreshInterval: z
+              .number()
+              .int()
+              .min(minRefreshInterval)
+              .optional(),
           }),
         }),
       )
       .mutation(async ({ input }) => {
         const { id, data } = input;
+        // 切换为固定间隔时必须有有效的间隔，否则每次定时任务都会重复更新
+        if (
+          data.refreshMode === feedRefreshModes.INTERVAL &&
+          data.refreshInterval === undefined
+        ) {
+          const current = await this.prismaService.feed.findUnique({
+            where: { id },
+            select: { refreshInterval: true },
+          });
+          if ((current?.refreshInterval ?? 0) < minRefreshInterval) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `refreshInterval must be at least ${minRefreshInterval} seconds`,
+            });
+          }
+        }
         const feed = await this.prismaService.feed.update({
           where: { id },
-          data,
+          data: {
+            ...data,
+            // 更新计划变化后尽快按新计划更新一次
+            nextSyncAt:
+              data.refreshMode || data.refreshInterval ? 0 : undefined,
+          },
         });
+        invalidateFeedCache(id);
         return feed;
       }),
     delete: this.trpcService.protectedProcedure
       .input(z.string())
       .mutation(async ({ input: id }) => {
-        await this.prismaService.feed.delete({ where: { id } });
+        await this.prismaService.$transaction([
+          this.prismaService.feed.delete({ where: { id } }),
+          this.prismaService.feedGroupFeed.deleteMany({ where: { mpId: id } }),
+        ]);
+        invalidateFeedCache(id);
         return id;
       }),
 
+    // 导入其他 WeWe-RSS 实例导出的 OPML
+    importOpml: this.trpcService.protectedProcedure
+      .input(z.object({ content: z.string().min(1) }))
+      .mutation(async ({ input }) => {
+        const items = await this.trpcService.importOpml(input.content);
+        return { items };
+      }),
+
     refreshArticles: this.trpcService.protectedProcedure
       .input(
         z.object({
@@ -248,7 +359,7 @@ export class TrpcRouter {
       )
       .mutation(async ({ input: { mpId } }) => {
         if (mpId) {
-          await this.trpcService.refreshMpArticlesAndUpdateFeed(mpId);
+          await this.trpcService.refreshMpArticlesNow(mpId);
         } else {
           await this.trpcService.refreshAllMpArticlesAndUpdateFeed();
         }
@@ -256,7 +367,7 @@ export class TrpcRouter {
 
     isRefreshAllMpArticlesRunning: this.trpcService.protectedProcedure.query(
       async () => {
-        return this.trpcService.isRefreshAllMpArticlesRunning;
+        return this.trpcService.getIsRefreshAllMpArticlesRunning();
       },
     ),
     getHistoryArticles: this.trpcService.protectedProcedure
@@ -266,15 +377,342 @@ export class TrpcRouter {
         }),
       )
       .mutation(async ({ input: { mpId = '' } }) => {
-        this.trpcService.getHistoryMpArticles(mpId);
+        if (!mpId) {
+          await this.trpcService.stopHistoryMpArticles();
+          return;
+        }
+        await this.trpcService.getHistoryMpArticles(mpId);
+      }),
+    stopHistoryArticles: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          mpId: z.string(),
+        }),
+      )
+      .mutation(async ({ input: { mpId } }) => {
+        await this.trpcService.stopHistoryMpArticles(mpId);
       }),
     getInProgressHistoryMp: this.trpcService.protectedProcedure.query(
       async () => {
-        return this.trpcService.inProgressHistoryMp;
+        return this.trpcService.getInProgressHistoryMp();
       },
     ),
   });
 
+  groupRouter = this.trpcService.router({
+    // 分组列表，附带每个分组的公众号 id
+    list: this.trpcService.protectedProcedure.query(async () => {
+      const [groups, members] = await Promise.all([
+        this.prismaService.feedGroup.findMany({
+          orderBy: [{ sort: 'asc' }, { createdAt: 'asc' }],
+        }),
+        this.prismaService.feedGroupFeed.findMany({
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+      const items = groups.map((group) => ({
+        ...group,
+        mpIds: members
+          .filter((member) => member.groupId === group.id)
+          .map((member) => member.mpId),
+      }));
+      return { items };
+    }),
+    add: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          name: z.string().trim().min(1).max(255),
+          sort: z.number().int().optional(),
+          mpIds: z.array(z.string()).optional(),
+        }),
+      )
+      .mutation(async ({ input: { mpIds, ...data } }) => {
+        const group = await this.prismaService.feedGroup.create({ data });
+        if (mpIds) {
+          await this.setGroupFeeds(group.id, mpIds);
+        }
+        return group;
+      }),
+    edit: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          data: z.object({
+            name: z.string().trim().min(1).max(255).optional(),
+            sort: z.number().int().optional(),
+            // 传入时替换分组内的全部公众号
+            mpIds: z.array(z.string()).optional(),
+          }),
+        }),
+      )
+      .mutation(async ({ input }) => {
+        const {
+          id,
+          data: { mpIds, ...data },
+        } = input;
+        const group = await this.prismaService.feedGroup.update({
+          where: { id },
+          data,
+        });
+        if (mpIds) {
+          await this.setGroupFeeds(id, mpIds);
+        }
+        invalidateFeedCache(`group/${id}`);
+        return group;
+      }),
+    delete: this.trpcService.protectedProcedure
+      .input(z.string())
+      .mutation(async ({ input: id }) => {
+        await this.prismaService.$transaction([
+          this.prismaService.feedGroup.delete({ where: { id } }),
+          this.prismaService.feedGroupFeed.deleteMany({
+            where: { groupId: id },
+          }),
+        ]);
+        invalidateFeedCache(`group/${id}`);
+        return id;
+      }),
+  });
+
+  backupRouter = this.trpcService.router({
+    // counts 为每类数据的记录数，迁移数据库时用于校验
+    info: this.trpcService.protectedProcedure.query(async () => {
+      return {
+        version: backupVersion,
+        sections: backupSections,
+        counts: await this.backupService.countSections(),
+      };
+    }),
+    // 分页导出，includeTokens 为 false 时不导出账号 token
+    export: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          section: z.enum(backupSections),
+          cursor: z.string().nullish(),
+          limit: z.number().min(1).max(1000).nullish(),
+          includeTokens: z.boolean().default(false),
+        }),
+      )
+      .query(async ({ input }) => {
+        return this.backupService.exportSection({
+          ...input,
+          limit: input.limit ?? 500,
+        });
+      }),
+    // 分批导入，已存在的记录会被覆盖
+    restore: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          version: z.number().int(),
+          section: z.enum(backupSections),
+          items: z.array(z.unknown()).max(1000),
+        }),
+      )
+      .mutation(async ({ input }) => {
+        if (input.version > backupVersion) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `不支持的备份版本 ${input.version}，请升级后再导入`,
+          });
+        }
+        try {
+          const count = await this.backupService.restoreSection(
+            input.section,
+            input.items,
+          );
+          return { count };
+        } catch (err: any) {
+          this.logger.error(`restore ${input.section} error`, err);
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: err.message,
+            cause: err.stack,
+          });
+        }
+      }),
+  });
+
+  alertRouter = this.trpcService.router({
+    list: this.trpcService.protectedProcedure.query(async () => {
+      const items = await this.prismaService.alertFeed.findMany({
+        orderBy: { createdAt: 'asc' },
+      });
+      return { items };
+    }),
+    add: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          name: z.string().min(1).max(255),
+          keyword: z.string().trim().min(1).max(100),
+        }),
+      )
+      .mutation(async ({ input }) => {
+        return this.prismaService.alertFeed.create({ data: input });
+      }),
+    edit: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          data: z.object({
+            name: z.string().min(1).max(255).optional(),
+            keyword: z.string().trim().min(1).max(100).optional(),
+          }),
+        }),
+      )
+      .mutation(async ({ input }) => {
+        const { id, data } = input;
+        const alert = await this.prismaService.alertFeed.update({
+          where: { id },
+          data,
+        });
+        invalidateFeedCache(`alert/${id}`);
+        return alert;
+      }),
+    delete: this.trpcService.protectedProcedure
+      .input(z.string())
+      .mutation(async ({ input: id }) => {
+        await this.prismaService.alertFeed.delete({ where: { id } });
+        invalidateFeedCache(`alert/${id}`);
+        return id;
+      }),
+  });
+
+  webhookRouter = this.trpcService.router({
+    list: this.trpcService.protectedProcedure.query(async () => {
+      const webhooks = await this.prismaService.webhook.findMany({
+        orderBy: { createdAt: 'asc' },
+      });
+      return { items: webhooks.map(toWebhookDto) };
+    }),
+    add: this.trpcService.protectedProcedure
+      .input(webhookInput)
+      .mutation(async ({ input: { mpIds, events, ...data } }) => {
+        const webhook = await this.prismaService.webhook.create({
+          data: { ...data, mpIds: mpIds.join(','), events: events.join(',') },
+        });
+        return toWebhookDto(webhook);
+      }),
+    edit: this.trpcService.protectedProcedure
+      .input(z.object({ id: z.string(), data: webhookInput.partial() }))
+      .mutation(async ({ input }) => {
+        const {
+          id,
+          data: { mpIds, events, ...data },
+        } = input;
+        const webhook = await this.prismaService.webhook.update({
+          where: { id },
+          data: {
+            ...data,
+            mpIds: mpIds?.join(','),
+            events: events?.join(','),
+          },
+        });
+        return toWebhookDto(webhook);
+      }),
+    delete: this.trpcService.protectedProcedure
+      .input(z.string())
+      .mutation(async ({ input: id }) => {
+        await this.prismaService.$transaction([
+          this.prismaService.webhook.delete({ where: { id } }),
+          this.prismaService.webhookDelivery.deleteMany({
+            where: { webhookId: id },
+          }),
+        ]);
+        return id;
+      }),
+    // 发送一条 ping 事件，结果在发送记录中查看
+    test: this.trpcService.protectedProcedure
+      .input(z.string())
+      .mutation(async ({ input: id }) => {
+        await this.webhooksService.ping(id);
+        return id;
+      }),
+    // 发送记录按 id 倒序分页，cursor 为下一页第一条记录的 id
+    deliveries: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          webhookId: z.string(),
+          limit: z.number().min(1).max(100).nullish(),
+          cursor: z.number().nullish(),
+        }),
+      )
+      .query(async ({ input }) => {
+        const limit = input.limit ?? 20;
+        const { webhookId, cursor } = input;
+
+        const items = await this.prismaService.webhookDelivery.findMany({
+          where: { webhookId, ...(cursor ? { id: { lte: cursor } } : {}) },
+          orderBy: { id: 'desc' },
+          take: limit + 1,
+        });
+        let nextCursor: number | undefined;
+        if (items.length > limit) {
+          nextCursor = items.pop()?.id;
+        }
+        return { items, nextCursor };
+      }),
+    // 重新发送，重试次数重新计算
+    retry: this.trpcService.protectedProcedure
+      .input(z.number())
+      .mutation(async ({ input: id }) => {
+        await this.prismaService.webhookDelivery.update({
+          where: { id },
+          data: {
+            status: webhookDeliveryStatusMap.PENDING,
+            attempts: 0,
+            nextRetryAt: 0,
+          },
+        });
+        await this.webhooksService.deliver();
+        return id;
+      }),
+  });
+
+  notifyRouter = this.trpcService.router({
+    // 每个事件的通知模板，未保存的事件返回默认模板
+    templates: this.trpcService.protectedProcedure.query(async () => {
+      const templates = await this.prismaService.notifyTemplate.findMany();
+      return {
+        variables: notifyTemplateVariables,
+        items: mergeNotifyTemplates(templates),
+      };
+    }),
+    saveTemplate: this.trpcService.protectedProcedure
+      .input(notifyTemplateInput)
+      .mutation(async ({ input: { event, ...data } }) => {
+        await this.prismaService.notifyTemplate.upsert({
+          where: { event },
+          create: { event, ...data },
+          update: data,
+        });
+        return event;
+      }),
+    // 删除保存的模板，恢复为默认模板
+    resetTemplate: this.trpcService.protectedProcedure
+      .input(z.nativeEnum(notifyEvents))
+      .mutation(async ({ input: event }) => {
+        await this.prismaService.notifyTemplate.deleteMany({
+          where: { event },
+        });
+        return event;
+      }),
+    // 使用示例账号渲染模板，不会发送通知
+    preview: this.trpcService.protectedProcedure
+      .input(notifyTemplateInput)
+      .query(async ({ input: { event, ...template } }) => {
+        const { title, markdown, text } = previewNotifyTemplate(
+          event,
+          template,
+        );
+        return {
+          title,
+          markdown,
+          text,
+          unknownVariables: findUnknownVariables(template),
+        };
+      }),
+  });
+
   articleRouter = this.trpcService.router({
     list: this.trpcService.protectedProcedure
       .input(
@@ -282,11 +720,22 @@ export class TrpcRouter {
           limit: z.number().min(1).max(1000).nullish(),
           cursor: z.string().nullish(),
           mpId: z.string().nullish(),
+          groupId: z.string().nullish(),
         }),
       )
       .query(async ({ input }) => {
         const limit = input.limit ?? 1000;
-        const { cursor, mpId } = input;
+        const { cursor, mpId, groupId } = input;
+
+        let where: Prisma.ArticleWhereInput | undefined = mpId
+          ? { mpId }
+          : undefined;
+        if (!mpId && groupId) {
+          const members = await this.prismaService.feedGroupFeed.findMany({
+            where: { groupId },
+          });
+          where = { mpId: { in: members.map((member) => member.mpId) } };
+        }
 
         const items = await this.prismaService.article.findMany({
           orderBy: [
@@ -295,7 +744,7 @@ export class TrpcRouter {
             },
           ],
           take: limit + 1,
-          where: mpId ? { mpId } : undefined,
+          where,
           cursor: cursor
             ? {
                 id: cursor,
@@ -331,6 +780,87 @@ export class TrpcRouter {
         return article;
       }),
 
+    search: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          keyword: z.string().max(100),
+          mpId: z.string().nullish(),
+          limit: z.number().min(1).max(100).nullish(),
+          cursor: z.number().min(0).nullish(),
+        }),
+      )
+      .query(async ({ input }) => {
+        return this.searchService.searchArticles({
+          keyword: input.keyword,
+          mpId: input.mpId,
+          limit: input.limit ?? 20,
+          offset: input.cursor ?? 0,
+        });
+      }),
+    // 全文抓取失败的文章，包括等待重试和重试次数用尽的
+    failedContents: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().min(1).max(1000).nullish(),
+        }),
+      )
+      .query(async ({ input }) => {
+        const contents = await this.prismaService.articleContent.findMany({
+          where: {
+            status: { not: articleContentStatusMap.SUCCESS },
+            attempts: { gt: 0 },
+          },
+          select: {
+            id: true,
+            status: true,
+            error: true,
+            attempts: true,
+            nextRetryAt: true,
+            fetchedAt: true,
+          },
+          orderBy: { fetchedAt: 'desc' },
+          take: input.limit ?? 100,
+        });
+        const articles = await this.prismaService.article.findMany({
+          where: { id: { in: contents.map(({ id }) => id) } },
+          select: { id: true, mpId: true, title: true },
+        });
+
+        return {
+          items: contents.map((content) => {
+            const article = articles.find(({ id }) => id === content.id);
+            return {
+              ...content,
+              mpId: article?.mpId || '',
+              title: article?.title || '',
+            };
+          }),
+        };
+      }),
+    // 重新抓取全文，不传 ids 时重试全部失败的文章；指定 ids 时已抓取的也重新抓取，用于检查文章是否已被删除
+    retryContents: this.trpcService.protectedProcedure
+      .input(
+        z.object({
+          ids: z.array(z.string()).nullish(),
+        }),
+      )
+      .mutation(async ({ input }) => {
+        const { count } = await this.prismaService.articleContent.updateMany({
+          where: {
+            id: input.ids ? { in: input.ids } : undefined,
+            status: input.ids
+              ? undefined
+              : { not: articleContentStatusMap.SUCCESS },
+          },
+          data: {
+            status: articleContentStatusMap.PENDING,
+            attempts: 0,
+            nextRetryAt: 0,
+          },
+        });
+        return { count };
+      }),
+
     add: this.trpcService.protectedProcedure
       .input(
         z.object({
@@ -421,9 +951,31 @@ export class TrpcRouter {
     feed: this.feedRouter,
     account: this.accountRouter,
     article: this.articleRouter,
+    group: this.groupRouter,
+    alert: this.alertRouter,
+    webhook: this.webhookRouter,
+    notify: this.notifyRouter,
+    backup: this.backupRouter,
     platform: this.platformRouter,
   });
 
+  /**
+   * 替换分组内的公众号
+   */
+  private async setGroupFeeds(groupId: string, mpIds: string[]) {
+    await this.prismaService.$transaction([
+      // 成员变化时更新分组的修改时间，分组订阅的 ETag 随之变化
+      this.prismaService.feedGroup.update({
+        where: { id: groupId },
+        data: { updatedAt: new Date() },
+      }),
+      this.prismaService.feedGroupFeed.deleteMany({ where: { groupId } }),
+      ...[...new Set(mpIds)].map((mpId) =>
+        this.prismaService.feedGroupFeed.create({ data: { groupId, mpId } }),
+      ),
+    ]);
+  }
+
   async applyMiddleware(app: INestApplication) {
     app.use(
       `/trpc`,
@@ -1,21 +1,34 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Job } from '@prisma/client';
 import { ConfigurationType } from '@server/configuration';
-import { defaultCount, statusMap } from '@server/constants';
+import {
+  defaultCount,
+  feedRefreshModes,
+  jobTypes,
+  maxJobAttempts,
+  statusMap,
+} from '@server/constants';
+import { invalidateFeedCache } from '@server/feeds/feed-cache';
+import { JobsService } from '@server/jobs/jobs.service';
 import { PrismaService } from '@server/prisma/prisma.service';
+import { PrismaStore } from '@server/store/prisma-store';
+import { WebhooksService } from '@server/webhooks/webhooks.service';
 import { TRPCError, initTRPC } from '@trpc/server';
+import {
+  getRetryNextSyncAt,
+  MpArticle,
+  parseOpml,
+  parseRetryAfter,
+  PlatformError,
+  refreshMpArticles,
+  requestWithAccount,
+  SchedulableAccount,
+} from '@wewe-rss/core';
 import Axios, { AxiosInstance } from 'axios';
-import dayjs from 'dayjs';
-import timezone from 'dayjs/plugin/timezone';
-import utc from 'dayjs/plugin/utc';
 
-dayjs.extend(utc);
-dayjs.extend(timezone);
-
-/**
- * 读书账号每日小黑屋
- */
-const blockedAccountsMap = new Map<string, string[]>();
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 @Injectable()
 export class TrpcService {
@@ -32,15 +45,22 @@ export class TrpcService {
   mergeRouters = this.trpc.mergeRouters;
   request: AxiosInstance;
   updateDelayTime = 60;
+  maxRequestPerMinute = 30;
+  accountDailyQuota = 0;
 
   private readonly logger = new Logger(this.constructor.name);
 
   constructor(
     private readonly prismaService: PrismaService,
     private readonly configService: ConfigService,
+    private readonly jobsService: JobsService,
+    private readonly prismaStore: PrismaStore,
+    private readonly webhooksService: WebhooksService,
   ) {
-    const { url } =
+    const { url, maxRequestPerMinute, accountDailyQuota } =
       this.configService.get<ConfigurationType['platform']>('platform')!;
+    this.maxRequestPerMinute = maxRequestPerMinute;
+    this.accountDailyQuota = accountDailyQuota;
     this.updateDelayTime =
       this.configService.get<ConfigurationType['feed']>(
         'feed',
@@ -48,6 +68,12 @@ export class TrpcService {
 
     this.request = Axios.create({ baseURL: url, timeout: 15 * 1e3 });
 
+    // 所有读书接口请求共用每分钟请求额度
+    this.request.interceptors.request.use(async (config) => {
+      await this.acquireRequestBudget();
+      return config;
+    });
+
     this.request.interceptors.response.use(
       (response) => {
         return response;
@@ -55,36 +81,12 @@ export class TrpcService {
       async (error) => {
         this.logger.log('error: ', error);
         const errMsg = error.response?.data?.message || '';
-
-        const id = (error.config.headers as any).xid;
-        if (errMsg.includes('WeReadError401')) {
-          // 账号失效
-          await this.prismaService.account.update({
-            where: { id },
-            data: { status: statusMap.INVALID },
-          });
-          this.logger.error(`账号（${id}）登录失效，已禁用`);
-        } else if (errMsg.includes('WeReadError429')) {
-          //TODO 处理请求频繁
-          this.logger.error(`账号（${id}）请求频繁，打入小黑屋`);
-        }
-
-        const today = this.getTodayDate();
-
-        const blockedAccounts = blockedAccountsMap.get(today);
-
-        if (Array.isArray(blockedAccounts)) {
-          if (id) {
-            blockedAccounts.push(id);
-          }
-          blockedAccountsMap.set(today, blockedAccounts);
-        } else if (errMsg.includes('WeReadError400')) {
-          this.logger.error(`账号（${id}）处理请求参数出错`);
-          this.logger.error('WeReadError400: ', errMsg);
-          // 10s 后重试
-          await new Promise((resolve) => setTimeout(resolve, 10 * 1e3));
-        } else {
-          this.logger.error("Can't handle this error: ", errMsg);
+        error.retryAfter = parseRetryAfter(
+          error.response?.headers?.['retry-after'],
+        );
+        // 账号状态由 requestWithAccount 更新，请求参数出错时 10s 后重试
+        if (errMsg.includes('WeReadError400')) {
+          await sleep(10 * 1e3);
         }
 
         return Promise.reject(error);
@@ -92,256 +94,414 @@ export class TrpcService {
     );
   }
 
-  removeBlockedAccount = (vid: string) => {
-    const today = this.getTodayDate();
-
-    const blockedAccounts = blockedAccountsMap.get(today);
-    if (Array.isArray(blockedAccounts)) {
-      const newBlockedAccounts = blockedAccounts.filter((id) => id !== vid);
-      blockedAccountsMap.set(today, newBlockedAccounts);
+  private requestTimestamps: number[] = [];
+
+  /**
+   * 滑动窗口限制每分钟请求次数，额度用完时等待最早的请求移出窗口
+   */
+  private async acquireRequestBudget() {
+    const windowMs = 60 * 1e3;
+    for (;;) {
+      const now = Date.now();
+      this.requestTimestamps = this.requestTimestamps.filter(
+        (time) => now - time < windowMs,
+      );
+      if (this.requestTimestamps.length < this.maxRequestPerMinute) {
+        this.requestTimestamps.push(now);
+        return;
+      }
+      const waitMs = this.requestTimestamps[0] + windowMs - now;
+      this.logger.warn(
+        `读书接口请求已达每分钟上限（${this.maxRequestPerMinute}），等待 ${Math.ceil(waitMs / 1e3)}s`,
+      );
+      await sleep(waitMs);
     }
-  };
-
-  private getTodayDate() {
-    return dayjs.tz(new Date(), 'Asia/Shanghai').format('YYYY-MM-DD');
   }
 
-  getBlockedAccountIds() {
-    const today = this.getTodayDate();
-    const disabledAccounts = blockedAccountsMap.get(today) || [];
-    this.logger.debug('disabledAccounts: ', disabledAccounts);
-    return disabledAccounts.filter(Boolean);
+  async removeBlockedAccount(id: string) {
+    await this.prismaService.account.updateMany({
+      where: { id },
+      data: {
+        blockedUntil: 0,
+        blockErrorCode: null,
+        blockReason: null,
+        rateLimitCount: 0,
+      },
+    });
   }
 
-  private async getAvailableAccount() {
-    const disabledAccounts = this.getBlockedAccountIds();
-    const account = await this.prismaService.account.findMany({
-      where: {
-        status: statusMap.ENABLE,
-        NOT: {
-          id: { in: disabledAccounts },
-        },
-      },
-      take: 10,
+  async getBlockedAccountIds() {
+    const accounts = await this.prismaService.account.findMany({
+      where: { blockedUntil: { gt: Math.floor(Date.now() / 1e3) } },
+      select: { id: true },
     });
+    return accounts.map(({ id }) => id);
+  }
 
-    if (!account || account.length === 0) {
-      throw new Error('暂无可用读书账号!');
-    }
+  private parsePlatformError(err: any): PlatformError {
+    return {
+      status: err.response?.status,
+      message: err.response?.data?.message || err.message || '',
+      retryAfter: err.retryAfter,
+    };
+  }
 
-    return account[Math.floor(Math.random() * account.length)];
+  /**
+   * 选出一个账号请求读书接口，出错时更新账号状态，按错误类型换账号重试
+   */
+  private requestPlatform<T>(
+    name: string,
+    request: (account: SchedulableAccount) => Promise<T>,
+    retryCount = 0,
+  ) {
+    return requestWithAccount(
+      this.prismaStore,
+      {
+        name,
+        request,
+        parseError: (err) => this.parsePlatformError(err),
+        defaultQuota: this.accountDailyQuota,
+        retryCount,
+      },
+      this.logger,
+    );
   }
 
   async getMpArticles(mpId: string, page = 1, retryCount = 3) {
-    const account = await this.getAvailableAccount();
+    return this.requestPlatform(
+      `getMpArticles(${mpId})`,
+      (account) =>
+        this.request
+          .get<MpArticle[]>(`/api/v2/platform/mps/${mpId}/articles`, {
+            headers: {
+              xid: account.id,
+              Authorization: `Bearer ${account.token}`,
+            },
+            params: {
+              page,
+            },
+          })
+          .then((res) => res.data)
+          .then((res) => {
+            this.logger.log(
+              `getMpArticles(${mpId}) page: ${page} articles: ${res.length}`,
+            );
+            return res;
+          }),
+      retryCount,
+    );
+  }
+
+  async refreshMpArticlesAndUpdateFeed(mpId: string, page = 1) {
+    const result = await refreshMpArticles(this.prismaStore, {
+      mpId,
+      page,
+      getMpArticles: (mpId, page) => this.getMpArticles(mpId, page),
+    });
+    // 新文章的 webhook 在后台发送，不阻塞更新队列
+    if (result.newArticles.length > 0) {
+      this.webhooksService.deliver();
+    }
+    return result;
+  }
+
+  private isJobQueueRunning = false;
+  private lastJobFinishedAt = 0;
+
+  @Interval('jobQueue', 5 * 1e3)
+  async handleJobQueue() {
+    if (this.isJobQueueRunning) {
+      return;
+    }
+    // 两个任务之间至少间隔 updateDelayTime，减少被关小黑屋
+    if (Date.now() - this.lastJobFinishedAt < this.updateDelayTime * 1e3) {
+      return;
+    }
 
+    this.isJobQueueRunning = true;
     try {
-      const res = await this.request
-        .get<
-          {
-            id: string;
-            title: string;
-            picUrl: string;
-            publishTime: number;
-          }[]
-        >(`/api/v2/platform/mps/${mpId}/articles`, {
-          headers: {
-            xid: account.id,
-            Authorization: `Bearer ${account.token}`,
-          },
-          params: {
-            page,
-          },
-        })
-        .then((res) => res.data)
-        .then((res) => {
-          this.logger.log(
-            `getMpArticles(${mpId}) page: ${page} articles: ${res.length}`,
-          );
-          return res;
-        });
-      return res;
-    } catch (err) {
-      this.logger.error(`retry(${4 - retryCount}) getMpArticles  error: `, err);
-      if (retryCount > 0) {
-        return this.getMpArticles(mpId, page, retryCount - 1);
-      } else {
-        throw err;
+      const job = await this.jobsService.claimNext();
+      if (job) {
+        await this.runJob(job);
       }
+    } catch (err) {
+      this.logger.error('handleJobQueue error', err);
+    } finally {
+      this.isJobQueueRunning = false;
     }
   }
 
-  async refreshMpArticlesAndUpdateFeed(mpId: string, page = 1) {
-    const articles = await this.getMpArticles(mpId, page);
-
-    if (articles.length > 0) {
-      let results;
-      const { type } =
-        this.configService.get<ConfigurationType['database']>('database')!;
-      if (type === 'sqlite') {
-        // sqlite3 不支持 createMany
-        const inserts = articles.map(({ id, picUrl, publishTime, title }) =>
-          this.prismaService.article.upsert({
-            create: { id, mpId, picUrl, publishTime, title },
-            update: {
-              publishTime,
-              title,
-            },
-            where: { id },
-          }),
+  /**
+   * 执行一次任务，历史文章任务每次只拉取一页，之后重新排队
+   */
+  async runJob(job: Job) {
+    try {
+      if (job.type === jobTypes.HISTORY) {
+        const { hasHistory } = await this.refreshMpArticlesAndUpdateFeed(
+          job.mpId,
+          job.page,
         );
-        results = await this.prismaService.$transaction(inserts);
+        // 最多拉取一千页
+        if (hasHistory < 1 || job.page >= 1e3) {
+          this.logger.log(`getHistoryMpArticles(${job.mpId}) has no history`);
+          await this.jobsService.complete(job.id);
+        } else {
+          // 下一页排到 updateDelayTime 之后，期间先执行其他公众号的更新任务
+          await this.jobsService.requeue(job.id, {
+            page: job.page + 1,
+            attempts: 0,
+            runAt: Math.floor(Date.now() / 1e3) + this.updateDelayTime,
+          });
+        }
+      } else {
+        await this.refreshMpArticlesAndUpdateFeed(job.mpId);
+        await this.jobsService.complete(job.id);
+      }
+    } catch (err: any) {
+      const attempts = job.attempts + 1;
+      const message = err.response?.data?.message || err.message || `${err}`;
+      if (attempts >= maxJobAttempts) {
+        this.logger.error(`job(${job.id}) ${job.type} ${job.mpId} failed`);
+        await this.jobsService.fail(job.id, message, attempts);
       } else {
-        results = await (this.prismaService.article as any).createMany({
-          data: articles.map(({ id, picUrl, publishTime, title }) => ({
-            id,
-            mpId,
-            picUrl,
-            publishTime,
-            title,
-          })),
-          skipDuplicates: true,
+        await this.jobsService.requeue(job.id, {
+          attempts,
+          error: message,
+          runAt:
+            Math.floor(Date.now() / 1e3) +
+            Math.max(attempts * this.updateDelayTime, err.retryAfter || 0),
         });
       }
-
-      this.logger.debug(
-        `refreshMpArticlesAndUpdateFeed create results: ${JSON.stringify(results)}`,
-      );
+      if (job.type === jobTypes.REFRESH) {
+        await this.postponeFeedSync(job.mpId);
+      }
+      throw err;
+    } finally {
+      this.lastJobFinishedAt = Date.now();
     }
+  }
 
-    // 如果文章数量小于 defaultCount，则认为没有更多历史文章
-    const hasHistory = articles.length < defaultCount ? 0 : 1;
-
-    await this.prismaService.feed.update({
+  /**
+   * 更新失败时推迟下次更新，避免失败的公众号每次定时任务都重新加入队列
+   */
+  private async postponeFeedSync(mpId: string) {
+    const feed = await this.prismaService.feed.findUnique({
       where: { id: mpId },
-      data: {
-        syncTime: Math.floor(Date.now() / 1e3),
-        hasHistory,
-      },
     });
-
-    return { hasHistory };
+    if (feed && feed.refreshMode !== feedRefreshModes.GLOBAL) {
+      await this.prismaService.feed.update({
+        where: { id: mpId },
+        data: { nextSyncAt: getRetryNextSyncAt(feed) },
+      });
+    }
   }
 
-  inProgressHistoryMp = {
-    id: '',
-    page: 1,
-  };
+  /**
+   * 加入队列并立即执行，用于需要等待结果的手动更新
+   */
+  async refreshMpArticlesNow(mpId: string) {
+    const job = await this.jobsService.enqueue(jobTypes.REFRESH, mpId);
+    if (await this.jobsService.claim(job.id)) {
+      await this.runJob(job);
+    }
+  }
 
   async getHistoryMpArticles(mpId: string) {
-    if (this.inProgressHistoryMp.id === mpId) {
-      this.logger.log(`getHistoryMpArticles(${mpId}) is running`);
+    const feed = await this.prismaService.feed.findFirstOrThrow({
+      where: {
+        id: mpId,
+      },
+    });
+
+    // 如果完整同步过历史文章，则直接返回
+    if (feed.hasHistory === 0) {
+      this.logger.log(`getHistoryMpArticles(${mpId}) has no history`);
       return;
     }
 
-    this.inProgressHistoryMp = {
-      id: mpId,
-      page: 1,
-    };
+    const total = await this.prismaService.article.count({
+      where: {
+        mpId,
+      },
+    });
 
-    if (!this.inProgressHistoryMp.id) {
-      return;
+    return this.jobsService.enqueue(jobTypes.HISTORY, mpId, {
+      page: Math.max(Math.ceil(total / defaultCount), 1),
+    });
+  }
+
+  async stopHistoryMpArticles(mpId?: string) {
+    return this.jobsService.cancel(jobTypes.HISTORY, mpId);
+  }
+
+  async getInProgressHistoryMp() {
+    const jobs = await this.jobsService.listActive(jobTypes.HISTORY);
+    return jobs.map(({ mpId, page, status }) => ({ id: mpId, page, status }));
+  }
+
+  async getIsRefreshAllMpArticlesRunning() {
+    const jobs = await this.jobsService.listActive(jobTypes.REFRESH);
+    return jobs.length > 0;
+  }
+
+  /**
+   * 跟随全局 Cron 更新的公众号加入更新队列
+   */
+  async refreshGlobalScheduleFeeds() {
+    const feeds = await this.prismaService.feed.findMany({
+      where: { status: statusMap.ENABLE, refreshMode: feedRefreshModes.GLOBAL },
+      select: { id: true },
+    });
+    for (const { id } of feeds) {
+      await this.jobsService.enqueue(jobTypes.REFRESH, id);
     }
+    return feeds.length;
+  }
 
-    try {
-      const feed = await this.prismaService.feed.findFirstOrThrow({
-        where: {
-          id: mpId,
-        },
-      });
+  /**
+   * 按间隔或自适应更新、且已到计划时间的公众号加入更新队列
+   */
+  async refreshDueFeeds() {
+    const feeds = await this.prismaService.feed.findMany({
+      where: {
+        status: statusMap.ENABLE,
+        refreshMode: { not: feedRefreshModes.GLOBAL },
+        nextSyncAt: { lte: Math.floor(Date.now() / 1e3) },
+      },
+      select: { id: true },
+    });
+    for (const { id } of feeds) {
+      await this.jobsService.enqueue(jobTypes.REFRESH, id);
+    }
+    return feeds.length;
+  }
 
-      // 如果完整同步过历史文章，则直接返回
-      if (feed.hasHistory === 0) {
-        this.logger.log(`getHistoryMpArticles(${mpId}) has no history`);
-        return;
+  /**
+   * 从其他 WeWe-RSS 实例导出的 OPML 导入订阅源，新增的订阅源加入更新队列，返回每一项的导入结果
+   */
+  async importOpml(content: string) {
+    const entries = parseOpml(content);
+    const groupIds = new Map<string, string>();
+    const results: {
+      id: string | null;
+      mpName: string;
+      xmlUrl: string;
+      success: boolean;
+      message: string;
+    }[] = [];
+
+    for (const entry of entries) {
+      const { id, mpName, xmlUrl } = entry;
+      if (!id) {
+        results.push({
+          id,
+          mpName,
+          xmlUrl,
+          success: false,
+          message: '不是 WeWe-RSS 的订阅地址',
+        });
+        continue;
       }
 
-      const total = await this.prismaService.article.count({
-        where: {
-          mpId,
-        },
-      });
-      this.inProgressHistoryMp.page = Math.ceil(total / defaultCount);
-
-      // 最多尝试一千次
-      let i = 1e3;
-      while (i-- > 0) {
-        if (this.inProgressHistoryMp.id !== mpId) {
-          this.logger.log(
-            `getHistoryMpArticles(${mpId}) is not running, break`,
-          );
-          break;
+      try {
+        const existing = await this.prismaService.feed.findUnique({
+          where: { id },
+        });
+        if (!existing) {
+          await this.prismaService.feed.create({
+            data: {
+              id,
+              mpName: mpName || id,
+              mpCover: entry.mpCover,
+              mpIntro: entry.mpIntro,
+              syncTime: 0,
+              updateTime: Math.floor(Date.now() / 1e3),
+              status: statusMap.ENABLE,
+            },
+          });
+          await this.jobsService.enqueue(jobTypes.REFRESH, id);
         }
-        const { hasHistory } = await this.refreshMpArticlesAndUpdateFeed(
-          mpId,
-          this.inProgressHistoryMp.page,
-        );
-        if (hasHistory < 1) {
-          this.logger.log(
-            `getHistoryMpArticles(${mpId}) has no history, break`,
-          );
-          break;
+
+        if (entry.groupName) {
+          let groupId = groupIds.get(entry.groupName);
+          if (!groupId) {
+            const group =
+              (await this.prismaService.feedGroup.findFirst({
+                where: { name: entry.groupName },
+              })) ||
+              (await this.prismaService.feedGroup.create({
+                data: { name: entry.groupName },
+              }));
+            groupId = group.id;
+            groupIds.set(entry.groupName, groupId);
+          }
+          await this.prismaService.$transaction([
+            this.prismaService.feedGroup.update({
+              where: { id: groupId },
+              data: { updatedAt: new Date() },
+            }),
+            this.prismaService.feedGroupFeed.upsert({
+              where: { groupId_mpId: { groupId, mpId: id } },
+              update: {},
+              create: { groupId, mpId: id },
+            }),
+          ]);
+          invalidateFeedCache(`group/${groupId}`);
         }
-        this.inProgressHistoryMp.page++;
 
-        await new Promise((resolve) =>
-          setTimeout(resolve, this.updateDelayTime * 1e3),
-        );
+        results.push({
+          id,
+          mpName,
+          xmlUrl,
+          success: true,
+          message: existing ? '已存在' : '已添加',
+        });
+      } catch (err: any) {
+        this.logger.error(`导入订阅源 ${id} 失败`, err);
+        results.push({
+          id,
+          mpName,
+          xmlUrl,
+          success: false,
+          message: err.message,
+        });
       }
-    } finally {
-      this.inProgressHistoryMp = {
-        id: '',
-        page: 1,
-      };
     }
-  }
 
-  isRefreshAllMpArticlesRunning = false;
+    return results;
+  }
 
   async refreshAllMpArticlesAndUpdateFeed() {
-    if (this.isRefreshAllMpArticlesRunning) {
-      this.logger.log('refreshAllMpArticlesAndUpdateFeed is running');
-      return;
-    }
     const mps = await this.prismaService.feed.findMany();
-    this.isRefreshAllMpArticlesRunning = true;
-    try {
-      for (const { id } of mps) {
-        await this.refreshMpArticlesAndUpdateFeed(id);
-
-        await new Promise((resolve) =>
-          setTimeout(resolve, this.updateDelayTime * 1e3),
-        );
-      }
-    } finally {
-      this.isRefreshAllMpArticlesRunning = false;
+    for (const { id } of mps) {
+      await this.jobsService.enqueue(jobTypes.REFRESH, id);
     }
   }
 
   async getMpInfo(url: string) {
     url = url.trim();
-    const account = await this.getAvailableAccount();
-
-    return this.request
-      .post<
-        {
-          id: string;
-          cover: string;
-          name: string;
-          intro: string;
-          updateTime: number;
-        }[]
-      >(
-        `/api/v2/platform/wxs2mp`,
-        { url },
-        {
-          headers: {
-            xid: account.id,
-            Authorization: `Bearer ${account.token}`,
+    return this.requestPlatform('getMpInfo', (account) =>
+      this.request
+        .post<
+          {
+            id: string;
+            cover: string;
+            name: string;
+            intro: string;
+            updateTime: number;
+          }[]
+        >(
+          `/api/v2/platform/wxs2mp`,
+          { url },
+          {
+            headers: {
+              xid: account.id,
+              Authorization: `Bearer ${account.token}`,
+            },
           },
-        },
-      )
-      .then((res) => res.data);
+        )
+        .then((res) => res.data),
+    );
   }
 
   async createLoginUrl() {
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { StoreModule } from '@server/store/store.module';
+
+@Module({
+  imports: [StoreModule],
+  providers: [WebhooksService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { webhookDeliveryInterval } from '@server/constants';
+import { PrismaStore } from '@server/store/prisma-store';
+import {
+  deliverWebhooks,
+  enqueueWebhookPing,
+  WebhookClient,
+} from '@wewe-rss/core';
+import Axios from 'axios';
+import { createHmac } from 'crypto';
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(this.constructor.name);
+
+  private readonly client: WebhookClient = {
+    async send({ url, headers, body, timeout }) {
+      const response = await Axios.post(url, body, {
+        headers,
+        timeout,
+        // 状态码由 deliverWebhooks 判断，不抛出错误
+        validateStatus: () => true,
+        // body 已是签名时的原始字符串，不再转换
+        transformRequest: (data) => data,
+        responseType: 'text',
+      });
+      return response.status;
+    },
+    async sign(secret, data) {
+      return createHmac('sha256', secret).update(data).digest('hex');
+    },
+  };
+
+  constructor(private readonly prismaStore: PrismaStore) {}
+
+  private isDelivering = false;
+
+  /**
+   * 发送到期的 webhook 记录，有新文章时立即执行，失败的记录定时重试
+   */
+  @Interval('deliverWebhooks', webhookDeliveryInterval * 1e3)
+  async deliver() {
+    if (this.isDelivering) {
+      return;
+    }
+
+    this.isDelivering = true;
+    try {
+      await deliverWebhooks(this.prismaStore, this.client, {}, this.logger);
+    } catch (err) {
+      this.logger.error('deliverWebhooks error', err);
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  async ping(webhookId: string) {
+    await enqueueWebhookPing(this.prismaStore, webhookId);
+    await this.deliver();
+  }
+}
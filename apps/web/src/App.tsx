@@ -2,6 +2,8 @@ import { BrowserRouter, Route, Routes } from 'react-router-dom';
 import Feeds from './pages/feeds';
 import Login from './pages/login';
 import Accounts from './pages/accounts';
+import Settings from './pages/settings';
+import Webhooks from './pages/webhooks';
 import { BaseLayout } from './layouts/base';
 import { TrpcProvider } from './provider/trpc';
 import ThemeProvider from './provider/theme';
@@ -16,6 +18,8 @@ function App() {
               <Route index element={<Feeds />} />
               <Route path="/feeds/:id?" element={<Feeds />} />
               <Route path="/accounts" element={<Accounts />} />
+              <Route path="/webhooks" element={<Webhooks />} />
+              <Route path="/settings" element={<Settings />} />
               <Route path="/login" element={<Login />} />
             </Route>
           </Routes>
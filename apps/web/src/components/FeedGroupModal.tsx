@@ -0,0 +1,95 @@
+import {
+  Avatar,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from '@nextui-org/react';
+import { useEffect, useState } from 'react';
+
+type FeedGroupValue = { name: string; mpIds: string[] };
+
+export function FeedGroupModal({
+  isOpen,
+  onOpenChange,
+  group,
+  feeds,
+  isLoading,
+  onConfirm,
+}: {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  // 编辑的分组，不传时为新建
+  group?: FeedGroupValue;
+  feeds: { id: string; mpName: string; mpCover: string }[];
+  isLoading?: boolean;
+  onConfirm: (value: FeedGroupValue) => Promise<void>;
+}) {
+  const [name, setName] = useState('');
+  const [mpIds, setMpIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(group?.name || '');
+      setMpIds(group?.mpIds || []);
+    }
+  }, [isOpen, group]);
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} scrollBehavior="inside">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              {group ? '编辑分组' : '新建分组'}
+            </ModalHeader>
+            <ModalBody>
+              <Input
+                value={name}
+                onValueChange={setName}
+                autoFocus
+                label="分组名称"
+                variant="bordered"
+              />
+              <CheckboxGroup
+                label="公众号"
+                value={mpIds}
+                onValueChange={setMpIds}
+              >
+                {feeds.map((feed) => (
+                  <Checkbox key={feed.id} value={feed.id}>
+                    <div className="flex items-center gap-2">
+                      <Avatar size="sm" src={feed.mpCover} />
+                      {feed.mpName}
+                    </div>
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            </ModalBody>
+            <ModalFooter>
+              <Button color="danger" variant="flat" onPress={onClose}>
+                取消
+              </Button>
+              <Button
+                color="primary"
+                isDisabled={!name.trim()}
+                isLoading={isLoading}
+                onPress={async () => {
+                  await onConfirm({ name: name.trim(), mpIds });
+                  onClose();
+                }}
+              >
+                确定
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
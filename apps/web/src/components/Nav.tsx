@@ -23,10 +23,14 @@ const navbarItemLink = [
     href: '/accounts',
     name: '账号管理',
   },
-  // {
-  //   href: '/settings',
-  //   name: '设置',
-  // },
+  {
+    href: '/webhooks',
+    name: 'Webhook',
+  },
+  {
+    href: '/settings',
+    name: '设置',
+  },
 ];
 
 const Nav = () => {
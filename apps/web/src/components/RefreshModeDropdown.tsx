@@ -0,0 +1,67 @@
+import {
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+  Button,
+} from '@nextui-org/react';
+import { refreshIntervalOptions } from '@web/constants';
+
+type RefreshMode = 'global' | 'interval' | 'adaptive';
+
+const toKey = (mode: string, interval: number) =>
+  mode === 'interval' ? `interval:${interval}` : mode;
+
+export function RefreshModeDropdown({
+  mode,
+  interval,
+  onChange,
+}: {
+  mode: string;
+  interval: number;
+  onChange: (value: {
+    refreshMode: RefreshMode;
+    refreshInterval?: number;
+  }) => void;
+}) {
+  const items = [
+    { key: 'global', label: '跟随全局定时' },
+    { key: 'adaptive', label: '自适应' },
+    ...refreshIntervalOptions.map(({ value, label }) => ({
+      key: toKey('interval', value),
+      label,
+    })),
+  ];
+  const selectedKey = toKey(mode, interval);
+  const current = items.find((item) => item.key === selectedKey);
+
+  return (
+    <Dropdown>
+      <DropdownTrigger>
+        <Button size="sm" variant="light" className="h-6 min-w-0 px-2">
+          {current?.label || `每 ${Math.round(interval / 60)} 分钟`}
+        </Button>
+      </DropdownTrigger>
+      <DropdownMenu
+        aria-label="更新频率"
+        variant="flat"
+        disallowEmptySelection
+        selectionMode="single"
+        selectedKeys={[selectedKey]}
+        onSelectionChange={(keys) => {
+          const [refreshMode, refreshInterval] = `${Array.from(keys)[0]}`.split(
+            ':',
+          );
+          onChange({
+            refreshMode: refreshMode as RefreshMode,
+            refreshInterval: refreshInterval ? +refreshInterval : undefined,
+          });
+        }}
+      >
+        {items.map((item) => (
+          <DropdownItem key={item.key}>{item.label}</DropdownItem>
+        ))}
+      </DropdownMenu>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,165 @@
+import {
+  Avatar,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from '@nextui-org/react';
+import { webhookEventOptions } from '@web/constants';
+import { useEffect, useState } from 'react';
+
+type WebhookEvent = (typeof webhookEventOptions)[number]['value'];
+
+type WebhookValue = {
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  mpIds: string[];
+};
+
+// crypto.randomUUID 只能在 https 下使用，局域网部署时使用 getRandomValues
+const createSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export function WebhookModal({
+  isOpen,
+  onOpenChange,
+  webhook,
+  feeds,
+  isLoading,
+  onConfirm,
+}: {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  // 编辑的 webhook，不传时为新建
+  webhook?: Omit<WebhookValue, 'events'> & { events: string[] };
+  feeds: { id: string; mpName: string; mpCover: string }[];
+  isLoading?: boolean;
+  onConfirm: (value: WebhookValue) => Promise<void>;
+}) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [secret, setSecret] = useState('');
+  const [events, setEvents] = useState<string[]>([]);
+  const [mpIds, setMpIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(webhook?.name || '');
+      setUrl(webhook?.url || '');
+      setSecret(webhook?.secret || createSecret());
+      setEvents(webhook?.events || [webhookEventOptions[0].value]);
+      setMpIds(webhook?.mpIds || []);
+    }
+  }, [isOpen, webhook]);
+
+  const isValidUrl = /^https?:\/\/\S+$/.test(url.trim());
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} scrollBehavior="inside">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              {webhook ? '编辑 Webhook' : '新建 Webhook'}
+            </ModalHeader>
+            <ModalBody>
+              <Input
+                value={name}
+                onValueChange={setName}
+                autoFocus
+                label="名称"
+                variant="bordered"
+              />
+              <Input
+                value={url}
+                onValueChange={setUrl}
+                label="地址"
+                placeholder="https://"
+                variant="bordered"
+                isInvalid={!!url && !isValidUrl}
+              />
+              <Input
+                value={secret}
+                onValueChange={setSecret}
+                label="签名密钥"
+                description="使用 HMAC-SHA256 对 `${X-WeWe-RSS-Timestamp}.${请求体}` 签名，结果在 X-WeWe-RSS-Signature 请求头中"
+                variant="bordered"
+                endContent={
+                  <Button
+                    size="sm"
+                    variant="light"
+                    onPress={() => setSecret(createSecret())}
+                  >
+                    重新生成
+                  </Button>
+                }
+              />
+              <CheckboxGroup
+                label="事件"
+                value={events}
+                onValueChange={setEvents}
+              >
+                {webhookEventOptions.map((option) => (
+                  <Checkbox key={option.value} value={option.value}>
+                    <div>{option.label}</div>
+                    <div className="text-tiny text-default-400">
+                      {option.description}
+                    </div>
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+              <CheckboxGroup
+                label="公众号"
+                description="不选择时包含全部公众号"
+                value={mpIds}
+                onValueChange={setMpIds}
+              >
+                {feeds.map((feed) => (
+                  <Checkbox key={feed.id} value={feed.id}>
+                    <div className="flex items-center gap-2">
+                      <Avatar size="sm" src={feed.mpCover} />
+                      {feed.mpName}
+                    </div>
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            </ModalBody>
+            <ModalFooter>
+              <Button color="danger" variant="flat" onPress={onClose}>
+                取消
+              </Button>
+              <Button
+                color="primary"
+                isDisabled={
+                  !name.trim() || !isValidUrl || !secret || events.length === 0
+                }
+                isLoading={isLoading}
+                onPress={async () => {
+                  await onConfirm({
+                    name: name.trim(),
+                    url: url.trim(),
+                    secret,
+                    events: events as WebhookEvent[],
+                    mpIds,
+                  });
+                  onClose();
+                }}
+              >
+                确定
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
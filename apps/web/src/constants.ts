@@ -3,3 +3,50 @@ export const statusMap = {
   1: { label: '启用', color: 'success' },
   2: { label: '禁用', color: 'warning' },
 } as const;
+
+export const articleStatusMap = {
+  1: { label: '已删除', color: 'danger' },
+  2: { label: '违规', color: 'danger' },
+  3: { label: '无法查看', color: 'warning' },
+} as const;
+
+export const refreshIntervalOptions = [
+  { value: 30 * 60, label: '每 30 分钟' },
+  { value: 60 * 60, label: '每 1 小时' },
+  { value: 3 * 60 * 60, label: '每 3 小时' },
+  { value: 6 * 60 * 60, label: '每 6 小时' },
+  { value: 12 * 60 * 60, label: '每 12 小时' },
+  { value: 24 * 60 * 60, label: '每天' },
+] as const;
+
+export const webhookEventOptions = [
+  {
+    value: 'article.created',
+    label: '新文章',
+    description: '每篇文章发送一次',
+  },
+  {
+    value: 'feed.updated',
+    label: '公众号更新',
+    description: '每次更新发送一次，包含本次的全部新文章',
+  },
+] as const;
+
+export const notifyEventOptions = [
+  {
+    value: 'account.invalid',
+    label: '账号失效',
+    description: '检测到账号失效时发送，附带重新登录的二维码',
+  },
+  {
+    value: 'account.restored',
+    label: '账号恢复',
+    description: '失效账号扫码重新登录成功后发送',
+  },
+] as const;
+
+export const webhookDeliveryStatusMap = {
+  0: { label: '待发送', color: 'warning' },
+  1: { label: '成功', color: 'success' },
+  2: { label: '失败', color: 'danger' },
+} as const;
@@ -13,16 +13,23 @@ import {
   TableHeader,
   TableRow,
   Chip,
+  Tooltip,
+  Input,
 } from '@nextui-org/react';
 import { QRCodeSVG } from 'qrcode.react';
 import { toast } from 'sonner';
 import { PlusIcon } from '@web/components/PlusIcon';
 import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone';
+import utc from 'dayjs/plugin/utc';
 import { StatusDropdown } from '@web/components/StatusDropdown';
 import { trpc } from '@web/utils/trpc';
 import { statusMap } from '@web/constants';
 import { useEffect, useState } from 'react';
 
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
 const AccountPage = () => {
   const { isOpen, onOpen, onClose, onOpenChange } = useDisclosure();
   const [count, setCount] = useState(0);
@@ -101,6 +108,9 @@ const AccountPage = () => {
           <TableColumn>ID</TableColumn>
           <TableColumn>用户名</TableColumn>
           <TableColumn>状态</TableColumn>
+          <TableColumn>今日请求</TableColumn>
+          <TableColumn>每日上限</TableColumn>
+          <TableColumn>成功率</TableColumn>
           <TableColumn>更新时间</TableColumn>
           <TableColumn>操作</TableColumn>
         </TableHeader>
@@ -111,6 +121,8 @@ const AccountPage = () => {
         >
           {data?.items.map((item) => {
             const isBlocked = data?.blocks.includes(item.id);
+            // 每日请求次数按北京时间计算
+            const today = dayjs().tz('Asia/Shanghai').format('YYYY-MM-DD');
 
             return (
               <TableRow key={item.id}>
@@ -118,9 +130,32 @@ const AccountPage = () => {
                 <TableCell>{item.name}</TableCell>
                 <TableCell>
                   {isBlocked ? (
-                    <Chip className="capitalize" size="sm" variant="flat">
-                      今日小黑屋
-                    </Chip>
+                    <Tooltip
+                      content={
+                        <div className="max-w-xs text-xs">
+                          <div>
+                            解封时间：
+                            {dayjs(item.blockedUntil * 1e3).format(
+                              'YYYY-MM-DD HH:mm:ss',
+                            )}
+                          </div>
+                          {item.rateLimitCount > 0 && (
+                            <div>连续限流：{item.rateLimitCount} 次</div>
+                          )}
+                          {item.blockReason && (
+                            <div className="break-all">
+                              原因：{item.blockReason}
+                            </div>
+                          )}
+                        </div>
+                      }
+                    >
+                      <Chip className="capitalize" size="sm" variant="flat">
+                        {item.blockErrorCode === 'WeReadError429'
+                          ? '限流冷却'
+                          : '小黑屋'}
+                      </Chip>
+                    </Tooltip>
                   ) : (
                     <Chip
                       className="capitalize"
@@ -132,6 +167,47 @@ const AccountPage = () => {
                     </Chip>
                   )}
                 </TableCell>
+                <TableCell>
+                  {item.dailyRequestDate === today ? item.dailyRequestCount : 0}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    key={`${item.id}-${item.dailyQuota}`}
+                    className="w-24"
+                    size="sm"
+                    type="number"
+                    min={0}
+                    placeholder="默认"
+                    aria-label="每日上限"
+                    defaultValue={
+                      item.dailyQuota === null ? '' : `${item.dailyQuota}`
+                    }
+                    onBlur={(e) => {
+                      const { value } = e.target as HTMLInputElement;
+                      const dailyQuota = value === '' ? null : parseInt(value);
+                      if (
+                        dailyQuota === item.dailyQuota ||
+                        Number.isNaN(dailyQuota)
+                      ) {
+                        return;
+                      }
+                      updateAccount({
+                        id: item.id,
+                        data: { dailyQuota },
+                      }).then(() => {
+                        toast.success('更新成功!');
+                        refetch();
+                      });
+                    }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Tooltip
+                    content={`累计请求 ${item.requestCount} 次，失败 ${item.failureCount} 次`}
+                  >
+                    <span>{Math.round(item.successRate * 100)}%</span>
+                  </Tooltip>
+                </TableCell>
                 <TableCell>
                   {dayjs(item.updatedAt).format('YYYY-MM-DD')}
                 </TableCell>
@@ -16,7 +16,9 @@ import {
   useDisclosure,
   Link,
 } from '@nextui-org/react';
+import { FeedGroupModal } from '@web/components/FeedGroupModal';
 import { PlusIcon } from '@web/components/PlusIcon';
+import { RefreshModeDropdown } from '@web/components/RefreshModeDropdown';
 import { trpc } from '@web/utils/trpc';
 import { useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
@@ -52,8 +54,12 @@ const Feeds = () => {
     mutateAsync: getHistoryArticles,
     isLoading: isGetHistoryArticlesLoading,
   } = trpc.feed.getHistoryArticles.useMutation();
+  const {
+    mutateAsync: stopHistoryArticles,
+    isLoading: isStopHistoryArticlesLoading,
+  } = trpc.feed.stopHistoryArticles.useMutation();
 
-  const { data: inProgressHistoryMp, refetch: refetchInProgressHistoryMp } =
+  const { data: inProgressHistoryMps, refetch: refetchInProgressHistoryMp } =
     trpc.feed.getInProgressHistoryMp.useQuery(undefined, {
       refetchOnWindowFocus: true,
       refetchInterval: 10 * 1e3,
@@ -61,8 +67,12 @@ const Feeds = () => {
       refetchOnReconnect: true,
     });
 
-  const { data: isRefreshAllMpArticlesRunning } =
-    trpc.feed.isRefreshAllMpArticlesRunning.useQuery();
+  const {
+    data: isRefreshAllMpArticlesRunning,
+    refetch: refetchIsRefreshAllMpArticlesRunning,
+  } = trpc.feed.isRefreshAllMpArticlesRunning.useQuery(undefined, {
+    refetchInterval: 10 * 1e3,
+  });
 
   const { mutateAsync: deleteFeed, isLoading: isDeleteFeedLoading } =
     trpc.feed.delete.useMutation({});
@@ -71,6 +81,26 @@ const Feeds = () => {
 
   const [currentMpId, setCurrentMpId] = useState(id || '');
 
+  const [currentGroupId, setCurrentGroupId] = useState('');
+
+  const {
+    isOpen: isGroupModalOpen,
+    onOpen: onGroupModalOpen,
+    onOpenChange: onGroupModalOpenChange,
+  } = useDisclosure();
+  // 是否为编辑当前分组，否则为新建
+  const [isEditingGroup, setIsEditingGroup] = useState(false);
+
+  const { data: groupData, refetch: refetchGroupList } =
+    trpc.group.list.useQuery();
+
+  const { mutateAsync: addGroup, isLoading: isAddGroupLoading } =
+    trpc.group.add.useMutation({});
+  const { mutateAsync: editGroup, isLoading: isEditGroupLoading } =
+    trpc.group.edit.useMutation({});
+  const { mutateAsync: deleteGroup, isLoading: isDeleteGroupLoading } =
+    trpc.group.delete.useMutation({});
+
   const handleConfirm = async () => {
     console.log('wxsLink', wxsLink);
     // TODO show operation in progress
@@ -106,40 +136,55 @@ const Feeds = () => {
     return currentMpId === key;
   };
 
-  const currentMpInfo = useMemo(() => {
-    return feedData?.items.find((item) => item.id === currentMpId);
-  }, [currentMpId, feedData?.items]);
+  const currentGroup = useMemo(() => {
+    return groupData?.items.find((item) => item.id === currentGroupId);
+  }, [currentGroupId, groupData?.items]);
 
-  const handleExportOpml = async (ev) => {
-    ev.preventDefault();
-    ev.stopPropagation();
-    if (!feedData?.items?.length) {
-      console.warn('没有订阅源');
-      return;
+  // 选中分组时只显示分组内的公众号
+  const visibleFeeds = useMemo(() => {
+    const items = feedData?.items || [];
+    if (!currentGroup) {
+      return items;
     }
+    return items.filter((item) => currentGroup.mpIds.includes(item.id));
+  }, [currentGroup, feedData?.items]);
 
-    let opmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-    <opml version="2.0">
-      <head>
-        <title>WeWeRSS 所有订阅源</title>
-      </head>
-      <body>
-    `;
+  const currentMpInfo = useMemo(() => {
+    return feedData?.items.find((item) => item.id === currentMpId);
+  }, [currentMpId, feedData?.items]);
 
-    feedData?.items.forEach((sub) => {
-      opmlContent += `    <outline text="${sub.mpName}" type="rss" xmlUrl="${window.location.origin}/feeds/${sub.id}.atom" htmlUrl="${window.location.origin}/feeds/${sub.id}.atom"/>\n`;
-    });
+  const inProgressHistoryMp = useMemo(() => {
+    return inProgressHistoryMps?.find((item) => item.id === currentMpId);
+  }, [currentMpId, inProgressHistoryMps]);
 
-    opmlContent += `    </body>
-    </opml>`;
+  const { mutateAsync: importOpml, isLoading: isImportOpmlLoading } =
+    trpc.feed.importOpml.useMutation({});
 
-    const blob = new Blob([opmlContent], { type: 'text/xml;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'WeWeRSS-All.opml';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleImportOpml = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.opml,.xml,text/xml';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        return;
+      }
+      const { items } = await importOpml({ content: await file.text() });
+      const failed = items.filter((item) => !item.success);
+      const added = items.filter((item) => item.message === '已添加');
+      if (failed.length) {
+        toast.warning(`导入完成，${failed.length}个失败`, {
+          description: failed
+            .map((item) => `${item.mpName || item.xmlUrl}：${item.message}`)
+            .join('\n'),
+        });
+      } else {
+        toast.success(`导入完成，新增${added.length}个订阅`);
+      }
+      await refetchFeedList();
+      await refetchGroupList();
+    };
+    input.click();
   };
 
   return (
@@ -147,16 +192,28 @@ const Feeds = () => {
       <div className="h-full flex justify-between">
         <div className="w-64 p-4 h-full">
           <div className="pb-4 flex justify-between align-middle items-center">
-            <Button
-              color="primary"
-              size="sm"
-              onPress={onOpen}
-              endContent={<PlusIcon />}
-            >
-              添加
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                color="primary"
+                size="sm"
+                onPress={onOpen}
+                endContent={<PlusIcon />}
+              >
+                添加
+              </Button>
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={() => {
+                  setIsEditingGroup(false);
+                  onGroupModalOpen();
+                }}
+              >
+                新建分组
+              </Button>
+            </div>
             <div className="font-normal text-sm">
-              共{feedData?.items.length || 0}个订阅
+              共{visibleFeeds.length}个订阅
             </div>
           </div>
 
@@ -164,21 +221,57 @@ const Feeds = () => {
             <Listbox
               aria-label="订阅源"
               emptyContent="暂无订阅"
-              onAction={(key) => setCurrentMpId(key as string)}
+              onAction={(key) => {
+                const [type, groupId] = `${key}`.split('/');
+                if (type === 'group') {
+                  setCurrentMpId('');
+                  setCurrentGroupId(groupId);
+                  navigate('/feeds');
+                  return;
+                }
+                if (key === '') {
+                  setCurrentGroupId('');
+                }
+                setCurrentMpId(key as string);
+              }}
             >
               <ListboxSection showDivider>
-                <ListboxItem
-                  key={''}
-                  href={`/feeds`}
-                  className={isActive('') ? 'bg-primary-50 text-primary' : ''}
-                  startContent={<Avatar name="ALL"></Avatar>}
-                >
-                  全部
-                </ListboxItem>
+                {[
+                  <ListboxItem
+                    key={''}
+                    href={`/feeds`}
+                    className={
+                      isActive('') && !currentGroupId
+                        ? 'bg-primary-50 text-primary'
+                        : ''
+                    }
+                    startContent={<Avatar name="ALL"></Avatar>}
+                  >
+                    全部
+                  </ListboxItem>,
+                  ...(groupData?.items.map((group) => (
+                    <ListboxItem
+                      key={`group/${group.id}`}
+                      className={
+                        isActive('') && currentGroupId === group.id
+                          ? 'bg-primary-50 text-primary'
+                          : ''
+                      }
+                      startContent={<Avatar name={group.name}></Avatar>}
+                      endContent={
+                        <span className="text-small text-default-400">
+                          {group.mpIds.length}
+                        </span>
+                      }
+                    >
+                      {group.name}
+                    </ListboxItem>
+                  )) || []),
+                ]}
               </ListboxSection>
 
               <ListboxSection className="overflow-y-auto h-[calc(100vh-260px)]">
-                {feedData?.items.map((item) => {
+                {visibleFeeds.map((item) => {
                   return (
                     <ListboxItem
                       href={`/feeds/${item.id}`}
@@ -201,7 +294,7 @@ const Feeds = () => {
         <div className="flex-1 h-full flex flex-col">
           <div className="p-4 pb-0 flex justify-between">
             <h3 className="text-medium font-mono flex-1 overflow-hidden text-ellipsis break-keep text-nowrap pr-1">
-              {currentMpInfo?.mpName || '全部'}
+              {currentMpInfo?.mpName || currentGroup?.name || '全部'}
             </h3>
             {currentMpInfo ? (
               <div className="flex h-5 items-center space-x-4 text-small">
@@ -236,33 +329,27 @@ const Feeds = () => {
                   <>
                     <Tooltip
                       content={
-                        inProgressHistoryMp?.id === currentMpInfo.id
-                          ? `正在获取第${inProgressHistoryMp?.page ?? 0}页...`
+                        inProgressHistoryMp
+                          ? `正在获取第${inProgressHistoryMp.page}页...`
                           : `历史文章需要分批次拉取，请耐心等候，频繁调用可能会导致一段时间内不可用`
                       }
-                      color={
-                        inProgressHistoryMp?.id === currentMpInfo.id
-                          ? 'primary'
-                          : 'danger'
-                      }
+                      color={inProgressHistoryMp ? 'primary' : 'danger'}
                     >
                       <Link
                         size="sm"
                         href="#"
                         isDisabled={
-                          (inProgressHistoryMp?.id
-                            ? inProgressHistoryMp?.id !== currentMpInfo.id
-                            : false) ||
                           isGetHistoryArticlesLoading ||
+                          isStopHistoryArticlesLoading ||
                           isGetArticlesLoading
                         }
                         onClick={async (ev) => {
                           ev.preventDefault();
                           ev.stopPropagation();
 
-                          if (inProgressHistoryMp?.id === currentMpInfo.id) {
-                            await getHistoryArticles({
-                              mpId: '',
+                          if (inProgressHistoryMp) {
+                            await stopHistoryArticles({
+                              mpId: currentMpInfo.id,
                             });
                           } else {
                             await getHistoryArticles({
@@ -273,7 +360,7 @@ const Feeds = () => {
                           await refetchInProgressHistoryMp();
                         }}
                       >
-                        {inProgressHistoryMp?.id === currentMpInfo.id
+                        {inProgressHistoryMp
                           ? `停止获取历史文章`
                           : `获取历史文章`}
                       </Link>
@@ -282,6 +369,33 @@ const Feeds = () => {
                   </>
                 )}
 
+                <Tooltip
+                  content={
+                    currentMpInfo.refreshMode === 'global'
+                      ? '按服务端全局定时任务更新'
+                      : currentMpInfo.nextSyncAt
+                        ? `下次更新时间：${dayjs(
+                            currentMpInfo.nextSyncAt * 1e3,
+                          ).format('YYYY-MM-DD HH:mm:ss')}`
+                        : '即将更新'
+                  }
+                >
+                  <div>
+                    <RefreshModeDropdown
+                      mode={currentMpInfo.refreshMode}
+                      interval={currentMpInfo.refreshInterval}
+                      onChange={async (data) => {
+                        await updateMpInfo({
+                          id: currentMpInfo.id,
+                          data,
+                        });
+                        toast.success('更新频率已保存');
+                        await refetchFeedList();
+                      }}
+                    />
+                  </div>
+                </Tooltip>
+                <Divider orientation="vertical" />
                 <Tooltip content="启用服务端定时更新">
                   <div>
                     <Switch
@@ -315,6 +429,7 @@ const Feeds = () => {
                         await deleteFeed(currentMpInfo.id);
                         navigate('/feeds');
                         await refetchFeedList();
+                        await refetchGroupList();
                       }
                     }}
                   >
@@ -341,6 +456,60 @@ const Feeds = () => {
                   </Link>
                 </Tooltip>
               </div>
+            ) : currentGroup ? (
+              <div className="flex h-5 items-center space-x-4 text-small">
+                <Link
+                  size="sm"
+                  href="#"
+                  onClick={(ev) => {
+                    ev.preventDefault();
+                    ev.stopPropagation();
+                    setIsEditingGroup(true);
+                    onGroupModalOpen();
+                  }}
+                >
+                  编辑分组
+                </Link>
+                <Divider orientation="vertical" />
+                <Tooltip content="仅删除分组，分组内的订阅源不会被删除">
+                  <Link
+                    href="#"
+                    color="danger"
+                    size="sm"
+                    isDisabled={isDeleteGroupLoading}
+                    onClick={async (ev) => {
+                      ev.preventDefault();
+                      ev.stopPropagation();
+
+                      if (window.confirm('确定删除吗？')) {
+                        await deleteGroup(currentGroup.id);
+                        setCurrentGroupId('');
+                        await refetchGroupList();
+                      }
+                    }}
+                  >
+                    删除
+                  </Link>
+                </Tooltip>
+                <Divider orientation="vertical" />
+                <Tooltip
+                  content={
+                    <div>
+                      可添加.atom/.rss/.json格式输出, limit=20&page=1控制分页
+                    </div>
+                  }
+                >
+                  <Link
+                    size="sm"
+                    showAnchorIcon
+                    target="_blank"
+                    href={`${serverOriginUrl}/feeds/group/${currentGroup.id}.atom`}
+                    color="foreground"
+                  >
+                    RSS
+                  </Link>
+                </Tooltip>
+              </div>
             ) : (
               <div className="flex gap-2">
                 <Tooltip
@@ -357,6 +526,7 @@ const Feeds = () => {
                       ev.preventDefault();
                       ev.stopPropagation();
                       await refreshMpArticles({});
+                      await refetchIsRefreshAllMpArticlesRunning();
                       await refetchFeedList();
                       await queryUtils.article.list.reset();
                     }}
@@ -369,7 +539,19 @@ const Feeds = () => {
                 <Link
                   href="#"
                   color="foreground"
-                  onClick={handleExportOpml}
+                  isDisabled={isImportOpmlLoading}
+                  onClick={(ev) => {
+                    ev.preventDefault();
+                    ev.stopPropagation();
+                    handleImportOpml();
+                  }}
+                  size="sm"
+                >
+                  {isImportOpmlLoading ? '导入中...' : '导入OPML'}
+                </Link>
+                <Link
+                  href={`${serverOriginUrl}/feeds/opml`}
+                  color="foreground"
                   size="sm"
                 >
                   导出OPML
@@ -388,10 +570,31 @@ const Feeds = () => {
             )}
           </div>
           <div className="p-2 overflow-y-auto">
-            <ArticleList></ArticleList>
+            <ArticleList groupId={currentGroupId}></ArticleList>
           </div>
         </div>
       </div>
+      <FeedGroupModal
+        isOpen={isGroupModalOpen}
+        onOpenChange={onGroupModalOpenChange}
+        group={isEditingGroup ? currentGroup : undefined}
+        feeds={feedData?.items || []}
+        isLoading={isAddGroupLoading || isEditGroupLoading}
+        onConfirm={async (data) => {
+          if (isEditingGroup && currentGroup) {
+            await editGroup({ id: currentGroup.id, data });
+          } else {
+            const group = await addGroup(data);
+            if (group) {
+              setCurrentMpId('');
+              setCurrentGroupId(group.id);
+              navigate('/feeds');
+            }
+          }
+          await refetchGroupList();
+          await queryUtils.article.list.reset();
+        }}
+      />
       <Modal isOpen={isOpen} onOpenChange={onOpenChange}>
         <ModalContent>
           {(onClose) => (
@@ -1,4 +1,4 @@
-import { FC, useMemo } from 'react';
+import { FC, useEffect, useMemo, useState } from 'react';
 import {
   Table,
   TableHeader,
@@ -10,26 +10,67 @@ import {
   Button,
   Spinner,
   Link,
+  Chip,
+  Input,
 } from '@nextui-org/react';
 import { trpc } from '@web/utils/trpc';
 import dayjs from 'dayjs';
 import { useParams } from 'react-router-dom';
+import { articleStatusMap } from '@web/constants';
+import { serverOriginUrl } from '@web/utils/env';
+import { toast } from 'sonner';
 
-const ArticleList: FC = () => {
+const ArticleList: FC<{ groupId?: string }> = ({ groupId }) => {
   const { id } = useParams();
 
   const mpId = id || '';
 
-  const { data, fetchNextPage, isLoading, hasNextPage } =
-    trpc.article.list.useInfiniteQuery(
-      {
-        limit: 20,
-        mpId: mpId,
-      },
-      {
-        getNextPageParam: (lastPage) => lastPage.nextCursor,
-      },
-    );
+  const [keyword, setKeyword] = useState('');
+  const [searchKeyword, setSearchKeyword] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchKeyword(keyword.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [keyword]);
+
+  const isSearching = !!searchKeyword;
+
+  const queryUtils = trpc.useUtils();
+
+  const { data: alertData } = trpc.alert.list.useQuery();
+
+  const { mutateAsync: addAlert, isLoading: isAddAlertLoading } =
+    trpc.alert.add.useMutation({});
+
+  const { mutateAsync: deleteAlert } = trpc.alert.delete.useMutation({});
+
+  const listQuery = trpc.article.list.useInfiniteQuery(
+    {
+      limit: 20,
+      mpId: mpId,
+      groupId: mpId ? undefined : groupId || undefined,
+    },
+    {
+      enabled: !isSearching,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    },
+  );
+
+  const searchQuery = trpc.article.search.useInfiniteQuery(
+    {
+      keyword: searchKeyword,
+      limit: 20,
+      mpId: mpId || undefined,
+    },
+    {
+      enabled: isSearching,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    },
+  );
+
+  const { data, fetchNextPage, isLoading, hasNextPage } = isSearching
+    ? searchQuery
+    : listQuery;
 
   const items = useMemo<any[]>(() => {
     if (!data) {
@@ -44,6 +85,70 @@ const ArticleList: FC = () => {
 
   return (
     <div>
+      <Input
+        className="mb-4"
+        size="sm"
+        isClearable
+        value={keyword}
+        onValueChange={setKeyword}
+        placeholder="搜索标题或全文，多个关键词用空格分隔"
+      />
+      {isSearching && (
+        <div className="flex items-center gap-2 mb-4 text-small">
+          <Link
+            size="sm"
+            showAnchorIcon
+            target="_blank"
+            href={`${serverOriginUrl}/feeds/search.atom?q=${encodeURIComponent(
+              searchKeyword,
+            )}`}
+          >
+            订阅搜索结果
+          </Link>
+          <Button
+            size="sm"
+            variant="flat"
+            color="primary"
+            isLoading={isAddAlertLoading}
+            onPress={async () => {
+              await addAlert({ name: searchKeyword, keyword: searchKeyword });
+              await queryUtils.alert.list.refetch();
+              toast.success('已保存为提醒订阅');
+            }}
+          >
+            保存为提醒订阅
+          </Button>
+        </div>
+      )}
+      {!!alertData?.items.length && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-small text-default-500">提醒订阅：</span>
+          {alertData.items.map((alert) => (
+            <Chip
+              key={alert.id}
+              size="sm"
+              variant="flat"
+              className="cursor-pointer"
+              onClick={() => setKeyword(alert.keyword)}
+              onClose={async () => {
+                await deleteAlert(alert.id);
+                await queryUtils.alert.list.refetch();
+              }}
+            >
+              {alert.name}
+              <Link
+                className="ml-1"
+                size="sm"
+                target="_blank"
+                href={`${serverOriginUrl}/feeds/alert/${alert.id}.atom`}
+                onClick={(e) => e.stopPropagation()}
+              >
+                RSS
+              </Link>
+            </Chip>
+          ))}
+        </div>
+      )}
       <Table
         classNames={{
           base: 'h-full',
@@ -90,8 +195,22 @@ const ArticleList: FC = () => {
                 }
 
                 if (columnKey === 'title') {
+                  const status =
+                    articleStatusMap[
+                      item.status as keyof typeof articleStatusMap
+                    ];
                   return (
                     <TableCell>
+                      {status && (
+                        <Chip
+                          className="mr-2"
+                          size="sm"
+                          variant="flat"
+                          color={status.color}
+                        >
+                          {status.label}
+                        </Chip>
+                      )}
                       <Link
                         className="visited:text-neutral-400"
                         isBlock
@@ -100,8 +219,22 @@ const ArticleList: FC = () => {
                         target="_blank"
                         href={`https://mp.weixin.qq.com/s/${item.id}`}
                       >
-                        {value}
+                        {isSearching ? (
+                          <span
+                            dangerouslySetInnerHTML={{
+                              __html: item.titleHighlight,
+                            }}
+                          />
+                        ) : (
+                          value
+                        )}
                       </Link>
+                      {isSearching && item.snippet && (
+                        <div
+                          className="text-small text-default-500 mt-1"
+                          dangerouslySetInnerHTML={{ __html: item.snippet }}
+                        />
+                      )}
                     </TableCell>
                   );
                 }
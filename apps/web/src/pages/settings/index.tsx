@@ -0,0 +1,211 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  Divider,
+  Progress,
+} from '@nextui-org/react';
+import { trpc } from '@web/utils/trpc';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { NotifyTemplates } from './notify-templates';
+
+// 全文内容较大，使用较小的分批大小
+const getBatchSize = (section: string, isRestore: boolean) => {
+  if (section === 'articleContents') {
+    return 20;
+  }
+  return isRestore ? 200 : 500;
+};
+
+const sectionLabelMap: Record<string, string> = {
+  accounts: '账号',
+  feeds: '订阅源',
+  feedGroups: '分组',
+  alertFeeds: '提醒订阅',
+  articles: '文章',
+  articleContents: '全文',
+};
+
+const SettingsPage = () => {
+  const queryUtils = trpc.useUtils();
+
+  const { data: backupInfo } = trpc.backup.info.useQuery();
+
+  const { mutateAsync: restore } = trpc.backup.restore.useMutation({});
+
+  const [includeTokens, setIncludeTokens] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleExport = async () => {
+    if (!backupInfo) {
+      return;
+    }
+    setIsRunning(true);
+    try {
+      // NDJSON：第一行为文件信息，之后每行一条记录
+      const lines = [
+        JSON.stringify({
+          type: 'meta',
+          app: 'wewe-rss',
+          version: backupInfo.version,
+          exportedAt: new Date().toISOString(),
+          includeTokens,
+        }),
+      ];
+      for (const section of backupInfo.sections) {
+        let cursor: string | undefined = undefined;
+        let count = 0;
+        do {
+          const page: { items: unknown[]; nextCursor?: string } =
+            await queryUtils.backup.export.fetch(
+              {
+                section,
+                cursor,
+                limit: getBatchSize(section, false),
+                includeTokens,
+              },
+              { staleTime: 0 },
+            );
+          page.items.forEach((data) =>
+            lines.push(JSON.stringify({ type: section, data })),
+          );
+          count += page.items.length;
+          cursor = page.nextCursor;
+          setProgress(
+            `正在导出${sectionLabelMap[section] || section}：${count}`,
+          );
+        } while (cursor);
+      }
+
+      const blob = new Blob([lines.join('\n') + '\n'], {
+        type: 'application/x-ndjson;charset=utf-8;',
+      });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `wewe-rss-backup-${dayjs().format(
+        'YYYYMMDD-HHmmss',
+      )}.ndjson`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast.success('导出完成', { description: `共${lines.length - 1}条记录` });
+    } finally {
+      setIsRunning(false);
+      setProgress('');
+    }
+  };
+
+  const handleRestore = async (file: File) => {
+    if (!backupInfo) {
+      return;
+    }
+    const [metaLine, ...lines] = (await file.text())
+      .split('\n')
+      .filter((line) => line.trim());
+    const meta = JSON.parse(metaLine || '{}');
+    if (meta.type !== 'meta' || meta.app !== 'wewe-rss') {
+      toast.error('不是 WeWe-RSS 的备份文件');
+      return;
+    }
+    if (!window.confirm('恢复会覆盖已存在的同 id 数据，确定继续吗？')) {
+      return;
+    }
+
+    const records: Record<string, unknown[]> = {};
+    for (const line of lines) {
+      const { type, data } = JSON.parse(line);
+      (records[type] ||= []).push(data);
+    }
+
+    setIsRunning(true);
+    try {
+      for (const section of backupInfo.sections) {
+        const items = records[section] || [];
+        const batchSize = getBatchSize(section, true);
+        for (let i = 0; i < items.length; i += batchSize) {
+          await restore({
+            version: meta.version,
+            section,
+            items: items.slice(i, i + batchSize),
+          });
+          setProgress(
+            `正在恢复${sectionLabelMap[section] || section}：${Math.min(
+              i + batchSize,
+              items.length,
+            )}/${items.length}`,
+          );
+        }
+      }
+      await queryUtils.invalidate();
+      toast.success('恢复完成', { description: `共${lines.length}条记录` });
+    } finally {
+      setIsRunning(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="p-4 max-w-3xl mx-auto flex flex-col gap-4">
+      <Card>
+        <CardHeader className="flex flex-col items-start gap-1">
+          <h3 className="text-medium">备份与恢复</h3>
+          <p className="text-small text-default-500">
+            导出账号、订阅源、分组、文章和已保存的全文，可用于在 Docker 版本和
+            Cloudflare Worker 版本之间迁移
+          </p>
+        </CardHeader>
+        <Divider />
+        <CardBody className="gap-4">
+          <Checkbox isSelected={includeTokens} onValueChange={setIncludeTokens}>
+            包含账号 token（不包含时恢复后需要重新扫码登录）
+          </Checkbox>
+          <div className="flex gap-2">
+            <Button
+              color="primary"
+              size="sm"
+              isDisabled={!backupInfo || isRunning}
+              onPress={handleExport}
+            >
+              下载备份
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={!backupInfo || isRunning}
+              onPress={() => {
+                const input = document.createElement('input');
+                input.type = 'file';
+                input.accept = '.ndjson,.json';
+                input.onchange = () => {
+                  const file = input.files?.[0];
+                  if (file) {
+                    handleRestore(file);
+                  }
+                };
+                input.click();
+              }}
+            >
+              恢复备份
+            </Button>
+          </div>
+          {isRunning && (
+            <Progress
+              size="sm"
+              isIndeterminate
+              label={progress || '处理中...'}
+              aria-label="备份进度"
+            />
+          )}
+        </CardBody>
+      </Card>
+      <NotifyTemplates />
+    </div>
+  );
+};
+
+export default SettingsPage;
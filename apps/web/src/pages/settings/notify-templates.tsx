@@ -0,0 +1,208 @@
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Divider,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+  Tab,
+  Tabs,
+  Textarea,
+  useDisclosure,
+} from '@nextui-org/react';
+import { notifyEventOptions } from '@web/constants';
+import { trpc } from '@web/utils/trpc';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+type NotifyEvent = (typeof notifyEventOptions)[number]['value'];
+
+type Preview = {
+  title: string;
+  markdown: string;
+  text: string;
+  unknownVariables: string[];
+};
+
+const TemplateEditor = ({
+  event,
+  template,
+  onChange,
+}: {
+  event: NotifyEvent;
+  template: { title: string; content: string; isDefault: boolean };
+  onChange: () => void;
+}) => {
+  const queryUtils = trpc.useUtils();
+
+  const { mutateAsync: saveTemplate, isLoading: isSaving } =
+    trpc.notify.saveTemplate.useMutation({});
+  const { mutateAsync: resetTemplate, isLoading: isResetting } =
+    trpc.notify.resetTemplate.useMutation({});
+
+  const [title, setTitle] = useState(template.title);
+  const [content, setContent] = useState(template.content);
+  const [preview, setPreview] = useState<Preview>();
+  const previewModal = useDisclosure();
+
+  useEffect(() => {
+    setTitle(template.title);
+    setContent(template.content);
+  }, [template]);
+
+  const isValid = !!title.trim() && !!content.trim();
+
+  return (
+    <div className="flex flex-col gap-3">
+      <Input
+        value={title}
+        onValueChange={setTitle}
+        label="标题"
+        variant="bordered"
+        size="sm"
+      />
+      <Textarea
+        value={content}
+        onValueChange={setContent}
+        label="正文（markdown）"
+        variant="bordered"
+        minRows={8}
+        maxRows={20}
+        description="钉钉和企业微信按 markdown 显示，其他渠道会转换为纯文本"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          isDisabled={!isValid}
+          onPress={async () => {
+            setPreview(
+              await queryUtils.notify.preview.fetch(
+                { event, title, content },
+                { staleTime: 0 },
+              ),
+            );
+            previewModal.onOpen();
+          }}
+        >
+          预览
+        </Button>
+        <Button
+          size="sm"
+          color="primary"
+          isDisabled={!isValid}
+          isLoading={isSaving}
+          onPress={async () => {
+            await saveTemplate({ event, title, content });
+            toast.success('保存成功!');
+            onChange();
+          }}
+        >
+          保存
+        </Button>
+        <Button
+          size="sm"
+          variant="flat"
+          color="danger"
+          isDisabled={template.isDefault}
+          isLoading={isResetting}
+          onPress={async () => {
+            await resetTemplate(event);
+            toast.success('已恢复默认模板');
+            onChange();
+          }}
+        >
+          恢复默认
+        </Button>
+      </div>
+
+      <Modal
+        size="2xl"
+        isOpen={previewModal.isOpen}
+        onOpenChange={previewModal.onOpenChange}
+        scrollBehavior="inside"
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader>{preview?.title}</ModalHeader>
+              <ModalBody className="pb-6">
+                {!!preview?.unknownVariables.length && (
+                  <div className="text-small text-danger">
+                    未知变量：
+                    {preview.unknownVariables
+                      .map((name) => `{{${name}}}`)
+                      .join('、')}
+                  </div>
+                )}
+                <div className="text-small text-default-500">
+                  钉钉、企业微信
+                </div>
+                <pre className="text-xs whitespace-pre-wrap break-all bg-default-100 rounded-medium p-3">
+                  {preview?.markdown}
+                </pre>
+                <div className="text-small text-default-500">
+                  飞书、Slack、Telegram、邮件
+                </div>
+                <pre className="text-xs whitespace-pre-wrap break-all bg-default-100 rounded-medium p-3">
+                  {preview?.text}
+                </pre>
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
+
+export const NotifyTemplates = () => {
+  const { data, refetch } = trpc.notify.templates.useQuery();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col items-start gap-1">
+        <h3 className="text-medium">通知模板</h3>
+        <p className="text-small text-default-500">
+          账号失效和恢复时发送到 NOTIFY_CHANNELS
+          中配置的渠道，标题和正文中可以使用以下变量
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {data?.variables.map(({ name, label }) => (
+            <Chip key={name} size="sm" variant="flat" title={label}>
+              {`{{${name}}}`} {label}
+            </Chip>
+          ))}
+        </div>
+      </CardHeader>
+      <Divider />
+      <CardBody>
+        <Tabs aria-label="通知事件" size="sm">
+          {notifyEventOptions.map(({ value, label, description }) => {
+            const template = data?.items.find(({ event }) => event === value);
+            return (
+              <Tab key={value} title={label}>
+                <div className="text-small text-default-500 mb-3">
+                  {description}
+                  {template?.isDefault && '（当前为默认模板）'}
+                </div>
+                {template && (
+                  <TemplateEditor
+                    event={value}
+                    template={template}
+                    onChange={() => refetch()}
+                  />
+                )}
+              </Tab>
+            );
+          })}
+        </Tabs>
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,334 @@
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  Tooltip,
+  useDisclosure,
+} from '@nextui-org/react';
+import { toast } from 'sonner';
+import dayjs from 'dayjs';
+import { PlusIcon } from '@web/components/PlusIcon';
+import { StatusDropdown } from '@web/components/StatusDropdown';
+import { WebhookModal } from '@web/components/WebhookModal';
+import {
+  statusMap,
+  webhookDeliveryStatusMap,
+  webhookEventOptions,
+} from '@web/constants';
+import { trpc } from '@web/utils/trpc';
+import { useMemo, useState } from 'react';
+
+const eventLabelMap: Record<string, string> = {
+  ...Object.fromEntries(
+    webhookEventOptions.map(({ value, label }) => [value, label]),
+  ),
+  ping: '测试',
+};
+
+const WebhookDeliveries = ({ webhookId }: { webhookId: string }) => {
+  const { data, fetchNextPage, hasNextPage, isFetching, refetch } =
+    trpc.webhook.deliveries.useInfiniteQuery(
+      { webhookId, limit: 20 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+
+  const { mutateAsync: retryDelivery } = trpc.webhook.retry.useMutation({});
+
+  const items = useMemo(
+    () => data?.pages.flatMap((page) => page.items) || [],
+    [data],
+  );
+
+  return (
+    <div className="pb-4">
+      <div className="flex justify-end mb-2">
+        <Button size="sm" variant="flat" onPress={() => refetch()}>
+          刷新
+        </Button>
+      </div>
+      <Table
+        aria-label="发送记录"
+        removeWrapper
+        bottomContent={
+          hasNextPage ? (
+            <div className="flex w-full justify-center">
+              <Button
+                isDisabled={isFetching}
+                variant="flat"
+                onPress={() => {
+                  fetchNextPage();
+                }}
+              >
+                {isFetching && <Spinner color="white" size="sm" />}
+                加载更多
+              </Button>
+            </div>
+          ) : null
+        }
+      >
+        <TableHeader>
+          <TableColumn>时间</TableColumn>
+          <TableColumn>事件</TableColumn>
+          <TableColumn>状态</TableColumn>
+          <TableColumn>尝试次数</TableColumn>
+          <TableColumn>响应</TableColumn>
+          <TableColumn>操作</TableColumn>
+        </TableHeader>
+        <TableBody
+          emptyContent={<div className="m-auto text-center">暂无记录</div>}
+          isLoading={isFetching && !data}
+          loadingContent={<Spinner />}
+        >
+          {items.map((item) => {
+            const status =
+              webhookDeliveryStatusMap[
+                item.status as keyof typeof webhookDeliveryStatusMap
+              ];
+            return (
+              <TableRow key={item.id}>
+                <TableCell>
+                  {dayjs(item.createdAt).format('YYYY-MM-DD HH:mm:ss')}
+                </TableCell>
+                <TableCell>
+                  <Tooltip
+                    content={
+                      <pre className="max-w-md max-h-80 overflow-auto text-xs whitespace-pre-wrap break-all">
+                        {JSON.stringify(JSON.parse(item.payload), null, 2)}
+                      </pre>
+                    }
+                  >
+                    <span>{eventLabelMap[item.event] || item.event}</span>
+                  </Tooltip>
+                </TableCell>
+                <TableCell>
+                  <Tooltip
+                    isDisabled={item.nextRetryAt === 0 || item.status !== 0}
+                    content={`下次发送：${dayjs(item.nextRetryAt * 1e3).format(
+                      'YYYY-MM-DD HH:mm:ss',
+                    )}`}
+                  >
+                    <Chip size="sm" variant="flat" color={status?.color}>
+                      {status?.label}
+                    </Chip>
+                  </Tooltip>
+                </TableCell>
+                <TableCell>{item.attempts}</TableCell>
+                <TableCell>
+                  <div className="max-w-xs text-xs break-all">
+                    {item.error || item.responseStatus || '-'}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    onPress={async () => {
+                      await retryDelivery(item.id);
+                      toast.success('已重新发送');
+                      refetch();
+                    }}
+                  >
+                    重新发送
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+const WebhooksPage = () => {
+  const { refetch, data, isFetching } = trpc.webhook.list.useQuery();
+  const { data: feedData } = trpc.feed.list.useQuery({});
+
+  const { mutateAsync: addWebhook, isLoading: isAddLoading } =
+    trpc.webhook.add.useMutation({});
+  const { mutateAsync: editWebhook, isLoading: isEditLoading } =
+    trpc.webhook.edit.useMutation({});
+  const { mutateAsync: deleteWebhook } = trpc.webhook.delete.useMutation({});
+  const { mutateAsync: testWebhook } = trpc.webhook.test.useMutation({});
+
+  const webhookModal = useDisclosure();
+  const deliveriesModal = useDisclosure();
+  const [editingId, setEditingId] = useState<string>();
+  const [deliveriesId, setDeliveriesId] = useState<string>();
+
+  const feeds = feedData?.items || [];
+  const editingWebhook = data?.items.find((item) => item.id === editingId);
+
+  return (
+    <div>
+      <div className="flex justify-between m-4">
+        <div>
+          <div className="font-bold">共{data?.items.length || 0}个 Webhook</div>
+          <div className="text-sm text-default-500">
+            公众号有新文章时向以下地址发送 POST 请求，失败后自动重试
+          </div>
+        </div>
+        <Button
+          onPress={() => {
+            setEditingId(undefined);
+            webhookModal.onOpen();
+          }}
+          size="sm"
+          color="primary"
+          endContent={<PlusIcon />}
+        >
+          添加 Webhook
+        </Button>
+      </div>
+      <Table aria-label="Webhook 列表">
+        <TableHeader>
+          <TableColumn>名称</TableColumn>
+          <TableColumn>地址</TableColumn>
+          <TableColumn>事件</TableColumn>
+          <TableColumn>公众号</TableColumn>
+          <TableColumn>状态</TableColumn>
+          <TableColumn>操作</TableColumn>
+        </TableHeader>
+        <TableBody
+          emptyContent={<div className="m-auto text-center">暂无数据</div>}
+          isLoading={isFetching}
+          loadingContent={<Spinner />}
+        >
+          {data?.items.map((item) => (
+            <TableRow key={item.id}>
+              <TableCell>{item.name}</TableCell>
+              <TableCell>
+                <div className="max-w-xs truncate">{item.url}</div>
+              </TableCell>
+              <TableCell>
+                {item.events.map((event) => eventLabelMap[event]).join('、')}
+              </TableCell>
+              <TableCell>
+                {item.mpIds.length
+                  ? feeds
+                      .filter((feed) => item.mpIds.includes(feed.id))
+                      .map((feed) => feed.mpName)
+                      .join('、')
+                  : '全部'}
+              </TableCell>
+              <TableCell>
+                <Chip
+                  size="sm"
+                  variant="flat"
+                  color={
+                    statusMap[item.status as keyof typeof statusMap]?.color
+                  }
+                >
+                  {statusMap[item.status as keyof typeof statusMap]?.label}
+                </Chip>
+              </TableCell>
+              <TableCell className="flex gap-2">
+                <StatusDropdown
+                  value={item.status}
+                  onChange={(value) => {
+                    editWebhook({
+                      id: item.id,
+                      data: { status: value },
+                    }).then(() => {
+                      toast.success('更新成功!');
+                      refetch();
+                    });
+                  }}
+                ></StatusDropdown>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={() => {
+                    setEditingId(item.id);
+                    webhookModal.onOpen();
+                  }}
+                >
+                  编辑
+                </Button>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={async () => {
+                    await testWebhook(item.id);
+                    toast.success('已发送测试请求，结果见发送记录');
+                  }}
+                >
+                  测试
+                </Button>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={() => {
+                    setDeliveriesId(item.id);
+                    deliveriesModal.onOpen();
+                  }}
+                >
+                  发送记录
+                </Button>
+                <Button
+                  size="sm"
+                  color="danger"
+                  onPress={() => {
+                    deleteWebhook(item.id).then(() => {
+                      toast.success('删除成功!');
+                      refetch();
+                    });
+                  }}
+                >
+                  删除
+                </Button>
+              </TableCell>
+            </TableRow>
+          )) || []}
+        </TableBody>
+      </Table>
+
+      <WebhookModal
+        isOpen={webhookModal.isOpen}
+        onOpenChange={webhookModal.onOpenChange}
+        webhook={editingWebhook}
+        feeds={feeds}
+        isLoading={isAddLoading || isEditLoading}
+        onConfirm={async (value) => {
+          if (editingWebhook) {
+            await editWebhook({ id: editingWebhook.id, data: value });
+          } else {
+            await addWebhook({ ...value, status: 1 });
+          }
+          toast.success('保存成功!');
+          refetch();
+        }}
+      />
+
+      <Modal
+        size="4xl"
+        isOpen={deliveriesModal.isOpen}
+        onOpenChange={deliveriesModal.onOpenChange}
+        scrollBehavior="inside"
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader>发送记录</ModalHeader>
+              <ModalBody>
+                {deliveriesId && <WebhookDeliveries webhookId={deliveriesId} />}
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
+
+export default WebhooksPage;
@@ -8,7 +8,18 @@ declare global {
 
   interface D1Database {
     prepare(query: string): D1PreparedStatement;
-    batch(statements: D1PreparedStatement[]): Promise<unknown>;
+    batch<T = unknown>(
+      statements: D1PreparedStatement[],
+    ): Promise<{ results: T[] }[]>;
+  }
+
+  interface DurableObjectStub {
+    fetch(input: string, init?: RequestInit): Promise<Response>;
+  }
+
+  interface DurableObjectNamespace {
+    idFromName(name: string): unknown;
+    get(id: unknown): DurableObjectStub;
   }
 }
 
@@ -0,0 +1,3 @@
+ALTER TABLE accounts ADD COLUMN blocked_until INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN block_reason TEXT;
+ALTER TABLE accounts ADD COLUMN block_error_code TEXT;
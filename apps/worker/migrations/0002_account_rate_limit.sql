@@ -0,0 +1 @@
+ALTER TABLE accounts ADD COLUMN rate_limit_count INTEGER NOT NULL DEFAULT 0;
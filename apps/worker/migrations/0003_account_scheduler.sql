@@ -0,0 +1,7 @@
+ALTER TABLE accounts ADD COLUMN last_used_at INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN request_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN failure_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN success_rate REAL NOT NULL DEFAULT 1;
+ALTER TABLE accounts ADD COLUMN daily_request_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN daily_request_date TEXT;
+ALTER TABLE accounts ADD COLUMN daily_quota INTEGER;
@@ -0,0 +1,3 @@
+ALTER TABLE feeds ADD COLUMN refresh_mode TEXT NOT NULL DEFAULT 'global';
+ALTER TABLE feeds ADD COLUMN refresh_interval INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE feeds ADD COLUMN next_sync_at INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- 旧版本部署可能还没有 article_contents，先按加入重试字段之前的结构创建
+CREATE TABLE IF NOT EXISTS article_contents (
+  id TEXT PRIMARY KEY,
+  raw_html TEXT,
+  clean_html TEXT,
+  text TEXT,
+  status INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  fetched_at INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+ALTER TABLE article_contents ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE article_contents ADD COLUMN next_retry_at INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_article_contents_status_next_retry_at ON article_contents(status, next_retry_at);
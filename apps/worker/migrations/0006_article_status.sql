@@ -0,0 +1 @@
+ALTER TABLE articles ADD COLUMN status INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,30 @@
+-- 创建全文搜索索引和触发器（与 schema.sql 相同），再为已有文章建立索引
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(id UNINDEXED, title, content, tokenize = 'trigram');
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_insert AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts (rowid, id, title, content)
+  VALUES (new.rowid, new.id, new.title, (SELECT text FROM article_contents WHERE id = new.id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_update AFTER UPDATE OF title ON articles WHEN new.title IS NOT old.title BEGIN
+  UPDATE articles_fts SET title = new.title WHERE rowid = new.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_delete AFTER DELETE ON articles BEGIN
+  DELETE FROM articles_fts WHERE rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS article_contents_fts_insert AFTER INSERT ON article_contents BEGIN
+  UPDATE articles_fts SET content = new.text
+  WHERE rowid = (SELECT rowid FROM articles WHERE id = new.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS article_contents_fts_update AFTER UPDATE OF text ON article_contents WHEN new.text IS NOT old.text BEGIN
+  UPDATE articles_fts SET content = new.text
+  WHERE rowid = (SELECT rowid FROM articles WHERE id = new.id);
+END;
+
+INSERT INTO articles_fts (rowid, id, title, content)
+SELECT a.rowid, a.id, a.title, c.text
+FROM articles a LEFT JOIN article_contents c ON c.id = a.id
+WHERE a.rowid NOT IN (SELECT rowid FROM articles_fts);
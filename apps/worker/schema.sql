@@ -3,6 +3,17 @@ CREATE TABLE IF NOT EXISTS accounts (
   token TEXT NOT NULL,
   name TEXT NOT NULL,
   status INTEGER NOT NULL DEFAULT 1,
+  blocked_until INTEGER NOT NULL DEFAULT 0,
+  block_reason TEXT,
+  block_error_code TEXT,
+  rate_limit_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at INTEGER NOT NULL DEFAULT 0,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  success_rate REAL NOT NULL DEFAULT 1,
+  daily_request_count INTEGER NOT NULL DEFAULT 0,
+  daily_request_date TEXT,
+  daily_quota INTEGER,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -16,6 +27,9 @@ CREATE TABLE IF NOT EXISTS feeds (
   sync_time INTEGER NOT NULL DEFAULT 0,
   update_time INTEGER NOT NULL,
   has_history INTEGER NOT NULL DEFAULT 1,
+  refresh_mode TEXT NOT NULL DEFAULT 'global',
+  refresh_interval INTEGER NOT NULL DEFAULT 0,
+  next_sync_at INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -26,6 +40,7 @@ CREATE TABLE IF NOT EXISTS articles (
   title TEXT NOT NULL,
   pic_url TEXT NOT NULL DEFAULT "",
   publish_time INTEGER NOT NULL,
+  status INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -34,3 +49,145 @@ CREATE INDEX IF NOT EXISTS idx_articles_mp_id_publish_time
   ON articles (mp_id, publish_time DESC);
 
 CREATE INDEX IF NOT EXISTS idx_feeds_status ON feeds (status);
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,
+  mp_id TEXT NOT NULL,
+  status INTEGER NOT NULL DEFAULT 0,
+  page INTEGER NOT NULL DEFAULT 1,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  run_at INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs (status, run_at);
+
+-- 分批加入更新队列的进度，name 为批次类型，cursor 为已处理的最后一个公众号 id
+CREATE TABLE IF NOT EXISTS sync_cursors (
+  name TEXT PRIMARY KEY,
+  cursor TEXT NOT NULL DEFAULT '',
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS request_budget (
+  window_start INTEGER PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS cache_versions (
+  key TEXT PRIMARY KEY,
+  version INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS article_contents (
+  id TEXT PRIMARY KEY,
+  raw_html TEXT,
+  clean_html TEXT,
+  text TEXT,
+  status INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_retry_at INTEGER NOT NULL DEFAULT 0,
+  fetched_at INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_contents_status_next_retry_at ON article_contents(status, next_retry_at);
+
+CREATE TABLE IF NOT EXISTS alert_feeds (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  keyword TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS feed_groups (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  sort INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS feed_group_feeds (
+  group_id TEXT NOT NULL,
+  mp_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (group_id, mp_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_group_feeds_mp_id ON feed_group_feeds(mp_id);
+
+-- 新文章的 webhook 通知，mp_ids、events 为逗号分隔，mp_ids 为空表示全部公众号
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  mp_ids TEXT NOT NULL DEFAULT '',
+  events TEXT NOT NULL DEFAULT '',
+  status INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- webhook 发送记录，status 0:待发送 1:成功 2:失败
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  webhook_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  error TEXT,
+  next_retry_at INTEGER NOT NULL DEFAULT 0,
+  delivered_at INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next_retry_at ON webhook_deliveries(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, id);
+
+-- 账号通知模板，未保存的事件使用默认模板
+CREATE TABLE IF NOT EXISTS notify_templates (
+  event TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- 全文搜索索引，rowid 与 articles 的 rowid 对应，由触发器同步
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(id UNINDEXED, title, content, tokenize = 'trigram');
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_insert AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts (rowid, id, title, content)
+  VALUES (new.rowid, new.id, new.title, (SELECT text FROM article_contents WHERE id = new.id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_update AFTER UPDATE OF title ON articles WHEN new.title IS NOT old.title BEGIN
+  UPDATE articles_fts SET title = new.title WHERE rowid = new.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_fts_delete AFTER DELETE ON articles BEGIN
+  DELETE FROM articles_fts WHERE rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS article_contents_fts_insert AFTER INSERT ON article_contents BEGIN
+  UPDATE articles_fts SET content = new.text
+  WHERE rowid = (SELECT rowid FROM articles WHERE id = new.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS article_contents_fts_update AFTER UPDATE OF text ON article_contents WHEN new.text IS NOT old.text BEGIN
+  UPDATE articles_fts SET content = new.text
+  WHERE rowid = (SELECT rowid FROM articles WHERE id = new.id);
+END;
@@ -1,15 +1,88 @@
-export const statusMap = {
-  INVALID: 0,
-  ENABLE: 1,
-  DISABLE: 2,
+// 与 Server 共用的常量
+export {
+  statusMap,
+  feedTypes,
+  feedMimeTypeMap,
+  defaultCount,
+  articleContentStatusMap,
+  articleStatusMap,
+  articleStatusLabelMap,
+  articleStatusKeywords,
+  contentPrefetch,
+  contentFailedMessage,
+  feedRefreshModes,
+  minRefreshInterval,
+  adaptiveRefresh,
+  accountBlockDurationMap,
+  rateLimitBackoff,
+  successRateWeight,
+  maxRetryAfterWait,
+  defaultAccountBlockDuration,
+  webhookEvents,
+  webhookPingEvent,
+  webhookDeliveryStatusMap,
+  webhookDelivery,
+  notifyEvents,
+  notifyTestEvent,
+} from '@wewe-rss/core';
+export type {
+  FeedType,
+  FeedRefreshMode,
+  WebhookEvent,
+  NotifyEvent,
+} from '@wewe-rss/core';
+
+export const feedCacheMaxAge = 5 * 60;
+
+export const feedCacheTtl = 60 * 60;
+
+// D1 单行最大 2MB，超出时不保存原始网页
+export const maxRawHtmlLength = 512 * 1024;
+
+export const jobStatusMap = {
+  QUEUED: 0,
+  RUNNING: 1,
+  DONE: 2,
+  FAILED: 3,
+} as const;
+
+export const jobTypes = {
+  REFRESH: 'refresh',
+  HISTORY: 'history',
 } as const;
 
-export const feedTypes = ['rss', 'atom', 'json'] as const;
+export type JobType = (typeof jobTypes)[keyof typeof jobTypes];
 
-export const feedMimeTypeMap = {
-  rss: 'application/rss+xml; charset=utf-8',
-  atom: 'application/atom+xml; charset=utf-8',
-  json: 'application/feed+json; charset=utf-8',
+export const maxJobAttempts = 3;
+
+// 历史文章最多获取的页数
+export const maxHistoryPage = 1000;
+
+/**
+ * 分批加入更新队列的批次类型：global 为 FEED_CRON 触发的全局更新，all 为手动更新全部
+ */
+export const syncCursorNames = {
+  GLOBAL: 'global',
+  ALL: 'all',
 } as const;
 
-export const defaultCount = 20;
+export type SyncCursorName =
+  (typeof syncCursorNames)[keyof typeof syncCursorNames];
+
+// 每次调度最多加入队列的公众号数量，控制单次调用的 D1 查询次数，剩余的由下一次 JOB_CRON 继续
+export const syncBatchSize = 20;
+
+// 备份文件格式版本，格式不兼容时递增
+export const backupVersion = 1;
+
+// 备份包含的数据，恢复时按此顺序导入
+export const backupSections = [
+  'accounts',
+  'feeds',
+  'feedGroups',
+  'alertFeeds',
+  'articles',
+  'articleContents',
+] as const;
+
+export type BackupSection = (typeof backupSections)[number];
@@ -1,3 +1,5 @@
+import { splitWebhookList } from '@wewe-rss/core';
+
 export type DbRow = Record<string, unknown>;
 
 export interface AccountRow extends DbRow {
@@ -5,6 +7,17 @@ export interface AccountRow extends DbRow {
   token: string;
   name: string;
   status: number;
+  blocked_until: number;
+  block_reason: string | null;
+  block_error_code: string | null;
+  rate_limit_count: number;
+  last_used_at: number;
+  request_count: number;
+  failure_count: number;
+  success_rate: number;
+  daily_request_count: number;
+  daily_request_date: string | null;
+  daily_quota: number | null;
   created_at: number;
   updated_at: number;
 }
@@ -18,6 +31,9 @@ export interface FeedRow extends DbRow {
   sync_time: number;
   update_time: number;
   has_history: number;
+  refresh_mode: string;
+  refresh_interval: number;
+  next_sync_at: number;
   created_at: number;
   updated_at: number;
 }
@@ -28,10 +44,95 @@ export interface ArticleRow extends DbRow {
   title: string;
   pic_url: string;
   publish_time: number;
+  status: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface JobRow extends DbRow {
+  id: number;
+  type: string;
+  mp_id: string;
+  status: number;
+  page: number;
+  attempts: number;
+  error: string | null;
+  run_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SyncCursorRow extends DbRow {
+  name: string;
+  cursor: string;
+  started_at: number;
+  finished_at: number;
+  updated_at: number;
+}
+
+export interface ArticleContentRow extends DbRow {
+  id: string;
+  raw_html: string | null;
+  clean_html: string | null;
+  text: string | null;
+  status: number;
+  error: string | null;
+  attempts: number;
+  next_retry_at: number;
+  fetched_at: number;
   created_at: number;
   updated_at: number;
 }
 
+export interface AlertFeedRow extends DbRow {
+  id: string;
+  name: string;
+  keyword: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface FeedGroupRow extends DbRow {
+  id: string;
+  name: string;
+  sort: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface WebhookRow extends DbRow {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  mp_ids: string;
+  events: string;
+  status: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface WebhookDeliveryRow extends DbRow {
+  id: number;
+  webhook_id: string;
+  event: string;
+  payload: string;
+  status: number;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_retry_at: number;
+  delivered_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface NotifyTemplateRow extends DbRow {
+  event: string;
+  title: string;
+  content: string;
+}
+
 export const nowMs = () => Date.now();
 
 export function toIso(ms: number) {
@@ -44,6 +145,17 @@ export function toAccountDto(row: AccountRow) {
     token: row.token,
     name: row.name,
     status: row.status,
+    blockedUntil: row.blocked_until,
+    blockReason: row.block_reason,
+    blockErrorCode: row.block_error_code,
+    rateLimitCount: row.rate_limit_count,
+    lastUsedAt: row.last_used_at,
+    requestCount: row.request_count,
+    failureCount: row.failure_count,
+    successRate: row.success_rate,
+    dailyRequestCount: row.daily_request_count,
+    dailyRequestDate: row.daily_request_date,
+    dailyQuota: row.daily_quota,
     createdAt: toIso(row.created_at),
     updatedAt: toIso(row.updated_at),
   };
@@ -54,6 +166,17 @@ export function toAccountPublicDto(row: AccountRow) {
     id: row.id,
     name: row.name,
     status: row.status,
+    blockedUntil: row.blocked_until,
+    blockReason: row.block_reason,
+    blockErrorCode: row.block_error_code,
+    rateLimitCount: row.rate_limit_count,
+    lastUsedAt: row.last_used_at,
+    requestCount: row.request_count,
+    failureCount: row.failure_count,
+    successRate: row.success_rate,
+    dailyRequestCount: row.daily_request_count,
+    dailyRequestDate: row.daily_request_date,
+    dailyQuota: row.daily_quota,
     createdAt: toIso(row.created_at),
     updatedAt: toIso(row.updated_at),
   };
@@ -69,6 +192,9 @@ export function toFeedDto(row: FeedRow) {
     syncTime: row.sync_time,
     updateTime: row.update_time,
     hasHistory: row.has_history,
+    refreshMode: row.refresh_mode,
+    refreshInterval: row.refresh_interval,
+    nextSyncAt: row.next_sync_at,
     createdAt: toIso(row.created_at),
     updatedAt: toIso(row.updated_at),
   };
@@ -81,6 +207,100 @@ export function toArticleDto(row: ArticleRow) {
     title: row.title,
     picUrl: row.pic_url,
     publishTime: row.publish_time,
+    status: row.status,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toJobDto(row: JobRow) {
+  return {
+    id: row.id,
+    type: row.type,
+    mpId: row.mp_id,
+    status: row.status,
+    page: row.page,
+    attempts: row.attempts,
+    error: row.error,
+    runAt: row.run_at,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toSyncCursorDto(row: SyncCursorRow) {
+  return {
+    name: row.name,
+    cursor: row.cursor,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toArticleContentDto(row: ArticleContentRow) {
+  return {
+    id: row.id,
+    rawHtml: row.raw_html,
+    cleanHtml: row.clean_html,
+    text: row.text,
+    status: row.status,
+    error: row.error,
+    attempts: row.attempts,
+    nextRetryAt: row.next_retry_at,
+    fetchedAt: row.fetched_at,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toAlertFeedDto(row: AlertFeedRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyword: row.keyword,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toWebhookDto(row: WebhookRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    secret: row.secret,
+    mpIds: splitWebhookList(row.mp_ids),
+    events: splitWebhookList(row.events),
+    status: row.status,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toWebhookDeliveryDto(row: WebhookDeliveryRow) {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    nextRetryAt: row.next_retry_at,
+    deliveredAt: row.delivered_at,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export function toFeedGroupDto(row: FeedGroupRow, mpIds: string[]) {
+  return {
+    id: row.id,
+    name: row.name,
+    sort: row.sort,
+    mpIds,
     createdAt: toIso(row.created_at),
     updatedAt: toIso(row.updated_at),
   };
@@ -1,19 +1,32 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { FeedError } from '@wewe-rss/core';
+import type { FeedOptions } from '@wewe-rss/core';
 import type { Env } from './types';
 import { appRouter } from './trpc/router';
 import { createContext } from './trpc/context';
 import {
+  generateFeedWithCache,
+  getFeedCacheHeaders,
   getFeedListResponse,
-  handleGenerateFeed,
+  getOpml,
   handleUpdateFeedsCron,
+  processContentQueue,
   updateFeedOnce,
 } from './services/feeds';
 import {
   handleAccountCheckCron,
-  testWebhookNotification,
+  testNotification,
 } from './services/account-check';
+import {
+  enqueueScheduledFeeds,
+  processJobQueue,
+  resumeHistoryBackfills,
+} from './services/trpc-service';
+import { processWebhookQueue } from './services/webhooks';
+
+export { HistoryBackfill } from './services/history-backfill';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -34,15 +47,36 @@ app.get('/feeds', async (c) => {
 });
 
 function getFeedErrorResponse(error: unknown) {
-  const message =
-    error instanceof Error ? error.message : 'Failed to generate feed';
-  if (message.includes('不存在该feed')) {
-    return new Response('Feed not found', { status: 404 });
+  if (error instanceof FeedError) {
+    return error.message.includes('不存在该feed')
+      ? new Response('Feed not found', { status: 404 })
+      : new Response('Missing search keyword', { status: 400 });
   }
   console.error('[feeds] error generating feed:', error);
   return new Response('Internal Server Error', { status: 500 });
 }
 
+async function renderFeedResponse(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  opts: FeedOptions,
+) {
+  const { headers, notModified } = await getFeedCacheHeaders(
+    env,
+    request,
+    opts,
+  );
+  if (notModified) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const { content, mimeType } = await generateFeedWithCache(env, ctx, opts);
+  return new Response(content, {
+    headers: { ...headers, 'Content-Type': mimeType },
+  });
+}
+
 app.get('/feeds/all.:type', async (c) => {
   try {
     const type = c.req.param('type');
@@ -51,18 +85,141 @@ app.get('/feeds/all.:type', async (c) => {
     const mode = c.req.query('mode');
     const titleInclude = c.req.query('title_include');
     const titleExclude = c.req.query('title_exclude');
+    const removed = c.req.query('removed');
+
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
+      type,
+      limit,
+      page,
+      mode: mode || undefined,
+      title_include: titleInclude || undefined,
+      title_exclude: titleExclude || undefined,
+      removed: removed || undefined,
+    });
+  } catch (error) {
+    return getFeedErrorResponse(error);
+  }
+});
+
+app.get('/feeds/opml', async (c) => {
+  const content = await getOpml(c.env, {
+    type: c.req.query('type') || 'atom',
+    originUrl: new URL(c.req.url).origin,
+  });
+  return new Response(content, {
+    headers: {
+      'Content-Type': 'text/x-opml; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="WeWeRSS-All.opml"',
+    },
+  });
+});
+
+app.get('/feeds/merge.:type', async (c) => {
+  try {
+    const type = c.req.param('type') || '';
+    const ids = c.req.query('ids') ?? '';
+    const limit = Number(c.req.query('limit') ?? '30');
+    const page = Number(c.req.query('page') ?? '1');
+    const mode = c.req.query('mode');
+    const titleInclude = c.req.query('title_include');
+    const titleExclude = c.req.query('title_exclude');
+    const removed = c.req.query('removed');
+    const mpIds = [
+      ...new Set(
+        ids
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean),
+      ),
+    ];
+
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
+      mpIds,
+      type,
+      limit,
+      page,
+      mode: mode || undefined,
+      title_include: titleInclude || undefined,
+      title_exclude: titleExclude || undefined,
+      removed: removed || undefined,
+    });
+  } catch (error) {
+    return getFeedErrorResponse(error);
+  }
+});
+
+app.get('/feeds/group/:feed', async (c) => {
+  try {
+    const feed = c.req.param('feed');
+    const [groupId, type] = feed.split('.');
+    const limit = Number(c.req.query('limit') ?? '30');
+    const page = Number(c.req.query('page') ?? '1');
+    const mode = c.req.query('mode');
+    const titleInclude = c.req.query('title_include');
+    const titleExclude = c.req.query('title_exclude');
+    const removed = c.req.query('removed');
+
+    if (!groupId) {
+      return new Response('Feed not found', { status: 404 });
+    }
 
-    const { content, mimeType } = await handleGenerateFeed(c.env, {
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
+      groupId,
       type,
       limit,
       page,
       mode: mode || undefined,
       title_include: titleInclude || undefined,
       title_exclude: titleExclude || undefined,
+      removed: removed || undefined,
     });
+  } catch (error) {
+    return getFeedErrorResponse(error);
+  }
+});
+
+app.get('/feeds/search.:type', async (c) => {
+  try {
+    const type = c.req.param('type') || '';
+    const keyword = c.req.query('q') ?? '';
+    const limit = Number(c.req.query('limit') ?? '30');
+    const page = Number(c.req.query('page') ?? '1');
+    const mode = c.req.query('mode');
+    const removed = c.req.query('removed');
+
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
+      keyword,
+      type,
+      limit,
+      page,
+      mode: mode || undefined,
+      removed: removed || undefined,
+    });
+  } catch (error) {
+    return getFeedErrorResponse(error);
+  }
+});
+
+app.get('/feeds/alert/:feed', async (c) => {
+  try {
+    const feed = c.req.param('feed');
+    const [alertId, type] = feed.split('.');
+    const limit = Number(c.req.query('limit') ?? '30');
+    const page = Number(c.req.query('page') ?? '1');
+    const mode = c.req.query('mode');
+    const removed = c.req.query('removed');
+
+    if (!alertId) {
+      return new Response('Feed not found', { status: 404 });
+    }
 
-    return new Response(content, {
-      headers: { 'Content-Type': mimeType },
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
+      alertId,
+      type,
+      limit,
+      page,
+      mode: mode || undefined,
+      removed: removed || undefined,
     });
   } catch (error) {
     return getFeedErrorResponse(error);
@@ -78,6 +235,7 @@ app.get('/feeds/:feed', async (c) => {
     const mode = c.req.query('mode');
     const titleInclude = c.req.query('title_include');
     const titleExclude = c.req.query('title_exclude');
+    const removed = c.req.query('removed');
     const update = c.req.query('update') === 'true';
 
     if (!id) {
@@ -85,17 +243,14 @@ app.get('/feeds/:feed', async (c) => {
     }
 
     if (id === 'all') {
-      const { content, mimeType } = await handleGenerateFeed(c.env, {
+      return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
         type,
         limit,
         page,
         mode: mode || undefined,
         title_include: titleInclude || undefined,
         title_exclude: titleExclude || undefined,
-      });
-
-      return new Response(content, {
-        headers: { 'Content-Type': mimeType },
+        removed: removed || undefined,
       });
     }
 
@@ -103,7 +258,7 @@ app.get('/feeds/:feed', async (c) => {
       c.executionCtx.waitUntil(updateFeedOnce(c.env, id));
     }
 
-    const { content, mimeType } = await handleGenerateFeed(c.env, {
+    return await renderFeedResponse(c.req.raw, c.env, c.executionCtx, {
       id,
       type,
       limit,
@@ -111,10 +266,7 @@ app.get('/feeds/:feed', async (c) => {
       mode: mode || undefined,
       title_include: titleInclude || undefined,
       title_exclude: titleExclude || undefined,
-    });
-
-    return new Response(content, {
-      headers: { 'Content-Type': mimeType },
+      removed: removed || undefined,
     });
   } catch (error) {
     return getFeedErrorResponse(error);
@@ -124,8 +276,8 @@ app.get('/feeds/:feed', async (c) => {
 app.get('/test-webhook', async (c) => {
   const debug = c.req.query('debug') === 'true';
   try {
-    await testWebhookNotification(c.env);
-    return c.json({ success: true, message: '测试webhook通知已发送' });
+    await testNotification(c.env);
+    return c.json({ success: true, message: '测试通知已发送' });
   } catch (error) {
     const message =
       error instanceof Error ? error.message : 'Test webhook failed';
@@ -136,22 +288,34 @@ app.get('/test-webhook', async (c) => {
   }
 });
 
-const trpcHandler = (req: Request, env: Env) =>
+const trpcHandler = (req: Request, env: Env, ctx: ExecutionContext) =>
   fetchRequestHandler({
     endpoint: '/trpc',
     req,
     router: appRouter,
-    createContext: () => createContext(env, req),
+    createContext: () =>
+      createContext(env, req, (promise) => ctx.waitUntil(promise)),
   });
 
-app.all('/trpc', (c) => trpcHandler(c.req.raw, c.env));
-app.all('/trpc/*', (c) => trpcHandler(c.req.raw, c.env));
+app.all('/trpc', (c) => trpcHandler(c.req.raw, c.env, c.executionCtx));
+app.all('/trpc/*', (c) => trpcHandler(c.req.raw, c.env, c.executionCtx));
 
 export default {
   fetch: app.fetch,
   scheduled: (event: ScheduledEvent, env: Env, ctx: ExecutionContext) => {
     const feedCron = env.FEED_CRON ?? '35 5,17 * * *';
     const accountCron = env.ACCOUNT_CHECK_CRON ?? '0 2,14 * * *';
+    const jobCron = env.JOB_CRON ?? '* * * * *';
+
+    if (event.cron === jobCron) {
+      ctx.waitUntil(
+        enqueueScheduledFeeds(env).then(() => processJobQueue(env)),
+      );
+      ctx.waitUntil(processContentQueue(env));
+      ctx.waitUntil(resumeHistoryBackfills(env));
+      ctx.waitUntil(processWebhookQueue(env));
+      return;
+    }
 
     if (event.cron === accountCron) {
       ctx.waitUntil(handleAccountCheckCron(env));
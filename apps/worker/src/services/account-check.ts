@@ -1,21 +1,15 @@
 import type { Env } from '../types';
-import { statusMap } from '../constants';
+import { notifyEvents, notifyTestEvent, statusMap } from '../constants';
 import {
   listInvalidAccountsWithTokens,
   listEnabledFeeds,
   updateAccount,
 } from './db-queries';
+import { createNotifyMessage, sendNotify } from './notify';
 import { createLoginUrl, getLoginResult, removeBlockedAccount } from './trpc-service';
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-function getWebhookUrl(env: Env) {
-  return (
-    env.ACCOUNT_CHECK_WEBHOOK_URL ??
-    'https://oapi.dingtalk.com/robot/send?access_token=f9612510b343e6d8bffc60b2a0d7168593b1bb93e55a75a1a1e0dd2c80555c40'
-  );
-}
-
 async function fetchJson<T>(
   env: Env,
   path: string,
@@ -68,63 +62,6 @@ export function getQrCodeImageUrl(url: string) {
   return `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encoded}`;
 }
 
-export async function sendWebhookNotification(
-  env: Env,
-  accountId: string,
-  accountName: string,
-  qrCodeUrl: string,
-  scanUrl: string,
-  loginId: string,
-) {
-  const webhookUrl = getWebhookUrl(env);
-  const beijingTime = new Date().toLocaleString('zh-CN', {
-    timeZone: 'Asia/Shanghai',
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-  });
-
-  const qrSection = qrCodeUrl
-    ? `![登录二维码](${qrCodeUrl})\n\n`
-    : '';
-
-  const markdownText = `## 微信读书账号失效通知
-
-**账号信息：**
-- 账号ID：\`${accountId}\`
-- 账号名称：${accountName}
-- 失效时间：${beijingTime}
-
-**请扫描以下二维码重新登录微信账号：**
-
-${qrSection}
-
-**二维码链接：** ${scanUrl}
-
-**登录ID：** \`${loginId}\`
-
-**或直接访问：** [点击这里打开二维码](${scanUrl})
-
-> 请尽快重新登录微信账号，以免影响服务使用。`;
-
-  const payload = {
-    msgtype: 'markdown',
-    markdown: {
-      title: '微信读书账号失效通知',
-      text: markdownText,
-    },
-  };
-
-  await fetch(webhookUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  });
-}
-
 export async function checkAndHandleAccount(env: Env, account: {
   id: string;
   name: string;
@@ -139,14 +76,15 @@ export async function checkAndHandleAccount(env: Env, account: {
   await updateAccount(env.DB, account.id, { status: statusMap.INVALID });
 
   const loginData = await createLoginUrl(env);
-  const qrCodeUrl = getQrCodeImageUrl(loginData.scanUrl);
-  await sendWebhookNotification(
+  await sendNotify(
     env,
-    account.id,
-    account.name,
-    qrCodeUrl,
-    loginData.scanUrl,
-    loginData.uuid,
+    await createNotifyMessage(env, notifyEvents.ACCOUNT_INVALID, {
+      accountId: account.id,
+      accountName: account.name,
+      scanUrl: loginData.scanUrl,
+      qrCodeUrl: getQrCodeImageUrl(loginData.scanUrl),
+      loginId: loginData.uuid,
+    }),
   );
 
   await tryRefreshAccountFromLogin(env, account, loginData.uuid);
@@ -169,7 +107,14 @@ async function tryRefreshAccountFromLogin(
             name: loginResult.username || account.name,
             status: statusMap.ENABLE,
           });
-          removeBlockedAccount(account.id);
+          await removeBlockedAccount(env, account.id);
+          await sendNotify(
+            env,
+            await createNotifyMessage(env, notifyEvents.ACCOUNT_RESTORED, {
+              accountId: account.id,
+              accountName: loginResult.username || account.name,
+            }),
+          );
         }
         return;
       }
@@ -188,15 +133,30 @@ export async function handleAccountCheckCron(env: Env) {
   }
 }
 
-export async function testWebhookNotification(env: Env) {
+/**
+ * 向所有通知渠道发送一条测试通知，没有渠道发送成功时抛出错误
+ */
+export async function testNotification(env: Env) {
   const loginData = await createLoginUrl(env);
-  const qrCodeUrl = getQrCodeImageUrl(loginData.scanUrl);
-  await sendWebhookNotification(
+  const message = await createNotifyMessage(
     env,
-    'TEST_ACCOUNT_ID',
-    '测试微信账号',
-    qrCodeUrl,
-    loginData.scanUrl,
-    loginData.uuid,
+    notifyEvents.ACCOUNT_INVALID,
+    {
+      accountId: 'TEST_ACCOUNT_ID',
+      accountName: '测试微信账号',
+      scanUrl: loginData.scanUrl,
+      qrCodeUrl: getQrCodeImageUrl(loginData.scanUrl),
+      loginId: loginData.uuid,
+    },
   );
+  const results = await sendNotify(env, { ...message, event: notifyTestEvent });
+
+  if (results.length === 0) {
+    throw new Error('No notify channels, set NOTIFY_CHANNELS first');
+  }
+  if (results.every(({ error }) => error)) {
+    throw new Error(
+      results.map(({ channel, error }) => `${channel}: ${error}`).join('; '),
+    );
+  }
 }
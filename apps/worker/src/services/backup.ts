@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { maxRawHtmlLength, statusMap } from '../constants';
+import type { BackupSection } from '../constants';
+import {
+  nowMs,
+  toAlertFeedDto,
+  toArticleContentDto,
+  toArticleDto,
+  toFeedDto,
+  toFeedGroupDto,
+} from '../db';
+import type {
+  AccountRow,
+  AlertFeedRow,
+  ArticleContentRow,
+  ArticleRow,
+  FeedGroupRow,
+  FeedRow,
+} from '../db';
+import { bumpCacheVersions } from './db-queries';
+
+// 备份文件中每类数据的字段，与 Docker 版本一致，只包含迁移实例需要的数据
+const timestamps = {
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date().nullish(),
+};
+
+const backupRecordSchemas = {
+  accounts: z.object({
+    id: z.string(),
+    // 导出时不包含 token 则为空
+    token: z.string(),
+    name: z.string(),
+    status: z.number().int(),
+    dailyQuota: z.number().int().nullish(),
+    ...timestamps,
+  }),
+  feeds: z.object({
+    id: z.string(),
+    mpName: z.string(),
+    mpCover: z.string(),
+    mpIntro: z.string(),
+    status: z.number().int(),
+    syncTime: z.number().int(),
+    updateTime: z.number().int(),
+    hasHistory: z.number().int().nullish(),
+    refreshMode: z.string(),
+    refreshInterval: z.number().int(),
+    ...timestamps,
+  }),
+  feedGroups: z.object({
+    id: z.string(),
+    name: z.string(),
+    sort: z.number().int(),
+    mpIds: z.array(z.string()),
+    ...timestamps,
+  }),
+  alertFeeds: z.object({
+    id: z.string(),
+    name: z.string(),
+    keyword: z.string(),
+    ...timestamps,
+  }),
+  articles: z.object({
+    id: z.string(),
+    mpId: z.string(),
+    title: z.string(),
+    picUrl: z.string(),
+    publishTime: z.number().int(),
+    status: z.number().int(),
+    ...timestamps,
+  }),
+  articleContents: z.object({
+    id: z.string(),
+    rawHtml: z.string().nullish(),
+    cleanHtml: z.string().nullish(),
+    text: z.string().nullish(),
+    status: z.number().int(),
+    error: z.string().nullish(),
+    attempts: z.number().int(),
+    nextRetryAt: z.number().int(),
+    fetchedAt: z.number().int(),
+    ...timestamps,
+  }),
+};
+
+const tableMap: Record<BackupSection, string> = {
+  accounts: 'accounts',
+  feeds: 'feeds',
+  feedGroups: 'feed_groups',
+  alertFeeds: 'alert_feeds',
+  articles: 'articles',
+  articleContents: 'article_contents',
+};
+
+function parse<T extends BackupSection>(section: T, items: unknown[]) {
+  return backupRecordSchemas[section].array().parse(items) as z.infer<
+    (typeof backupRecordSchemas)[T]
+  >[];
+}
+
+const toMs = (createdAt: Date, updatedAt?: Date | null) => ({
+  createdAt: createdAt.getTime(),
+  updatedAt: (updatedAt ?? createdAt).getTime(),
+});
+
+/**
+ * 按 id 顺序分页导出一类数据
+ */
+export async function exportSection(
+  db: D1Database,
+  opts: {
+    section: BackupSection;
+    cursor?: string | null;
+    limit: number;
+    includeTokens: boolean;
+  },
+) {
+  const where = opts.cursor ? ' WHERE id > ?' : '';
+  const rows = await db
+    .prepare(
+      `SELECT * FROM ${tableMap[opts.section]}${where} ORDER BY id ASC LIMIT ?`,
+    )
+    .bind(...(opts.cursor ? [opts.cursor] : []), opts.limit + 1)
+    .all<Record<string, unknown>>();
+
+  let items: { id: string }[];
+  switch (opts.section) {
+    case 'accounts':
+      items = (rows.results as AccountRow[]).map((row) => ({
+        id: row.id,
+        token: opts.includeTokens ? row.token : '',
+        name: row.name,
+        status: row.status,
+        dailyQuota: row.daily_quota,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+      }));
+      break;
+    case 'feeds':
+      // 不导出下次更新时间，导入后重新计算
+      items = (rows.results as FeedRow[]).map((row) => ({
+        ...toFeedDto(row),
+        nextSyncAt: undefined,
+      }));
+      break;
+    case 'feedGroups': {
+      const groups = rows.results as FeedGroupRow[];
+      const members = groups.length
+        ? await db
+            .prepare(
+              `SELECT group_id, mp_id FROM feed_group_feeds
+               WHERE group_id IN (${groups.map(() => '?').join(', ')})
+               ORDER BY created_at ASC`,
+            )
+            .bind(...groups.map((row) => row.id))
+            .all<{ group_id: string; mp_id: string }>()
+        : { results: [] };
+      items = groups.map((row) =>
+        toFeedGroupDto(
+          row,
+          members.results
+            .filter((member) => member.group_id === row.id)
+            .map((member) => member.mp_id),
+        ),
+      );
+      break;
+    }
+    case 'alertFeeds':
+      items = (rows.results as AlertFeedRow[]).map((row) => toAlertFeedDto(row));
+      break;
+    case 'articles':
+      items = (rows.results as ArticleRow[]).map((row) => toArticleDto(row));
+      break;
+    case 'articleContents':
+      items = (rows.results as ArticleContentRow[]).map((row) =>
+        toArticleContentDto(row),
+      );
+      break;
+  }
+
+  let nextCursor: string | undefined;
+  if (items.length > opts.limit) {
+    items.pop();
+    nextCursor = items[items.length - 1].id;
+  }
+  return { items, nextCursor };
+}
+
+/**
+ * 统计每类数据的记录数，用于迁移后校验
+ */
+export async function countSections(db: D1Database) {
+  const counts = {} as Record<BackupSection, number>;
+  for (const [section, table] of Object.entries(tableMap)) {
+    const row = await db
+      .prepare(`SELECT COUNT(*) AS count FROM ${table}`)
+      .first<{ count: number }>();
+    counts[section as BackupSection] = row?.count ?? 0;
+  }
+  return counts;
+}
+
+/**
+ * 导入一批数据，已存在的记录会被覆盖，返回导入的数量
+ */
+export async function restoreSection(
+  db: D1Database,
+  section: BackupSection,
+  items: unknown[],
+) {
+  const statements: D1PreparedStatement[] = [];
+  // 导入后需要失效的订阅源缓存
+  const cacheKeys = new Set<string>();
+
+  switch (section) {
+    case 'accounts':
+      for (const item of parse('accounts', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        statements.push(
+          item.token
+            ? db
+                .prepare(
+                  `INSERT INTO accounts (id, token, name, status, daily_quota, created_at, updated_at)
+                   VALUES (?, ?, ?, ?, ?, ?, ?)
+                   ON CONFLICT(id) DO UPDATE SET
+                     token = excluded.token,
+                     name = excluded.name,
+                     status = excluded.status,
+                     daily_quota = excluded.daily_quota,
+                     updated_at = excluded.updated_at`,
+                )
+                .bind(
+                  item.id,
+                  item.token,
+                  item.name,
+                  item.status,
+                  item.dailyQuota ?? null,
+                  createdAt,
+                  updatedAt,
+                )
+            : // 备份不包含 token 时保留已有账号的 token，新账号需要重新扫码登录
+              db
+                .prepare(
+                  `INSERT INTO accounts (id, token, name, status, daily_quota, created_at, updated_at)
+                   VALUES (?, '', ?, ?, ?, ?, ?)
+                   ON CONFLICT(id) DO UPDATE SET
+                     name = excluded.name,
+                     status = ?,
+                     daily_quota = excluded.daily_quota,
+                     updated_at = excluded.updated_at`,
+                )
+                .bind(
+                  item.id,
+                  item.name,
+                  statusMap.INVALID,
+                  item.dailyQuota ?? null,
+                  createdAt,
+                  updatedAt,
+                  item.status,
+                ),
+        );
+      }
+      break;
+    case 'feeds':
+      for (const item of parse('feeds', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO feeds (id, mp_name, mp_cover, mp_intro, status, sync_time,
+                 update_time, has_history, refresh_mode, refresh_interval, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT(id) DO UPDATE SET
+                 mp_name = excluded.mp_name,
+                 mp_cover = excluded.mp_cover,
+                 mp_intro = excluded.mp_intro,
+                 status = excluded.status,
+                 sync_time = excluded.sync_time,
+                 update_time = excluded.update_time,
+                 has_history = excluded.has_history,
+                 refresh_mode = excluded.refresh_mode,
+                 refresh_interval = excluded.refresh_interval,
+                 updated_at = excluded.updated_at`,
+            )
+            .bind(
+              item.id,
+              item.mpName,
+              item.mpCover,
+              item.mpIntro,
+              item.status,
+              item.syncTime,
+              item.updateTime,
+              item.hasHistory ?? 1,
+              item.refreshMode,
+              item.refreshInterval,
+              createdAt,
+              updatedAt,
+            ),
+        );
+        cacheKeys.add(item.id);
+      }
+      break;
+    case 'feedGroups':
+      for (const item of parse('feedGroups', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO feed_groups (id, name, sort, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?)
+               ON CONFLICT(id) DO UPDATE SET
+                 name = excluded.name,
+                 sort = excluded.sort,
+                 updated_at = excluded.updated_at`,
+            )
+            .bind(item.id, item.name, item.sort, createdAt, updatedAt),
+          db
+            .prepare('DELETE FROM feed_group_feeds WHERE group_id = ?')
+            .bind(item.id),
+          ...[...new Set(item.mpIds)].map((mpId) =>
+            db
+              .prepare(
+                'INSERT INTO feed_group_feeds (group_id, mp_id, created_at) VALUES (?, ?, ?)',
+              )
+              .bind(item.id, mpId, nowMs()),
+          ),
+        );
+        cacheKeys.add(`group/${item.id}`);
+      }
+      break;
+    case 'alertFeeds':
+      for (const item of parse('alertFeeds', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO alert_feeds (id, name, keyword, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?)
+               ON CONFLICT(id) DO UPDATE SET
+                 name = excluded.name,
+                 keyword = excluded.keyword,
+                 updated_at = excluded.updated_at`,
+            )
+            .bind(item.id, item.name, item.keyword, createdAt, updatedAt),
+        );
+        cacheKeys.add(`alert/${item.id}`);
+      }
+      break;
+    case 'articles':
+      for (const item of parse('articles', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO articles (id, mp_id, title, pic_url, publish_time, status, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT(id) DO UPDATE SET
+                 mp_id = excluded.mp_id,
+                 title = excluded.title,
+                 pic_url = excluded.pic_url,
+                 publish_time = excluded.publish_time,
+                 status = excluded.status,
+                 updated_at = excluded.updated_at`,
+            )
+            .bind(
+              item.id,
+              item.mpId,
+              item.title,
+              item.picUrl,
+              item.publishTime,
+              item.status,
+              createdAt,
+              updatedAt,
+            ),
+        );
+        cacheKeys.add(item.mpId);
+      }
+      break;
+    case 'articleContents':
+      for (const item of parse('articleContents', items)) {
+        const { createdAt, updatedAt } = toMs(item.createdAt, item.updatedAt);
+        const rawHtml =
+          item.rawHtml && item.rawHtml.length <= maxRawHtmlLength
+            ? item.rawHtml
+            : null;
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO article_contents (id, raw_html, clean_html, text, status, error,
+                 attempts, next_retry_at, fetched_at, created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT(id) DO UPDATE SET
+                 raw_html = excluded.raw_html,
+                 clean_html = excluded.clean_html,
+                 text = excluded.text,
+                 status = excluded.status,
+                 error = excluded.error,
+                 attempts = excluded.attempts,
+                 next_retry_at = excluded.next_retry_at,
+                 fetched_at = excluded.fetched_at,
+                 updated_at = excluded.updated_at`,
+            )
+            .bind(
+              item.id,
+              rawHtml,
+              item.cleanHtml ?? null,
+              item.text ?? null,
+              item.status,
+              item.error ?? null,
+              item.attempts,
+              item.nextRetryAt,
+              item.fetchedAt,
+              createdAt,
+              updatedAt,
+            ),
+        );
+      }
+      break;
+  }
+
+  if (statements.length) {
+    await db.batch(statements);
+  }
+  if (cacheKeys.size) {
+    await bumpCacheVersions(db, [...cacheKeys, 'all']);
+  }
+  return items.length;
+}
@@ -0,0 +1,195 @@
+import type {
+  AccountBlock,
+  ArticleContentData,
+  CoreStore,
+  MpArticle,
+  WebhookDeliveryResult,
+} from '@wewe-rss/core';
+import { statusMap } from '../constants';
+import {
+  bumpCacheVersions,
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  enqueueArticleContents,
+  getAlertFeedById,
+  getAllArticles,
+  getArticleContent,
+  getArticleContents,
+  getArticlesByGroupId,
+  getArticlesByIds,
+  getArticlesByMpIds,
+  getAvailableAccounts,
+  getFeedById,
+  getFeedGroupById,
+  getRecentPublishTimes,
+  incrementAccountRateLimit,
+  listActiveWebhooks,
+  listAllFeeds,
+  listDueWebhookDeliveries,
+  markAccountUsed,
+  recordAccountResult,
+  setAccountBlock,
+  touchArticle,
+  updateAccount,
+  updateFeed,
+  updateWebhookDelivery,
+  upsertArticleContent,
+  upsertArticles,
+} from './db-queries';
+import { searchArticles } from './search';
+
+/**
+ * @wewe-rss/core 的 D1 存储实现，订阅源缓存通过缓存版本号失效
+ */
+export class D1Store implements CoreStore {
+  constructor(private readonly db: D1Database) {}
+
+  getFeed(id: string) {
+    return getFeedById(this.db, id);
+  }
+
+  async listFeeds(ids?: string[]) {
+    const feeds = await listAllFeeds(this.db);
+    return ids ? feeds.filter((feed) => ids.includes(feed.id)) : feeds;
+  }
+
+  getFeedGroup(id: string) {
+    return getFeedGroupById(this.db, id);
+  }
+
+  getAlertFeed(id: string) {
+    return getAlertFeedById(this.db, id);
+  }
+
+  listArticles(query: {
+    mpIds?: string[];
+    groupId?: string;
+    limit: number;
+    offset: number;
+    hideRemoved: boolean;
+  }) {
+    if (query.groupId) {
+      return getArticlesByGroupId(
+        this.db,
+        query.groupId,
+        query.limit,
+        query.offset,
+        query.hideRemoved,
+      );
+    }
+    return query.mpIds
+      ? getArticlesByMpIds(
+          this.db,
+          query.mpIds,
+          query.limit,
+          query.offset,
+          query.hideRemoved,
+        )
+      : getAllArticles(this.db, query.limit, query.offset, query.hideRemoved);
+  }
+
+  getArticlesByIds(ids: string[], hideRemoved: boolean) {
+    return getArticlesByIds(this.db, ids, hideRemoved);
+  }
+
+  async searchArticleIds(query: {
+    keyword: string;
+    limit: number;
+    offset: number;
+  }) {
+    const { items } = await searchArticles(this.db, { ...query, latest: true });
+    return items.map((item) => item.id);
+  }
+
+  getArticleContents(ids: string[]) {
+    return getArticleContents(this.db, ids);
+  }
+
+  enqueueArticleContents(ids: string[]) {
+    return enqueueArticleContents(this.db, ids);
+  }
+
+  getArticleContent(id: string) {
+    return getArticleContent(this.db, id);
+  }
+
+  async upsertArticleContent(id: string, data: ArticleContentData) {
+    await upsertArticleContent(this.db, id, data);
+  }
+
+  touchArticle(id: string, status: number) {
+    return touchArticle(this.db, id, status);
+  }
+
+  /**
+   * 订阅源缓存按版本号区分，更新版本号即可让旧缓存失效；全部文章的订阅源一并失效
+   */
+  invalidateFeed(mpId: string) {
+    return bumpCacheVersions(this.db, [mpId, 'all']);
+  }
+
+  listAvailableAccounts() {
+    return getAvailableAccounts(this.db);
+  }
+
+  markAccountUsed(id: string, today: string) {
+    return markAccountUsed(this.db, id, today);
+  }
+
+  recordAccountResult(id: string, success: boolean, successRate: number) {
+    return recordAccountResult(this.db, id, success, successRate);
+  }
+
+  async invalidateAccount(id: string) {
+    await updateAccount(this.db, id, { status: statusMap.INVALID });
+  }
+
+  incrementRateLimit(id: string) {
+    return incrementAccountRateLimit(this.db, id);
+  }
+
+  setAccountBlock(id: string, block: AccountBlock) {
+    return setAccountBlock(this.db, id, block);
+  }
+
+  saveArticles(mpId: string, articles: MpArticle[]) {
+    return upsertArticles(this.db, mpId, articles);
+  }
+
+  getFeedSchedule(id: string) {
+    return getFeedById(this.db, id);
+  }
+
+  getRecentPublishTimes(mpId: string, limit: number) {
+    return getRecentPublishTimes(this.db, mpId, limit);
+  }
+
+  async updateFeedSync(
+    mpId: string,
+    data: { syncTime: number; hasHistory: number; nextSyncAt?: number },
+  ) {
+    await updateFeed(this.db, mpId, data);
+  }
+
+  listActiveWebhooks() {
+    return listActiveWebhooks(this.db);
+  }
+
+  createWebhookDeliveries(
+    items: { webhookId: string; event: string; payload: string }[],
+  ) {
+    return createWebhookDeliveries(this.db, items);
+  }
+
+  listDueWebhookDeliveries(now: number, limit: number) {
+    return listDueWebhookDeliveries(this.db, now, limit);
+  }
+
+  claimWebhookDelivery(id: number, nextRetryAt: number, leaseUntil: number) {
+    return claimWebhookDelivery(this.db, id, nextRetryAt, leaseUntil);
+  }
+
+  updateWebhookDelivery(id: number, result: WebhookDeliveryResult) {
+    return updateWebhookDelivery(this.db, id, result);
+  }
+}
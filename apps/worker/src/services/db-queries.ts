@@ -1,23 +1,54 @@
 import {
   nowMs,
   toAccountDto,
+  toAlertFeedDto,
+  toFeedGroupDto,
+  toArticleContentDto,
   toAccountPublicDto,
   toArticleDto,
   toFeedDto,
+  toJobDto,
+  toSyncCursorDto,
+  toWebhookDeliveryDto,
+  toWebhookDto,
 } from '../db';
-import type { AccountRow, ArticleRow, FeedRow } from '../db';
-import { statusMap } from '../constants';
+import type {
+  AccountRow,
+  AlertFeedRow,
+  FeedGroupRow,
+  ArticleContentRow,
+  ArticleRow,
+  FeedRow,
+  JobRow,
+  NotifyTemplateRow,
+  SyncCursorRow,
+  WebhookDeliveryRow,
+  WebhookRow,
+} from '../db';
+import {
+  articleContentStatusMap,
+  articleStatusMap,
+  feedRefreshModes,
+  jobStatusMap,
+  jobTypes,
+  statusMap,
+  webhookDeliveryStatusMap,
+} from '../constants';
+import type { JobType, SyncCursorName } from '../constants';
 
-function buildNotInClause(values: string[]) {
-  if (values.length === 0) {
-    return { clause: '', params: [] as string[] };
-  }
+const nowSeconds = () => Math.floor(Date.now() / 1e3);
 
-  const placeholders = values.map(() => '?').join(',');
-  return {
-    clause: ` AND id NOT IN (${placeholders})`,
-    params: values,
-  };
+/**
+ * D1 单条查询最多绑定 100 个参数，按 id 查询时分批执行，留一个参数给其他条件
+ */
+const maxBoundIds = 99;
+
+function chunkIds(ids: string[]) {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += maxBoundIds) {
+    chunks.push(ids.slice(i, i + maxBoundIds));
+  }
+  return chunks;
 }
 
 async function getCreatedAtCursor(
@@ -62,7 +93,10 @@ export async function listAccounts(
 
   const rows = await db
     .prepare(
-      `SELECT id, name, status, token, created_at, updated_at
+      `SELECT id, name, status, token, blocked_until, block_reason,
+         block_error_code, rate_limit_count, last_used_at, request_count,
+         failure_count, success_rate, daily_request_count, daily_request_date,
+         daily_quota, created_at, updated_at
        FROM accounts${where}
        ORDER BY created_at ASC, id ASC
        LIMIT ?`,
@@ -100,7 +134,8 @@ export async function listFeeds(
   const rows = await db
     .prepare(
       `SELECT id, mp_name, mp_cover, mp_intro, status, sync_time, update_time,
-         has_history, created_at, updated_at
+         has_history, refresh_mode, refresh_interval, next_sync_at, created_at,
+         updated_at
        FROM feeds${where}
        ORDER BY created_at ASC, id ASC
        LIMIT ?`,
@@ -123,6 +158,7 @@ export async function listArticles(
   limit: number,
   cursor?: string | null,
   mpId?: string | null,
+  groupId?: string | null,
 ) {
   let where = '';
   const params: unknown[] = [];
@@ -130,6 +166,9 @@ export async function listArticles(
   if (mpId) {
     where = ' WHERE mp_id = ?';
     params.push(mpId);
+  } else if (groupId) {
+    where = ' WHERE mp_id IN (SELECT mp_id FROM feed_group_feeds WHERE group_id = ?)';
+    params.push(groupId);
   }
 
   if (cursor) {
@@ -144,7 +183,7 @@ export async function listArticles(
 
   const rows = await db
     .prepare(
-      `SELECT id, mp_id, title, pic_url, publish_time, created_at, updated_at
+      `SELECT id, mp_id, title, pic_url, publish_time, status, created_at, updated_at
        FROM articles${where}
        ORDER BY publish_time DESC, id DESC
        LIMIT ?`,
@@ -165,7 +204,10 @@ export async function listArticles(
 export async function getAccountById(db: D1Database, id: string) {
   const row = await db
     .prepare(
-      `SELECT id, token, name, status, created_at, updated_at
+      `SELECT id, token, name, status, blocked_until, block_reason,
+         block_error_code, rate_limit_count, last_used_at, request_count,
+         failure_count, success_rate, daily_request_count, daily_request_date,
+         daily_quota, created_at, updated_at
        FROM accounts WHERE id = ?`,
     )
     .bind(id)
@@ -197,7 +239,12 @@ export async function upsertAccount(
 export async function updateAccount(
   db: D1Database,
   id: string,
-  data: Partial<{ token: string; name: string; status: number }>,
+  data: Partial<{
+    token: string;
+    name: string;
+    status: number;
+    dailyQuota: number | null;
+  }>,
 ) {
   const updates: string[] = [];
   const params: unknown[] = [];
@@ -214,6 +261,10 @@ export async function updateAccount(
     updates.push('status = ?');
     params.push(data.status);
   }
+  if (data.dailyQuota !== undefined) {
+    updates.push('daily_quota = ?');
+    params.push(data.dailyQuota);
+  }
 
   updates.push('updated_at = ?');
   params.push(nowMs());
@@ -236,7 +287,8 @@ export async function getFeedById(db: D1Database, id: string) {
   const row = await db
     .prepare(
       `SELECT id, mp_name, mp_cover, mp_intro, status, sync_time, update_time,
-         has_history, created_at, updated_at
+         has_history, refresh_mode, refresh_interval, next_sync_at, created_at,
+         updated_at
        FROM feeds WHERE id = ?`,
     )
     .bind(id)
@@ -299,6 +351,9 @@ export async function updateFeed(
     updateTime: number;
     status: number;
     hasHistory: number;
+    refreshMode: string;
+    refreshInterval: number;
+    nextSyncAt: number;
   }>,
 ) {
   const updates: string[] = [];
@@ -332,6 +387,18 @@ export async function updateFeed(
     updates.push('has_history = ?');
     params.push(data.hasHistory);
   }
+  if (data.refreshMode !== undefined) {
+    updates.push('refresh_mode = ?');
+    params.push(data.refreshMode);
+  }
+  if (data.refreshInterval !== undefined) {
+    updates.push('refresh_interval = ?');
+    params.push(data.refreshInterval);
+  }
+  if (data.nextSyncAt !== undefined) {
+    updates.push('next_sync_at = ?');
+    params.push(data.nextSyncAt);
+  }
 
   updates.push('updated_at = ?');
   params.push(nowMs());
@@ -345,7 +412,10 @@ export async function updateFeed(
 }
 
 export async function deleteFeed(db: D1Database, id: string) {
-  await db.prepare('DELETE FROM feeds WHERE id = ?').bind(id).run();
+  await db.batch([
+    db.prepare('DELETE FROM feeds WHERE id = ?').bind(id),
+    db.prepare('DELETE FROM feed_group_feeds WHERE mp_id = ?').bind(id),
+  ]);
 }
 
 export async function getFeedList(db: D1Database) {
@@ -370,7 +440,8 @@ export async function listEnabledFeeds(db: D1Database) {
   const rows = await db
     .prepare(
       `SELECT id, mp_name, mp_cover, mp_intro, status, sync_time, update_time,
-         has_history, created_at, updated_at
+         has_history, refresh_mode, refresh_interval, next_sync_at, created_at,
+         updated_at
        FROM feeds WHERE status = ?`,
     )
     .bind(statusMap.ENABLE)
@@ -379,11 +450,90 @@ export async function listEnabledFeeds(db: D1Database) {
   return rows.results.map((row) => toFeedDto(row));
 }
 
+/**
+ * 按 id 顺序分批读取跟随 FEED_CRON 更新的公众号，after 为上一批最后一个 id
+ */
+export async function listGlobalScheduleFeedIds(
+  db: D1Database,
+  { after = '', limit }: { after?: string; limit: number },
+) {
+  const rows = await db
+    .prepare(
+      `SELECT id FROM feeds
+       WHERE status = ? AND refresh_mode = ? AND id > ?
+       ORDER BY id ASC LIMIT ?`,
+    )
+    .bind(statusMap.ENABLE, feedRefreshModes.GLOBAL, after, limit)
+    .all<{ id: string }>();
+  return rows.results.map((row) => row.id);
+}
+
+/**
+ * 按 id 顺序分批读取全部公众号，after 为上一批最后一个 id
+ */
+export async function listFeedIds(
+  db: D1Database,
+  { after = '', limit }: { after?: string; limit: number },
+) {
+  const rows = await db
+    .prepare('SELECT id FROM feeds WHERE id > ? ORDER BY id ASC LIMIT ?')
+    .bind(after, limit)
+    .all<{ id: string }>();
+  return rows.results.map((row) => row.id);
+}
+
+/**
+ * 已到计划时间的公众号，已在更新队列中的跳过，避免队列较长时每次都选中同一批
+ */
+export async function listDueFeedIds(
+  db: D1Database,
+  now: number,
+  limit: number,
+) {
+  const rows = await db
+    .prepare(
+      `SELECT id FROM feeds
+       WHERE status = ? AND refresh_mode != ? AND next_sync_at <= ?
+         AND NOT EXISTS (
+           SELECT 1 FROM jobs
+           WHERE jobs.type = ? AND jobs.mp_id = feeds.id AND jobs.status IN (?, ?)
+         )
+       ORDER BY next_sync_at ASC LIMIT ?`,
+    )
+    .bind(
+      statusMap.ENABLE,
+      feedRefreshModes.GLOBAL,
+      now,
+      jobTypes.REFRESH,
+      jobStatusMap.QUEUED,
+      jobStatusMap.RUNNING,
+      limit,
+    )
+    .all<{ id: string }>();
+  return rows.results.map((row) => row.id);
+}
+
+export async function getRecentPublishTimes(
+  db: D1Database,
+  mpId: string,
+  limit: number,
+) {
+  const rows = await db
+    .prepare(
+      `SELECT publish_time FROM articles WHERE mp_id = ?
+       ORDER BY publish_time DESC LIMIT ?`,
+    )
+    .bind(mpId, limit)
+    .all<{ publish_time: number }>();
+  return rows.results.map((row) => row.publish_time);
+}
+
 export async function listAllFeeds(db: D1Database) {
   const rows = await db
     .prepare(
       `SELECT id, mp_name, mp_cover, mp_intro, status, sync_time, update_time,
-         has_history, created_at, updated_at
+         has_history, refresh_mode, refresh_interval, next_sync_at, created_at,
+         updated_at
        FROM feeds`,
     )
     .all<FeedRow>();
@@ -395,7 +545,8 @@ export async function getFeedForUpdate(db: D1Database, id: string) {
   const row = await db
     .prepare(
       `SELECT id, mp_name, mp_cover, mp_intro, status, sync_time, update_time,
-         has_history, created_at, updated_at
+         has_history, refresh_mode, refresh_interval, next_sync_at, created_at,
+         updated_at
        FROM feeds WHERE id = ?`,
     )
     .bind(id)
@@ -403,41 +554,111 @@ export async function getFeedForUpdate(db: D1Database, id: string) {
   return row ? toFeedDto(row) : null;
 }
 
-export async function getArticlesByMpId(
+export async function getAllArticles(
   db: D1Database,
-  mpId: string,
   limit: number,
   offset: number,
+  hideRemoved = false,
 ) {
+  const statusClause = hideRemoved ? ' WHERE status = ?' : '';
   const rows = await db
     .prepare(
-      `SELECT id, mp_id, title, pic_url, publish_time, created_at, updated_at
-       FROM articles WHERE mp_id = ?
+      `SELECT id, mp_id, title, pic_url, publish_time, status, created_at, updated_at
+       FROM articles${statusClause}
        ORDER BY publish_time DESC
        LIMIT ? OFFSET ?`,
     )
-    .bind(mpId, limit, offset)
+    .bind(...(hideRemoved ? [articleStatusMap.LIVE] : []), limit, offset)
     .all<ArticleRow>();
   return rows.results.map((row) => toArticleDto(row));
 }
 
-export async function getAllArticles(
+export async function getArticlesByMpIds(
   db: D1Database,
+  mpIds: string[],
   limit: number,
   offset: number,
+  hideRemoved = false,
 ) {
+  if (!mpIds.length) {
+    return [];
+  }
+  const statusClause = hideRemoved ? ' AND status = ?' : '';
   const rows = await db
     .prepare(
-      `SELECT id, mp_id, title, pic_url, publish_time, created_at, updated_at
+      `SELECT id, mp_id, title, pic_url, publish_time, status, created_at, updated_at
        FROM articles
+       WHERE mp_id IN (${mpIds.map(() => '?').join(', ')})${statusClause}
        ORDER BY publish_time DESC
        LIMIT ? OFFSET ?`,
     )
-    .bind(limit, offset)
+    .bind(
+      ...mpIds,
+      ...(hideRemoved ? [articleStatusMap.LIVE] : []),
+      limit,
+      offset,
+    )
+    .all<ArticleRow>();
+  return rows.results.map((row) => toArticleDto(row));
+}
+
+/**
+ * 读取分组内公众号的文章，通过关联表过滤，不受 D1 绑定参数数量的限制
+ */
+export async function getArticlesByGroupId(
+  db: D1Database,
+  groupId: string,
+  limit: number,
+  offset: number,
+  hideRemoved = false,
+) {
+  const statusClause = hideRemoved ? ' AND a.status = ?' : '';
+  const rows = await db
+    .prepare(
+      `SELECT a.id, a.mp_id, a.title, a.pic_url, a.publish_time, a.status,
+         a.created_at, a.updated_at
+       FROM articles a
+       JOIN feed_group_feeds g ON g.mp_id = a.mp_id
+       WHERE g.group_id = ?${statusClause}
+       ORDER BY a.publish_time DESC
+       LIMIT ? OFFSET ?`,
+    )
+    .bind(
+      groupId,
+      ...(hideRemoved ? [articleStatusMap.LIVE] : []),
+      limit,
+      offset,
+    )
     .all<ArticleRow>();
   return rows.results.map((row) => toArticleDto(row));
 }
 
+export async function getArticlesByIds(
+  db: D1Database,
+  ids: string[],
+  hideRemoved = false,
+) {
+  if (!ids.length) {
+    return [];
+  }
+  const statusClause = hideRemoved ? ' AND status = ?' : '';
+  const rows = await Promise.all(
+    chunkIds(ids).map((chunk) =>
+      db
+        .prepare(
+          `SELECT id, mp_id, title, pic_url, publish_time, status, created_at, updated_at
+           FROM articles WHERE id IN (${chunk.map(() => '?').join(', ')})${statusClause}`,
+        )
+        .bind(...chunk, ...(hideRemoved ? [articleStatusMap.LIVE] : []))
+        .all<ArticleRow>(),
+    ),
+  );
+  return rows
+    .flatMap(({ results }) => results)
+    .sort((a, b) => b.publish_time - a.publish_time)
+    .map((row) => toArticleDto(row));
+}
+
 export async function countArticlesByMpId(db: D1Database, mpId: string) {
   const row = await db
     .prepare('SELECT COUNT(*) as total FROM articles WHERE mp_id = ?')
@@ -446,67 +667,271 @@ export async function countArticlesByMpId(db: D1Database, mpId: string) {
   return row?.total ?? 0;
 }
 
-export async function upsertArticles(
+/**
+ * 订阅源内容的最后修改时间（毫秒）和版本标识，不传 id 时统计全部订阅源。
+ * 分组和提醒订阅修改成员或关键词后内容也会变化，同时统计分组、提醒订阅本身的修改时间
+ */
+export async function getFeedFreshness(
   db: D1Database,
-  mpId: string,
-  articles: {
-    id: string;
-    title: string;
-    picUrl: string;
-    publishTime: number;
-  }[],
+  {
+    id,
+    groupId,
+    alertId,
+  }: { id?: string; groupId?: string; alertId?: string } = {},
 ) {
-  const now = nowMs();
-  const statements = articles.map((article) =>
+  const params = id ? [id] : [];
+  const source = groupId
+    ? { table: 'feed_groups', id: groupId }
+    : alertId
+      ? { table: 'alert_feeds', id: alertId }
+      : null;
+  const [articles, feeds, sourceRow] = await Promise.all([
+    db
+      .prepare(
+        `SELECT MAX(updated_at) AS last_modified, COUNT(*) AS total
+         FROM articles${id ? ' WHERE mp_id = ?' : ''}`,
+      )
+      .bind(...params)
+      .first<{ last_modified: number | null; total: number }>(),
     db
       .prepare(
-        `INSERT INTO articles (id, mp_id, title, pic_url, publish_time, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)
-         ON CONFLICT(id) DO UPDATE SET
-           title = excluded.title,
-           pic_url = excluded.pic_url,
-           publish_time = excluded.publish_time,
-           mp_id = excluded.mp_id,
-           updated_at = excluded.updated_at`,
+        `SELECT MAX(updated_at) AS last_modified, COUNT(*) AS total
+         FROM feeds${id ? ' WHERE id = ?' : ''}`,
       )
-      .bind(
-        article.id,
-        mpId,
-        article.title,
-        article.picUrl,
-        article.publishTime,
-        now,
-        now,
-      ),
+      .bind(...params)
+      .first<{ last_modified: number | null; total: number }>(),
+    source
+      ? db
+          .prepare(`SELECT updated_at FROM ${source.table} WHERE id = ?`)
+          .bind(source.id)
+          .first<{ updated_at: number }>()
+      : null,
+  ]);
+  const sourceModified = sourceRow?.updated_at ?? 0;
+  const lastModified = Math.max(
+    articles?.last_modified ?? 0,
+    feeds?.last_modified ?? 0,
+    sourceModified,
   );
+  return {
+    exists: (feeds?.total ?? 0) > 0,
+    lastModified,
+    version: `${lastModified}-${articles?.total ?? 0}-${feeds?.total ?? 0}-${sourceModified}`,
+  };
+}
 
+export async function getCacheVersion(db: D1Database, key: string) {
+  const row = await db
+    .prepare('SELECT version FROM cache_versions WHERE key = ?')
+    .bind(key)
+    .first<{ version: number }>();
+  return row?.version ?? 0;
+}
+
+export async function bumpCacheVersions(db: D1Database, keys: string[]) {
+  const statements = keys.map((key) =>
+    db
+      .prepare(
+        `INSERT INTO cache_versions (key, version) VALUES (?, 1)
+         ON CONFLICT(key) DO UPDATE SET version = version + 1`,
+      )
+      .bind(key),
+  );
   if (statements.length > 0) {
     await db.batch(statements);
   }
 }
 
-export async function getAvailableAccounts(
+/**
+ * 插入新文章并更新已存在的文章，返回本次新插入的文章 id。
+ * 插入使用 ON CONFLICT DO NOTHING RETURNING，同一公众号同时更新时每篇文章只会被一方插入；
+ * 更新时跳过本次刚插入的文章
+ */
+export async function upsertArticles(
   db: D1Database,
-  blockedIds: string[],
+  mpId: string,
+  articles: {
+    id: string;
+    title: string;
+    picUrl: string;
+    publishTime: number;
+  }[],
 ) {
-  const blockedClause = buildNotInClause(blockedIds);
+  if (articles.length === 0) {
+    return [];
+  }
+  const now = nowMs();
+  const results = await db.batch<{ id: string }>(
+    articles.flatMap((article) => [
+      db
+        .prepare(
+          `INSERT INTO articles (id, mp_id, title, pic_url, publish_time, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO NOTHING
+           RETURNING id`,
+        )
+        .bind(
+          article.id,
+          mpId,
+          article.title,
+          article.picUrl,
+          article.publishTime,
+          now,
+          now,
+        ),
+      db
+        .prepare(
+          `UPDATE articles
+           SET title = ?, pic_url = ?, publish_time = ?, mp_id = ?, updated_at = ?
+           WHERE id = ? AND created_at <> ?`,
+        )
+        .bind(
+          article.title,
+          article.picUrl,
+          article.publishTime,
+          mpId,
+          now,
+          article.id,
+          now,
+        ),
+    ]),
+  );
+  return results.flatMap((result) => result.results.map((row) => row.id));
+}
+
+export async function getAvailableAccounts(db: D1Database) {
   const rows = await db
     .prepare(
-      `SELECT id, name, token, status, created_at, updated_at
+      `SELECT id, name, token, status, blocked_until, block_reason,
+         block_error_code, rate_limit_count, last_used_at, request_count,
+         failure_count, success_rate, daily_request_count, daily_request_date,
+         daily_quota, created_at, updated_at
        FROM accounts
-       WHERE status = ?${blockedClause.clause}
-       ORDER BY created_at ASC
-       LIMIT 10`,
+       WHERE status = ? AND blocked_until <= ?
+       ORDER BY created_at ASC`,
     )
-    .bind(statusMap.ENABLE, ...blockedClause.params)
+    .bind(statusMap.ENABLE, nowSeconds())
     .all<AccountRow>();
   return rows.results.map((row) => toAccountDto(row));
 }
 
+export async function getBlockedAccountIds(db: D1Database) {
+  const rows = await db
+    .prepare('SELECT id FROM accounts WHERE blocked_until > ?')
+    .bind(nowSeconds())
+    .all<{ id: string }>();
+  return rows.results.map((row) => row.id);
+}
+
+export async function setAccountBlock(
+  db: D1Database,
+  id: string,
+  block: {
+    blockedUntil: number;
+    blockReason: string | null;
+    blockErrorCode: string | null;
+  },
+) {
+  await db
+    .prepare(
+      `UPDATE accounts SET blocked_until = ?, block_reason = ?,
+         block_error_code = ?, updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(
+      block.blockedUntil,
+      block.blockReason,
+      block.blockErrorCode,
+      nowMs(),
+      id,
+    )
+    .run();
+}
+
+export async function markAccountUsed(
+  db: D1Database,
+  id: string,
+  today: string,
+) {
+  await db
+    .prepare(
+      `UPDATE accounts SET last_used_at = ?, request_count = request_count + 1,
+         daily_request_count = CASE WHEN daily_request_date = ?
+           THEN daily_request_count + 1 ELSE 1 END,
+         daily_request_date = ?
+       WHERE id = ?`,
+    )
+    .bind(nowSeconds(), today, today, id)
+    .run();
+}
+
+export async function recordAccountResult(
+  db: D1Database,
+  id: string,
+  success: boolean,
+  successRate: number,
+) {
+  await db
+    .prepare(
+      success
+        ? 'UPDATE accounts SET success_rate = ?, rate_limit_count = 0 WHERE id = ?'
+        : 'UPDATE accounts SET success_rate = ?, failure_count = failure_count + 1 WHERE id = ?',
+    )
+    .bind(successRate, id)
+    .run();
+}
+
+export async function incrementAccountRateLimit(db: D1Database, id: string) {
+  const row = await db
+    .prepare(
+      `UPDATE accounts SET rate_limit_count = rate_limit_count + 1
+       WHERE id = ?
+       RETURNING rate_limit_count`,
+    )
+    .bind(id)
+    .first<{ rate_limit_count: number }>();
+  return row?.rate_limit_count ?? 0;
+}
+
+export async function resetAccountRateLimit(db: D1Database, id: string) {
+  await db
+    .prepare('UPDATE accounts SET rate_limit_count = 0 WHERE id = ?')
+    .bind(id)
+    .run();
+}
+
+/**
+ * 按分钟窗口累加读书接口请求次数，返回当前窗口内的请求数
+ */
+export async function consumeRequestBudget(
+  db: D1Database,
+  windowStart: number,
+) {
+  const row = await db
+    .prepare(
+      `INSERT INTO request_budget (window_start, count) VALUES (?, 1)
+       ON CONFLICT(window_start) DO UPDATE SET count = count + 1
+       RETURNING count`,
+    )
+    .bind(windowStart)
+    .first<{ count: number }>();
+  const count = row?.count ?? 1;
+  if (count === 1) {
+    await db
+      .prepare('DELETE FROM request_budget WHERE window_start < ?')
+      .bind(windowStart)
+      .run();
+  }
+  return count;
+}
+
 export async function listEnabledAccountsWithTokens(db: D1Database) {
   const rows = await db
     .prepare(
-      `SELECT id, token, name, status, created_at, updated_at
+      `SELECT id, token, name, status, blocked_until, block_reason,
+         block_error_code, rate_limit_count, last_used_at, request_count,
+         failure_count, success_rate, daily_request_count, daily_request_date,
+         daily_quota, created_at, updated_at
        FROM accounts WHERE status = ?`,
     )
     .bind(statusMap.ENABLE)
@@ -517,10 +942,1059 @@ export async function listEnabledAccountsWithTokens(db: D1Database) {
 export async function listInvalidAccountsWithTokens(db: D1Database) {
   const rows = await db
     .prepare(
-      `SELECT id, token, name, status, created_at, updated_at
+      `SELECT id, token, name, status, blocked_until, block_reason,
+         block_error_code, rate_limit_count, last_used_at, request_count,
+         failure_count, success_rate, daily_request_count, daily_request_date,
+         daily_quota, created_at, updated_at
        FROM accounts WHERE status = ?`,
     )
     .bind(statusMap.INVALID)
     .all<AccountRow>();
   return rows.results.map((row) => toAccountDto(row));
 }
+
+const activeJobStatuses = [jobStatusMap.QUEUED, jobStatusMap.RUNNING];
+
+export async function enqueueJob(
+  db: D1Database,
+  type: JobType,
+  mpId: string,
+  { page = 1, runAt = 0 }: { page?: number; runAt?: number } = {},
+) {
+  const existing = await db
+    .prepare(
+      `SELECT id, type, mp_id, status, page, attempts, error, run_at,
+         created_at, updated_at
+       FROM jobs WHERE type = ? AND mp_id = ? AND status IN (?, ?)
+       LIMIT 1`,
+    )
+    .bind(type, mpId, ...activeJobStatuses)
+    .first<JobRow>();
+  if (existing) {
+    return toJobDto(existing);
+  }
+
+  const now = nowMs();
+  const row = await db
+    .prepare(
+      `INSERT INTO jobs (type, mp_id, status, page, attempts, run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 0, ?, ?, ?)
+       RETURNING id, type, mp_id, status, page, attempts, error, run_at,
+         created_at, updated_at`,
+    )
+    .bind(type, mpId, jobStatusMap.QUEUED, page, runAt, now, now)
+    .first<JobRow>();
+  return toJobDto(row!);
+}
+
+/**
+ * 批量加入更新队列，已在队列中的公众号跳过，只产生一次 D1 调用
+ */
+export async function enqueueJobs(
+  db: D1Database,
+  type: JobType,
+  mpIds: string[],
+) {
+  if (!mpIds.length) {
+    return;
+  }
+  const now = nowMs();
+  await db.batch(
+    mpIds.map((mpId) =>
+      db
+        .prepare(
+          `INSERT INTO jobs (type, mp_id, status, page, attempts, run_at, created_at, updated_at)
+           SELECT ?, ?, ?, 1, 0, 0, ?, ?
+           WHERE NOT EXISTS (
+             SELECT 1 FROM jobs WHERE type = ? AND mp_id = ? AND status IN (?, ?)
+           )`,
+        )
+        .bind(
+          type,
+          mpId,
+          jobStatusMap.QUEUED,
+          now,
+          now,
+          type,
+          mpId,
+          ...activeJobStatuses,
+        ),
+    ),
+  );
+}
+
+export async function getJobById(db: D1Database, id: number) {
+  const row = await db
+    .prepare(
+      `SELECT id, type, mp_id, status, page, attempts, error, run_at,
+         created_at, updated_at
+       FROM jobs WHERE id = ?`,
+    )
+    .bind(id)
+    .first<JobRow>();
+  return row ? toJobDto(row) : null;
+}
+
+export async function claimJob(db: D1Database, id: number) {
+  const row = await db
+    .prepare(
+      `UPDATE jobs SET status = ?, updated_at = ?
+       WHERE id = ? AND status = ?
+       RETURNING id`,
+    )
+    .bind(jobStatusMap.RUNNING, nowMs(), id, jobStatusMap.QUEUED)
+    .first<{ id: number }>();
+  return !!row;
+}
+
+/**
+ * 取出下一个可执行的任务。isolate 被回收时执行中的任务不会被标记，
+ * 超过 staleMs 未更新的执行中任务视为中断，重新执行
+ */
+export async function claimNextJob(
+  db: D1Database,
+  type: JobType,
+  staleMs: number,
+) {
+  const now = nowMs();
+  const row = await db
+    .prepare(
+      `UPDATE jobs SET status = ?, updated_at = ?
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE type = ?
+           AND ((status = ? AND run_at <= ?) OR (status = ? AND updated_at < ?))
+         ORDER BY run_at ASC, id ASC
+         LIMIT 1
+       )
+       RETURNING id, type, mp_id, status, page, attempts, error, run_at,
+         created_at, updated_at`,
+    )
+    .bind(
+      jobStatusMap.RUNNING,
+      now,
+      type,
+      jobStatusMap.QUEUED,
+      Math.floor(now / 1e3),
+      jobStatusMap.RUNNING,
+      now - staleMs,
+    )
+    .first<JobRow>();
+  return row ? toJobDto(row) : null;
+}
+
+export async function completeJob(db: D1Database, id: number) {
+  await db
+    .prepare(
+      'UPDATE jobs SET status = ?, error = NULL, updated_at = ? WHERE id = ?',
+    )
+    .bind(jobStatusMap.DONE, nowMs(), id)
+    .run();
+}
+
+export async function requeueJob(
+  db: D1Database,
+  id: number,
+  data: { page?: number; attempts?: number; runAt?: number; error?: string },
+) {
+  const updates = ['status = ?'];
+  const params: unknown[] = [jobStatusMap.QUEUED];
+
+  if (data.page !== undefined) {
+    updates.push('page = ?');
+    params.push(data.page);
+  }
+  if (data.attempts !== undefined) {
+    updates.push('attempts = ?');
+    params.push(data.attempts);
+  }
+  if (data.runAt !== undefined) {
+    updates.push('run_at = ?');
+    params.push(data.runAt);
+  }
+  if (data.error !== undefined) {
+    updates.push('error = ?');
+    params.push(data.error);
+  }
+
+  updates.push('updated_at = ?');
+  params.push(nowMs());
+
+  await db
+    .prepare(`UPDATE jobs SET ${updates.join(', ')} WHERE id = ?`)
+    .bind(...params, id)
+    .run();
+}
+
+export async function failJob(
+  db: D1Database,
+  id: number,
+  error: string,
+  attempts: number,
+) {
+  await db
+    .prepare(
+      'UPDATE jobs SET status = ?, error = ?, attempts = ?, updated_at = ? WHERE id = ?',
+    )
+    .bind(jobStatusMap.FAILED, error, attempts, nowMs(), id)
+    .run();
+}
+
+export async function cancelJobs(db: D1Database, type: JobType, mpId?: string) {
+  const mpClause = mpId ? ' AND mp_id = ?' : '';
+  await db
+    .prepare(
+      `UPDATE jobs SET status = ?, error = 'cancelled', updated_at = ?
+       WHERE type = ? AND status IN (?, ?)${mpClause}`,
+    )
+    .bind(
+      jobStatusMap.FAILED,
+      nowMs(),
+      type,
+      ...activeJobStatuses,
+      ...(mpId ? [mpId] : []),
+    )
+    .run();
+}
+
+export async function listActiveJobs(db: D1Database, type: JobType) {
+  const rows = await db
+    .prepare(
+      `SELECT id, type, mp_id, status, page, attempts, error, run_at,
+         created_at, updated_at
+       FROM jobs WHERE type = ? AND status IN (?, ?)
+       ORDER BY id ASC`,
+    )
+    .bind(type, ...activeJobStatuses)
+    .all<JobRow>();
+  return rows.results.map((row) => toJobDto(row));
+}
+
+export async function getSyncCursor(db: D1Database, name: SyncCursorName) {
+  const row = await db
+    .prepare(
+      `SELECT name, cursor, started_at, finished_at, updated_at
+       FROM sync_cursors WHERE name = ?`,
+    )
+    .bind(name)
+    .first<SyncCursorRow>();
+  return row ? toSyncCursorDto(row) : null;
+}
+
+/**
+ * 从头开始新一轮，未完成的上一轮直接被覆盖
+ */
+export async function startSyncCursor(db: D1Database, name: SyncCursorName) {
+  const now = nowMs();
+  await db
+    .prepare(
+      `INSERT INTO sync_cursors (name, cursor, started_at, finished_at, updated_at)
+       VALUES (?, '', ?, 0, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         cursor = '',
+         started_at = excluded.started_at,
+         finished_at = 0,
+         updated_at = excluded.updated_at`,
+    )
+    .bind(name, now, now)
+    .run();
+}
+
+export async function advanceSyncCursor(
+  db: D1Database,
+  name: SyncCursorName,
+  { cursor, finished }: { cursor: string; finished: boolean },
+) {
+  const now = nowMs();
+  await db
+    .prepare(
+      `UPDATE sync_cursors SET cursor = ?, finished_at = ?, updated_at = ?
+       WHERE name = ?`,
+    )
+    .bind(cursor, finished ? now : 0, now, name)
+    .run();
+}
+
+const articleContentColumns = `id, raw_html, clean_html, text, status, error,
+  attempts, next_retry_at, fetched_at, created_at, updated_at`;
+
+export async function getArticleContent(db: D1Database, id: string) {
+  const row = await db
+    .prepare(
+      `SELECT ${articleContentColumns} FROM article_contents WHERE id = ?`,
+    )
+    .bind(id)
+    .first<ArticleContentRow>();
+  return row ? toArticleContentDto(row) : null;
+}
+
+export async function getArticleContents(db: D1Database, ids: string[]) {
+  if (!ids.length) {
+    return [];
+  }
+  const rows = await Promise.all(
+    chunkIds(ids).map((chunk) =>
+      db
+        .prepare(
+          `SELECT ${articleContentColumns} FROM article_contents
+           WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+        )
+        .bind(...chunk)
+        .all<ArticleContentRow>(),
+    ),
+  );
+  return rows.flatMap(({ results }) =>
+    results.map((row) => toArticleContentDto(row)),
+  );
+}
+
+/**
+ * 新建待抓取的全文记录，已存在的跳过
+ */
+export async function enqueueArticleContents(db: D1Database, ids: string[]) {
+  const now = nowMs();
+  const statements = ids.map((id) =>
+    db
+      .prepare(
+        `INSERT INTO article_contents (id, status, created_at, updated_at)
+         VALUES (?, 0, ?, ?)
+         ON CONFLICT(id) DO NOTHING`,
+      )
+      .bind(id, now, now),
+  );
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+}
+
+export async function getPendingArticleContentIds(
+  db: D1Database,
+  now: number,
+  limit: number,
+) {
+  const rows = await db
+    .prepare(
+      `SELECT id FROM article_contents
+       WHERE status = 0 AND next_retry_at <= ?
+       ORDER BY next_retry_at ASC, created_at DESC
+       LIMIT ?`,
+    )
+    .bind(now, limit)
+    .all<{ id: string }>();
+  return rows.results.map((row) => row.id);
+}
+
+/**
+ * 更新文章状态和 updated_at 以刷新订阅源的 ETag，返回所属公众号 id
+ */
+export async function touchArticle(db: D1Database, id: string, status: number) {
+  const row = await db
+    .prepare(
+      'UPDATE articles SET status = ?, updated_at = ? WHERE id = ? RETURNING mp_id',
+    )
+    .bind(status, nowMs(), id)
+    .first<{ mp_id: string }>();
+  return row?.mp_id ?? null;
+}
+
+export async function upsertArticleContent(
+  db: D1Database,
+  id: string,
+  data: {
+    rawHtml?: string | null;
+    cleanHtml?: string | null;
+    text?: string | null;
+    status: number;
+    error: string | null;
+    attempts?: number;
+    nextRetryAt: number;
+    fetchedAt: number;
+  },
+) {
+  const now = nowMs();
+  // 抓取失败时不覆盖已保存的内容和失败次数
+  const keepContent = data.rawHtml === undefined;
+  const keepAttempts = data.attempts === undefined;
+  await db
+    .prepare(
+      `INSERT INTO article_contents (id, raw_html, clean_html, text, status,
+         error, attempts, next_retry_at, fetched_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         raw_html = CASE WHEN ? THEN article_contents.raw_html ELSE excluded.raw_html END,
+         clean_html = CASE WHEN ? THEN article_contents.clean_html ELSE excluded.clean_html END,
+         text = CASE WHEN ? THEN article_contents.text ELSE excluded.text END,
+         attempts = CASE WHEN ? THEN article_contents.attempts ELSE excluded.attempts END,
+         status = excluded.status,
+         error = excluded.error,
+         next_retry_at = excluded.next_retry_at,
+         fetched_at = excluded.fetched_at,
+         updated_at = excluded.updated_at`,
+    )
+    .bind(
+      id,
+      data.rawHtml ?? null,
+      data.cleanHtml ?? null,
+      data.text ?? null,
+      data.status,
+      data.error,
+      data.attempts ?? 0,
+      data.nextRetryAt,
+      data.fetchedAt,
+      now,
+      now,
+      keepContent ? 1 : 0,
+      keepContent ? 1 : 0,
+      keepContent ? 1 : 0,
+      keepAttempts ? 1 : 0,
+    )
+    .run();
+  return getArticleContent(db, id);
+}
+
+/**
+ * 全文抓取失败的文章，包括等待重试和重试次数用尽的
+ */
+export async function listFailedArticleContents(db: D1Database, limit: number) {
+  const rows = await db
+    .prepare(
+      `SELECT c.id, c.status, c.error, c.attempts, c.next_retry_at, c.fetched_at,
+         a.mp_id, a.title
+       FROM article_contents c LEFT JOIN articles a ON a.id = c.id
+       WHERE c.status != ? AND c.attempts > 0
+       ORDER BY c.fetched_at DESC
+       LIMIT ?`,
+    )
+    .bind(articleContentStatusMap.SUCCESS, limit)
+    .all<{
+      id: string;
+      status: number;
+      error: string | null;
+      attempts: number;
+      next_retry_at: number;
+      fetched_at: number;
+      mp_id: string | null;
+      title: string | null;
+    }>();
+  return rows.results.map((row) => ({
+    id: row.id,
+    status: row.status,
+    error: row.error,
+    attempts: row.attempts,
+    nextRetryAt: row.next_retry_at,
+    fetchedAt: row.fetched_at,
+    mpId: row.mp_id || '',
+    title: row.title || '',
+  }));
+}
+
+/**
+ * 重置为待抓取，不传 ids 时重置全部失败的文章；指定 ids 时已抓取的也重新抓取，用于检查文章是否已被删除
+ */
+export async function retryArticleContents(
+  db: D1Database,
+  ids?: string[] | null,
+) {
+  if (ids && !ids.length) {
+    return 0;
+  }
+  const where = ids
+    ? `id IN (${ids.map(() => '?').join(', ')})`
+    : 'status != ?';
+  const rows = await db
+    .prepare(
+      `UPDATE article_contents
+       SET status = ?, attempts = 0, next_retry_at = 0, updated_at = ?
+       WHERE ${where}
+       RETURNING id`,
+    )
+    .bind(
+      articleContentStatusMap.PENDING,
+      nowMs(),
+      ...(ids ?? [articleContentStatusMap.SUCCESS]),
+    )
+    .all<{ id: string }>();
+  return rows.results.length;
+}
+
+export interface ArticleSearchRow {
+  id: string;
+  mp_id: string;
+  title: string;
+  pic_url: string;
+  publish_time: number;
+  status: number;
+  text: string | null;
+}
+
+const articleSearchColumns = `a.id, a.mp_id, a.title, a.pic_url, a.publish_time,
+  a.status, c.text`;
+
+/**
+ * 按标题和已保存的全文搜索文章，关键词需全部命中；useIndex 为 false 时使用 LIKE 查询，latest 为 true 时按发布时间排序
+ */
+export async function searchArticleRows(
+  db: D1Database,
+  opts: {
+    terms: string[];
+    useIndex: boolean;
+    mpId?: string | null;
+    limit: number;
+    offset: number;
+    latest?: boolean;
+  },
+) {
+  const mpClause = opts.mpId ? ' AND a.mp_id = ?' : '';
+  const latestOrder = opts.latest ? 'a.publish_time DESC, ' : '';
+  const mpParams = opts.mpId ? [opts.mpId] : [];
+
+  if (opts.useIndex) {
+    const query = opts.terms
+      .map((term) => `"${term.replace(/"/g, '""')}"`)
+      .join(' ');
+    const rows = await db
+      .prepare(
+        `SELECT ${articleSearchColumns}
+         FROM articles_fts f
+         JOIN articles a ON a.rowid = f.rowid
+         LEFT JOIN article_contents c ON c.id = a.id
+         WHERE articles_fts MATCH ?${mpClause}
+         ORDER BY ${latestOrder}bm25(articles_fts, 0, 10.0, 1.0), a.publish_time DESC
+         LIMIT ? OFFSET ?`,
+      )
+      .bind(query, ...mpParams, opts.limit, opts.offset)
+      .all<ArticleSearchRow>();
+    return rows.results;
+  }
+
+  const patterns = opts.terms.map(
+    (term) => `%${term.replace(/[!%_]/g, '!$&')}%`,
+  );
+  const likeClause = patterns
+    .map(() => "(a.title LIKE ? ESCAPE '!' OR c.text LIKE ? ESCAPE '!')")
+    .join(' AND ');
+  const rows = await db
+    .prepare(
+      `SELECT ${articleSearchColumns}
+       FROM articles a
+       LEFT JOIN article_contents c ON c.id = a.id
+       WHERE ${likeClause}${mpClause}
+       ORDER BY a.publish_time DESC
+       LIMIT ? OFFSET ?`,
+    )
+    .bind(
+      ...patterns.flatMap((pattern) => [pattern, pattern]),
+      ...mpParams,
+      opts.limit,
+      opts.offset,
+    )
+    .all<ArticleSearchRow>();
+  return rows.results;
+}
+
+export async function listAlertFeeds(db: D1Database) {
+  const rows = await db
+    .prepare(
+      `SELECT id, name, keyword, created_at, updated_at
+       FROM alert_feeds ORDER BY created_at ASC`,
+    )
+    .all<AlertFeedRow>();
+  return rows.results.map((row) => toAlertFeedDto(row));
+}
+
+export async function getAlertFeedById(db: D1Database, id: string) {
+  const row = await db
+    .prepare(
+      `SELECT id, name, keyword, created_at, updated_at
+       FROM alert_feeds WHERE id = ?`,
+    )
+    .bind(id)
+    .first<AlertFeedRow>();
+  return row ? toAlertFeedDto(row) : null;
+}
+
+export async function createAlertFeed(
+  db: D1Database,
+  data: { name: string; keyword: string },
+) {
+  const id = crypto.randomUUID();
+  const now = nowMs();
+  await db
+    .prepare(
+      `INSERT INTO alert_feeds (id, name, keyword, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .bind(id, data.name, data.keyword, now, now)
+    .run();
+  return getAlertFeedById(db, id);
+}
+
+export async function updateAlertFeed(
+  db: D1Database,
+  id: string,
+  data: { name?: string; keyword?: string },
+) {
+  await db
+    .prepare(
+      `UPDATE alert_feeds
+       SET name = COALESCE(?, name), keyword = COALESCE(?, keyword), updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(data.name ?? null, data.keyword ?? null, nowMs(), id)
+    .run();
+  return getAlertFeedById(db, id);
+}
+
+export async function deleteAlertFeed(db: D1Database, id: string) {
+  await db.prepare('DELETE FROM alert_feeds WHERE id = ?').bind(id).run();
+}
+
+export async function listFeedGroups(db: D1Database) {
+  const [groups, members] = await Promise.all([
+    db
+      .prepare(
+        `SELECT id, name, sort, created_at, updated_at
+         FROM feed_groups ORDER BY sort ASC, created_at ASC`,
+      )
+      .all<FeedGroupRow>(),
+    db
+      .prepare(
+        'SELECT group_id, mp_id FROM feed_group_feeds ORDER BY created_at ASC',
+      )
+      .all<{ group_id: string; mp_id: string }>(),
+  ]);
+  return groups.results.map((row) =>
+    toFeedGroupDto(
+      row,
+      members.results
+        .filter((member) => member.group_id === row.id)
+        .map((member) => member.mp_id),
+    ),
+  );
+}
+
+export async function getFeedGroupById(db: D1Database, id: string) {
+  const row = await db
+    .prepare(
+      `SELECT id, name, sort, created_at, updated_at
+       FROM feed_groups WHERE id = ?`,
+    )
+    .bind(id)
+    .first<FeedGroupRow>();
+  if (!row) {
+    return null;
+  }
+  const members = await db
+    .prepare(
+      'SELECT mp_id FROM feed_group_feeds WHERE group_id = ? ORDER BY created_at ASC',
+    )
+    .bind(id)
+    .all<{ mp_id: string }>();
+  return toFeedGroupDto(
+    row,
+    members.results.map((member) => member.mp_id),
+  );
+}
+
+/**
+ * 替换分组内的公众号
+ */
+export async function setFeedGroupFeeds(
+  db: D1Database,
+  groupId: string,
+  mpIds: string[],
+) {
+  const now = nowMs();
+  await db.batch([
+    // 成员变化时更新分组的修改时间，分组订阅的 ETag 随之变化
+    db
+      .prepare('UPDATE feed_groups SET updated_at = ? WHERE id = ?')
+      .bind(now, groupId),
+    db.prepare('DELETE FROM feed_group_feeds WHERE group_id = ?').bind(groupId),
+    ...[...new Set(mpIds)].map((mpId) =>
+      db
+        .prepare(
+          'INSERT INTO feed_group_feeds (group_id, mp_id, created_at) VALUES (?, ?, ?)',
+        )
+        .bind(groupId, mpId, now),
+    ),
+  ]);
+}
+
+export async function createFeedGroup(
+  db: D1Database,
+  data: { name: string; sort?: number },
+) {
+  const id = crypto.randomUUID();
+  const now = nowMs();
+  await db
+    .prepare(
+      `INSERT INTO feed_groups (id, name, sort, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .bind(id, data.name, data.sort ?? 0, now, now)
+    .run();
+  return id;
+}
+
+export async function updateFeedGroup(
+  db: D1Database,
+  id: string,
+  data: { name?: string; sort?: number },
+) {
+  await db
+    .prepare(
+      `UPDATE feed_groups
+       SET name = COALESCE(?, name), sort = COALESCE(?, sort), updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(data.name ?? null, data.sort ?? null, nowMs(), id)
+    .run();
+}
+
+/**
+ * 按名称查找分组，不存在时新建，返回分组 id
+ */
+export async function getOrCreateFeedGroupByName(db: D1Database, name: string) {
+  const row = await db
+    .prepare('SELECT id FROM feed_groups WHERE name = ? LIMIT 1')
+    .bind(name)
+    .first<{ id: string }>();
+  return row ? row.id : createFeedGroup(db, { name });
+}
+
+export async function addFeedGroupFeed(
+  db: D1Database,
+  groupId: string,
+  mpId: string,
+) {
+  const now = nowMs();
+  await db.batch([
+    db
+      .prepare('UPDATE feed_groups SET updated_at = ? WHERE id = ?')
+      .bind(now, groupId),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO feed_group_feeds (group_id, mp_id, created_at)
+         VALUES (?, ?, ?)`,
+      )
+      .bind(groupId, mpId, now),
+  ]);
+}
+
+export async function deleteFeedGroup(db: D1Database, id: string) {
+  await db.batch([
+    db.prepare('DELETE FROM feed_groups WHERE id = ?').bind(id),
+    db.prepare('DELETE FROM feed_group_feeds WHERE group_id = ?').bind(id),
+  ]);
+}
+
+export async function listWebhooks(db: D1Database) {
+  const rows = await db
+    .prepare(
+      `SELECT id, name, url, secret, mp_ids, events, status, created_at, updated_at
+       FROM webhooks ORDER BY created_at ASC`,
+    )
+    .all<WebhookRow>();
+  return rows.results.map((row) => toWebhookDto(row));
+}
+
+export async function getWebhookById(db: D1Database, id: string) {
+  const row = await db
+    .prepare(
+      `SELECT id, name, url, secret, mp_ids, events, status, created_at, updated_at
+       FROM webhooks WHERE id = ?`,
+    )
+    .bind(id)
+    .first<WebhookRow>();
+  return row ? toWebhookDto(row) : null;
+}
+
+export async function createWebhook(
+  db: D1Database,
+  data: {
+    name: string;
+    url: string;
+    secret: string;
+    mpIds: string[];
+    events: string[];
+    status?: number;
+  },
+) {
+  const id = crypto.randomUUID();
+  const now = nowMs();
+  await db
+    .prepare(
+      `INSERT INTO webhooks (id, name, url, secret, mp_ids, events, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      id,
+      data.name,
+      data.url,
+      data.secret,
+      data.mpIds.join(','),
+      data.events.join(','),
+      data.status ?? statusMap.ENABLE,
+      now,
+      now,
+    )
+    .run();
+  return getWebhookById(db, id);
+}
+
+export async function updateWebhook(
+  db: D1Database,
+  id: string,
+  data: {
+    name?: string;
+    url?: string;
+    secret?: string;
+    mpIds?: string[];
+    events?: string[];
+    status?: number;
+  },
+) {
+  await db
+    .prepare(
+      `UPDATE webhooks
+       SET name = COALESCE(?, name), url = COALESCE(?, url),
+         secret = COALESCE(?, secret), mp_ids = COALESCE(?, mp_ids),
+         events = COALESCE(?, events), status = COALESCE(?, status), updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(
+      data.name ?? null,
+      data.url ?? null,
+      data.secret ?? null,
+      data.mpIds?.join(',') ?? null,
+      data.events?.join(',') ?? null,
+      data.status ?? null,
+      nowMs(),
+      id,
+    )
+    .run();
+  return getWebhookById(db, id);
+}
+
+export async function deleteWebhook(db: D1Database, id: string) {
+  await db.batch([
+    db.prepare('DELETE FROM webhooks WHERE id = ?').bind(id),
+    db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').bind(id),
+  ]);
+}
+
+export async function listActiveWebhooks(db: D1Database) {
+  const rows = await db
+    .prepare(
+      `SELECT id, name, url, secret, mp_ids, events, status, created_at, updated_at
+       FROM webhooks WHERE status = ?`,
+    )
+    .bind(statusMap.ENABLE)
+    .all<WebhookRow>();
+  return rows.results.map((row) => toWebhookDto(row));
+}
+
+export async function createWebhookDeliveries(
+  db: D1Database,
+  items: { webhookId: string; event: string; payload: string }[],
+) {
+  if (items.length === 0) {
+    return;
+  }
+  const now = nowMs();
+  await db.batch(
+    items.map((item) =>
+      db
+        .prepare(
+          `INSERT INTO webhook_deliveries (webhook_id, event, payload, status, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(
+          item.webhookId,
+          item.event,
+          item.payload,
+          webhookDeliveryStatusMap.PENDING,
+          now,
+          now,
+        ),
+    ),
+  );
+}
+
+export async function listDueWebhookDeliveries(
+  db: D1Database,
+  now: number,
+  limit: number,
+) {
+  const rows = await db
+    .prepare(
+      `SELECT d.id, d.webhook_id, d.event, d.payload, d.attempts, d.next_retry_at, w.url, w.secret
+       FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.status = ? AND d.next_retry_at <= ? AND w.status = ?
+       ORDER BY d.id ASC
+       LIMIT ?`,
+    )
+    .bind(webhookDeliveryStatusMap.PENDING, now, statusMap.ENABLE, limit)
+    .all<{
+      id: number;
+      webhook_id: string;
+      event: string;
+      payload: string;
+      attempts: number;
+      next_retry_at: number;
+      url: string;
+      secret: string;
+    }>();
+  return rows.results.map((row) => ({
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    payload: row.payload,
+    attempts: row.attempts,
+    nextRetryAt: row.next_retry_at,
+    url: row.url,
+    secret: row.secret,
+  }));
+}
+
+export async function claimWebhookDelivery(
+  db: D1Database,
+  id: number,
+  nextRetryAt: number,
+  leaseUntil: number,
+) {
+  const row = await db
+    .prepare(
+      `UPDATE webhook_deliveries SET next_retry_at = ?, updated_at = ?
+       WHERE id = ? AND status = ? AND next_retry_at = ?
+       RETURNING id`,
+    )
+    .bind(
+      leaseUntil,
+      nowMs(),
+      id,
+      webhookDeliveryStatusMap.PENDING,
+      nextRetryAt,
+    )
+    .first<{ id: number }>();
+  return !!row;
+}
+
+export async function updateWebhookDelivery(
+  db: D1Database,
+  id: number,
+  data: {
+    status: number;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    nextRetryAt: number;
+    deliveredAt: number;
+  },
+) {
+  await db
+    .prepare(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, response_status = ?, error = ?,
+         next_retry_at = ?, delivered_at = ?, updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(
+      data.status,
+      data.attempts,
+      data.responseStatus,
+      data.error,
+      data.nextRetryAt,
+      data.deliveredAt,
+      nowMs(),
+      id,
+    )
+    .run();
+}
+
+/**
+ * 发送记录按 id 倒序分页，cursor 为下一页第一条记录的 id
+ */
+export async function listWebhookDeliveries(
+  db: D1Database,
+  {
+    webhookId,
+    limit,
+    cursor,
+  }: { webhookId: string; limit: number; cursor?: number | null },
+) {
+  const rows = await db
+    .prepare(
+      `SELECT id, webhook_id, event, payload, status, attempts, response_status,
+         error, next_retry_at, delivered_at, created_at, updated_at
+       FROM webhook_deliveries
+       WHERE webhook_id = ?${cursor ? ' AND id <= ?' : ''}
+       ORDER BY id DESC
+       LIMIT ?`,
+    )
+    .bind(...(cursor ? [webhookId, cursor] : [webhookId]), limit + 1)
+    .all<WebhookDeliveryRow>();
+
+  const items = rows.results.map((row) => toWebhookDeliveryDto(row));
+  let nextCursor: number | undefined;
+  if (items.length > limit) {
+    nextCursor = items.pop()?.id;
+  }
+  return { items, nextCursor };
+}
+
+/**
+ * 记录重新加入发送队列立即发送，重新计算重试次数
+ */
+export async function retryWebhookDelivery(db: D1Database, id: number) {
+  await db
+    .prepare(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = 0, next_retry_at = 0, updated_at = ?
+       WHERE id = ?`,
+    )
+    .bind(webhookDeliveryStatusMap.PENDING, nowMs(), id)
+    .run();
+}
+
+export async function listNotifyTemplates(db: D1Database) {
+  const rows = await db
+    .prepare('SELECT event, title, content FROM notify_templates')
+    .all<NotifyTemplateRow>();
+  return rows.results;
+}
+
+export async function getNotifyTemplate(db: D1Database, event: string) {
+  return db
+    .prepare(
+      'SELECT event, title, content FROM notify_templates WHERE event = ?',
+    )
+    .bind(event)
+    .first<NotifyTemplateRow>();
+}
+
+export async function upsertNotifyTemplate(
+  db: D1Database,
+  input: { event: string; title: string; content: string },
+) {
+  const now = nowMs();
+  await db
+    .prepare(
+      `INSERT INTO notify_templates (event, title, content, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(event) DO UPDATE SET
+         title = excluded.title,
+         content = excluded.content,
+         updated_at = excluded.updated_at`,
+    )
+    .bind(input.event, input.title, input.content, now, now)
+    .run();
+}
+
+export async function deleteNotifyTemplate(db: D1Database, event: string) {
+  await db
+    .prepare('DELETE FROM notify_templates WHERE event = ?')
+    .bind(event)
+    .run();
+}
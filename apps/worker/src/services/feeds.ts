@@ -1,19 +1,33 @@
-import { Feed, Item } from 'feed';
-import { load } from 'cheerio';
-import { LRUCache } from 'lru-cache';
+import {
+  buildOpml,
+  FeedError,
+  feedMimeTypeMap,
+  fetchArticleContent as fetchContent,
+  generateFeed,
+  getFeedKey,
+  normalizeFeedType,
+} from '@wewe-rss/core';
+import type { FeedOptions } from '@wewe-rss/core';
 import type { Env } from '../types';
-import { feedMimeTypeMap, feedTypes, statusMap } from '../constants';
 import {
-  getAllArticles,
-  getArticlesByMpId,
-  getFeedById,
+  contentPrefetch,
+  feedCacheMaxAge,
+  feedCacheTtl,
+  maxRawHtmlLength,
+} from '../constants';
+import {
+  getCacheVersion,
+  getFeedFreshness,
+  listFeedGroups,
   getFeedList,
+  getPendingArticleContentIds,
   listAllFeeds,
-  listEnabledFeeds,
 } from './db-queries';
-import { refreshMpArticlesAndUpdateFeed } from './trpc-service';
-
-const mpCache = new LRUCache<string, string>({ max: 5000 });
+import {
+  refreshGlobalScheduleFeeds,
+  refreshMpArticlesAndUpdateFeed,
+} from './trpc-service';
+import { D1Store } from './d1-store';
 
 const defaultHeaders = {
   accept:
@@ -44,198 +58,173 @@ const getFeedMode = (env: Env) => env.FEED_MODE ?? '';
 const getOriginUrl = (env: Env, fallback: string) =>
   env.SERVER_ORIGIN_URL ?? fallback;
 
-const getUpdateDelaySeconds = (env: Env) => {
-  const raw = env.UPDATE_DELAY_TIME ?? '60';
-  const value = Number(raw);
-  return Number.isFinite(value) ? value : 60;
-};
-
-async function cleanHtml(source: string) {
-  const $ = load(source, { decodeEntities: false });
-  const dirtyHtml = $.html($('.rich_media_content'));
-  const html = dirtyHtml
-    .replace(/data-src=/g, 'src=')
-    .replace(/opacity: 0( !important)?;/g, '')
-    .replace(/visibility: hidden;/g, '');
-
-  const content =
-    '<style> .rich_media_content {overflow: hidden;color: #222;font-size: 17px;word-wrap: break-word;-webkit-hyphens: auto;-ms-hyphens: auto;hyphens: auto;text-align: justify;position: relative;z-index: 0;}.rich_media_content {font-size: 18px;}</style>' +
-    html;
-
-  return content;
+/**
+ * 抓取文章全文，保存原始 html、清理后的 html 和纯文本；失败时按次数退避重试
+ */
+export async function fetchArticleContent(env: Env, id: string) {
+  return fetchContent(new D1Store(env.DB), {
+    id,
+    fetchHtml: async (url) => {
+      const res = await fetch(url, { headers: defaultHeaders });
+      if (!res.ok) {
+        throw new Error(`Request failed: ${res.status}`);
+      }
+      return res.text();
+    },
+    maxRawHtmlLength,
+  });
 }
 
-async function getHtmlByUrl(env: Env, url: string) {
-  const res = await fetch(url, { headers: defaultHeaders });
-  const html = await res.text();
-  if (shouldCleanHtml(env)) {
-    return cleanHtml(html);
+/**
+ * 由 JOB_CRON 触发，每次抓取少量待抓取的全文
+ */
+export async function processContentQueue(env: Env) {
+  const ids = await getPendingArticleContentIds(
+    env.DB,
+    Math.floor(Date.now() / 1e3),
+    contentPrefetch.batchSize,
+  );
+  for (const id of ids) {
+    await fetchArticleContent(env, id);
   }
-  return html;
 }
 
-async function tryGetContent(env: Env, id: string) {
-  const cached = mpCache.get(id);
-  if (cached) {
-    return cached;
-  }
-  const url = `https://mp.weixin.qq.com/s/${id}`;
-  const content = await getHtmlByUrl(env, url).catch(() => {
-    return '获取全文失败，请重试~';
-  });
-  mpCache.set(id, content);
-  return content;
+export async function handleGenerateFeed(env: Env, opts: FeedOptions) {
+  return generateFeed(
+    new D1Store(env.DB),
+    {
+      originUrl: getOriginUrl(env, ''),
+      feedMode: getFeedMode(env),
+      enableCleanHtml: shouldCleanHtml(env),
+    },
+    opts,
+  );
 }
 
-async function renderFeed(env: Env, opts: { type: string; feedInfo: any; articles: any[]; mode?: string }) {
-  const originUrl = getOriginUrl(env, '');
-  const link = `${originUrl}/feeds/${opts.feedInfo.id}.${opts.type}`;
-  const feed = new Feed({
-    title: opts.feedInfo.mpName,
-    description: opts.feedInfo.mpIntro,
-    id: link,
-    link,
-    language: 'zh-cn',
-    image: opts.feedInfo.mpCover,
-    favicon: opts.feedInfo.mpCover,
-    copyright: '',
-    updated: new Date(opts.feedInfo.updateTime * 1e3),
-    generator: 'WeWe-RSS',
-    author: { name: opts.feedInfo.mpName },
+/**
+ * 导出全部订阅源，按分组嵌套
+ */
+export async function getOpml(env: Env, opts: { type: string; originUrl: string }) {
+  const type = normalizeFeedType(opts.type);
+  const [feeds, groups] = await Promise.all([
+    listAllFeeds(env.DB),
+    listFeedGroups(env.DB),
+  ]);
+  return buildOpml({
+    originUrl: getOriginUrl(env, opts.originUrl),
+    type,
+    feeds,
+    groups,
   });
-
-  feed.addExtension({ name: 'generator', objects: `WeWe-RSS` });
-
-  const feeds = await listAllFeeds(env.DB);
-  const enableFullText =
-    typeof opts.mode === 'string'
-      ? opts.mode === 'fulltext'
-      : getFeedMode(env) === 'fulltext';
-  const showAuthor = opts.feedInfo.id === 'all';
-
-  const mapper = async (item: any) => {
-    const { title, id, publishTime, picUrl, mpId } = item;
-    const link = `https://mp.weixin.qq.com/s/${id}`;
-    const mpName = feeds.find((feed) => feed.id === mpId)?.mpName || '-';
-    const published = new Date(publishTime * 1e3);
-
-    let content = '';
-    if (enableFullText) {
-      content = await tryGetContent(env, id);
-    }
-
-    feed.addItem({
-      id,
-      title,
-      link,
-      guid: link,
-      content,
-      date: published,
-      image: picUrl,
-      author: showAuthor ? [{ name: mpName }] : undefined,
-    });
-  };
-
-  for (const item of opts.articles) {
-    await mapper(item);
-  }
-  return feed;
 }
 
-export async function handleGenerateFeed(env: Env, opts: {
-  id?: string;
-  type: string;
-  limit: number;
-  page: number;
-  mode?: string;
-  title_include?: string;
-  title_exclude?: string;
-}) {
-  let type = opts.type;
-  if (!feedTypes.includes(type as any)) {
-    type = 'atom';
+/**
+ * 通过 Cache API 缓存渲染后的订阅源，缓存键带版本号，有新文章时版本号变化，旧缓存不再命中
+ */
+export async function generateFeedWithCache(
+  env: Env,
+  ctx: ExecutionContext,
+  opts: FeedOptions,
+) {
+  const type = normalizeFeedType(opts.type);
+  // 合并、分组、搜索和提醒订阅聚合多个公众号的文章，跟随全部文章的缓存版本；分组和提醒订阅修改后单独失效
+  const key = getFeedKey(opts);
+  let version = `${await getCacheVersion(env.DB, opts.id || 'all')}`;
+  if (opts.groupId || opts.alertId) {
+    version += `.${await getCacheVersion(env.DB, key)}`;
   }
+  const params = new URLSearchParams({
+    keyword: opts.keyword ?? '',
+    type,
+    limit: `${opts.limit}`,
+    page: `${opts.page}`,
+    mode: opts.mode ?? '',
+    title_include: opts.title_include ?? '',
+    title_exclude: opts.title_exclude ?? '',
+    removed: opts.removed ?? '',
+  });
+  const cacheKey = `https://feed-cache.wewe-rss.internal/${encodeURIComponent(
+    key,
+  )}/${version}?${params}`;
 
-  let articles: any[] = [];
-  let feedInfo: any;
-
-  if (opts.id) {
-    feedInfo = await getFeedById(env.DB, opts.id);
-    if (!feedInfo) {
-      throw new Error('不存在该feed');
-    }
-    articles = await getArticlesByMpId(
-      env.DB,
-      opts.id,
-      opts.limit,
-      (opts.page - 1) * opts.limit,
-    );
-  } else {
-    articles = await getAllArticles(
-      env.DB,
-      opts.limit,
-      (opts.page - 1) * opts.limit,
-    );
-    const originUrl = env.SERVER_ORIGIN_URL ?? '';
-    feedInfo = {
-      id: 'all',
-      mpName: 'WeWe-RSS All',
-      mpIntro: 'WeWe-RSS 全部文章',
-      mpCover: originUrl
-        ? `${originUrl}/favicon.ico`
-        : 'https://r2-assets.111965.xyz/wewe-rss.png',
-      status: statusMap.ENABLE,
-      syncTime: 0,
-      updateTime: Math.floor(Date.now() / 1e3),
-      hasHistory: -1,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+  const cache = await caches.open('feeds');
+  const cached = await cache.match(cacheKey);
+  if (cached) {
+    return {
+      content: await cached.text(),
+      mimeType:
+        cached.headers.get('Content-Type') || feedMimeTypeMap[type],
     };
   }
 
-  const feed = await renderFeed(env, {
-    type,
-    feedInfo,
-    articles,
-    mode: opts.mode,
-  });
+  const result = await handleGenerateFeed(env, opts);
+  ctx.waitUntil(
+    cache.put(
+      cacheKey,
+      new Response(result.content, {
+        headers: {
+          'Content-Type': result.mimeType,
+          'Cache-Control': `public, max-age=${feedCacheTtl}`,
+        },
+      }),
+    ),
+  );
+  return result;
+}
 
-  if (opts.title_include) {
-    const includes = opts.title_include.split('|');
-    feed.items = feed.items.filter((i: Item) =>
-      includes.some((k) => i.title?.includes(k)),
-    );
-  }
-  if (opts.title_exclude) {
-    const excludes = opts.title_exclude.split('|');
-    feed.items = feed.items.filter(
-      (i: Item) => !excludes.some((k) => i.title?.includes(k)),
-    );
+/**
+ * 生成订阅源的缓存响应头，请求头中的 ETag / 修改时间未变化时返回 notModified
+ */
+export async function getFeedCacheHeaders(
+  env: Env,
+  request: Request,
+  { id, groupId, alertId }: Pick<FeedOptions, 'id' | 'groupId' | 'alertId'>,
+) {
+  const { exists, lastModified, version } = await getFeedFreshness(env.DB, {
+    id,
+    groupId,
+    alertId,
+  });
+  if (!exists && id) {
+    throw new FeedError('不存在该feed！');
   }
 
-  switch (type) {
-    case 'rss':
-      return { content: feed.rss2(), mimeType: feedMimeTypeMap[type] };
-    case 'json':
-      return { content: feed.json1(), mimeType: feedMimeTypeMap[type] };
-    case 'atom':
-    default:
-      return { content: feed.atom1(), mimeType: feedMimeTypeMap[type] };
+  // 同一订阅源不同格式、分页和过滤参数的内容不同
+  const url = new URL(request.url);
+  const digest = await crypto.subtle.digest(
+    'SHA-1',
+    new TextEncoder().encode(`${url.pathname}${url.search}|${version}`),
+  );
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const etag = `W/"${hash}"`;
+
+  const headers = {
+    ETag: etag,
+    'Last-Modified': new Date(lastModified).toUTCString(),
+    'Cache-Control': `public, max-age=${feedCacheMaxAge}`,
+  };
+
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  let notModified = false;
+  if (ifNoneMatch) {
+    notModified = ifNoneMatch
+      .split(',')
+      .some((tag) => tag.trim() === etag || tag.trim() === '*');
+  } else if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    notModified =
+      !Number.isNaN(since) && Math.floor(lastModified / 1e3) * 1e3 <= since;
   }
+
+  return { headers, notModified };
 }
 
 export async function handleUpdateFeedsCron(env: Env) {
-  const feeds = await listEnabledFeeds(env.DB);
-  const delaySeconds = getUpdateDelaySeconds(env);
-
-  for (const feed of feeds) {
-    try {
-      await refreshMpArticlesAndUpdateFeed(env, feed.id);
-      await sleep(delaySeconds * 1000);
-    } finally {
-      await sleep(30 * 1000);
-    }
-  }
+  // 分批加入任务队列，由 JOB_CRON 继续加入剩余的公众号并依次执行
+  await refreshGlobalScheduleFeeds(env);
 }
 
 export async function getFeedListResponse(env: Env) {
@@ -0,0 +1,180 @@
+import { builtinModules } from 'module';
+import { join } from 'path';
+import { build } from 'esbuild';
+import { Miniflare, Response } from 'miniflare';
+import { defaultCount, jobStatusMap, jobTypes, statusMap } from '../constants';
+import { applySchema } from '../test-utils';
+import {
+  getFeedById,
+  listActiveJobs,
+  upsertAccount,
+  upsertFeed,
+} from './db-queries';
+
+const authCode = 'test';
+
+/**
+ * 按 wrangler 的方式打包 Worker，在 Miniflare 中运行 HistoryBackfill 和 alarm
+ */
+async function bundleWorker() {
+  const result = await build({
+    entryPoints: [join(__dirname, '../index.ts')],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    target: 'es2022',
+    conditions: ['workerd', 'worker', 'browser'],
+    mainFields: ['browser', 'module', 'main'],
+    external: ['node:*', 'cloudflare:*', ...builtinModules],
+    logLevel: 'error',
+  });
+  return result.outputFiles[0].text;
+}
+
+describe('HistoryBackfill', () => {
+  let mf: Miniflare;
+  let db: D1Database;
+  // 读书接口收到的历史文章请求
+  let requests: { mpId: string; page: number; time: number }[] = [];
+  // 各公众号的历史文章页数，之后的页不足一页
+  const totalPages: Record<string, number> = { MP_A: 3, MP_B: 1000 };
+
+  const trpc = async <T>(path: string, input?: unknown) => {
+    const res = await mf.dispatchFetch(`http://localhost/trpc/${path}`, {
+      method: input === undefined ? 'GET' : 'POST',
+      headers: { authorization: authCode, 'content-type': 'application/json' },
+      body: input === undefined ? undefined : JSON.stringify(input),
+    });
+    const { result } = (await res.json()) as { result: { data: T } };
+    return result.data;
+  };
+
+  const getInProgress = () =>
+    trpc<{ id: string; page: number; status: number }[]>(
+      'feed.getInProgressHistoryMp',
+    );
+
+  const waitFor = async (check: () => Promise<boolean>, timeout = 15e3) => {
+    const start = Date.now();
+    while (!(await check())) {
+      if (Date.now() - start > timeout) {
+        throw new Error('waitFor timed out');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  };
+
+  beforeAll(async () => {
+    mf = new Miniflare({
+      modules: true,
+      script: await bundleWorker(),
+      compatibilityDate: '2024-09-23',
+      compatibilityFlags: ['nodejs_compat'],
+      bindings: {
+        AUTH_CODE: authCode,
+        PLATFORM_URL: 'http://platform.test',
+        UPDATE_DELAY_TIME: '1',
+      },
+      d1Databases: { DB: 'history-test' },
+      durableObjects: { HISTORY_BACKFILL: 'HistoryBackfill' },
+      outboundService: (request) => {
+        const url = new URL(request.url);
+        const mpId = url.pathname.match(/\/mps\/(\w+)\/articles$/)?.[1];
+        if (!mpId) {
+          return new Response('{}', { status: 404 });
+        }
+        const page = Number(url.searchParams.get('page'));
+        requests.push({ mpId, page, time: Date.now() });
+        const count = page < totalPages[mpId] ? defaultCount : 5;
+        return Response.json(
+          Array.from({ length: count }, (_, i) => ({
+            id: `${mpId}-${page}-${i}`,
+            title: `历史文章 ${page}-${i}`,
+            picUrl: '',
+            publishTime: 1.7e9 - page * 1e3 - i,
+          })),
+        );
+      },
+    });
+    db = (await mf.getD1Database('DB')) as unknown as D1Database;
+    await applySchema(db);
+
+    await upsertAccount(db, {
+      id: 'u1',
+      token: 'token',
+      name: 'u1',
+      status: statusMap.ENABLE,
+    });
+    for (const id of Object.keys(totalPages)) {
+      await upsertFeed(db, {
+        id,
+        mpName: id,
+        mpCover: '',
+        mpIntro: '',
+        syncTime: 0,
+        updateTime: 0,
+        status: statusMap.ENABLE,
+      });
+    }
+  }, 60 * 1e3);
+
+  afterAll(() => mf?.dispose());
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it(
+    'fetches one page per alarm until there is no more history',
+    async () => {
+      await trpc('feed.getHistoryArticles', { mpId: 'MP_A' });
+      // 重复开始同一公众号不会重复获取
+      await trpc('feed.getHistoryArticles', { mpId: 'MP_A' });
+
+      const pages = new Set<number>();
+      await waitFor(async () => {
+        const progress = await getInProgress();
+        progress.forEach(({ page }) => pages.add(page));
+        return progress.length === 0;
+      });
+
+      expect(requests.map(({ mpId, page }) => `${mpId}/${page}`)).toEqual([
+        'MP_A/1',
+        'MP_A/2',
+        'MP_A/3',
+      ]);
+      // 每页之间至少间隔 UPDATE_DELAY_TIME
+      expect(requests[1].time - requests[0].time).toBeGreaterThanOrEqual(1e3);
+      expect(requests[2].time - requests[1].time).toBeGreaterThanOrEqual(1e3);
+      expect(pages.has(2)).toBe(true);
+      expect((await getFeedById(db, 'MP_A'))?.hasHistory).toBe(0);
+      const { results } = await db
+        .prepare('SELECT status FROM jobs WHERE type = ? AND mp_id = ?')
+        .bind(jobTypes.HISTORY, 'MP_A')
+        .all<{ status: number }>();
+      expect(results).toEqual([{ status: jobStatusMap.DONE }]);
+    },
+    30 * 1e3,
+  );
+
+  it(
+    'stops pacing pages once cancelled',
+    async () => {
+      await trpc('feed.getHistoryArticles', { mpId: 'MP_B' });
+      await waitFor(async () =>
+        (await getInProgress()).some(
+          ({ id, page }) => id === 'MP_B' && page > 2,
+        ),
+      );
+
+      await trpc('feed.stopHistoryArticles', { mpId: 'MP_B' });
+      const fetched = requests.length;
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+
+      expect(requests).toHaveLength(fetched);
+      expect(await getInProgress()).toEqual([]);
+      expect(await listActiveJobs(db, jobTypes.HISTORY)).toEqual([]);
+    },
+    30 * 1e3,
+  );
+});
@@ -0,0 +1,128 @@
+import { jobStatusMap, maxHistoryPage } from '../constants';
+import type { Env } from '../types';
+import {
+  claimJob,
+  completeJob,
+  failJob,
+  getJobById,
+  requeueJob,
+} from './db-queries';
+import {
+  getJobRetry,
+  getUpdateDelaySeconds,
+  refreshMpArticlesAndUpdateFeed,
+} from './trpc-service';
+
+type BackfillState = {
+  jobId: number;
+  mpId: string;
+  page: number;
+  attempts: number;
+};
+
+const activeJobStatuses: number[] = [jobStatusMap.QUEUED, jobStatusMap.RUNNING];
+
+/**
+ * 一个公众号的历史文章获取：当前页数保存在 Durable Object 存储中，
+ * 每页之间通过 alarm 间隔 UPDATE_DELAY_TIME，isolate 被回收后继续执行。
+ * 进度同步到 jobs 表，供 getInProgressHistoryMp 展示
+ */
+export class HistoryBackfill implements DurableObject {
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env,
+  ) {}
+
+  async fetch(request: Request) {
+    const { pathname } = new URL(request.url);
+    const { storage } = this.state;
+
+    if (pathname === '/start') {
+      const { jobId, mpId, page } =
+        await request.json<Omit<BackfillState, 'attempts'>>();
+      const current = await storage.get<BackfillState>('state');
+      // 同一任务已在执行时只补上丢失的 alarm
+      if (current?.jobId !== jobId) {
+        await storage.put<BackfillState>('state', {
+          jobId,
+          mpId,
+          page,
+          attempts: 0,
+        });
+        await storage.setAlarm(Date.now());
+      } else if ((await storage.getAlarm()) === null) {
+        await storage.setAlarm(Date.now());
+      }
+      return Response.json(await storage.get<BackfillState>('state'));
+    }
+
+    if (pathname === '/stop') {
+      await storage.deleteAlarm();
+      await storage.deleteAll();
+      return Response.json(null);
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  async alarm() {
+    const { storage } = this.state;
+    const { DB } = this.env;
+    const state = await storage.get<BackfillState>('state');
+    if (!state) {
+      return;
+    }
+
+    // 任务已被取消或删除
+    const job = await getJobById(DB, state.jobId);
+    if (!job || !activeJobStatuses.includes(job.status)) {
+      await storage.deleteAll();
+      return;
+    }
+    await claimJob(DB, job.id);
+
+    const delaySeconds = getUpdateDelaySeconds(this.env);
+    let next: BackfillState;
+    // 下一页的执行时间（毫秒）
+    let alarmAt: number;
+    let error: string | undefined;
+    try {
+      const { hasHistory } = await refreshMpArticlesAndUpdateFeed(
+        this.env,
+        state.mpId,
+        state.page,
+      );
+      if (hasHistory < 1 || state.page >= maxHistoryPage) {
+        await completeJob(DB, job.id);
+        await storage.deleteAll();
+        return;
+      }
+      next = { ...state, page: state.page + 1, attempts: 0 };
+      alarmAt = Date.now() + delaySeconds * 1e3;
+    } catch (err) {
+      console.error('[history] page failed:', state.mpId, state.page, err);
+      const retry = getJobRetry(err, state.attempts, delaySeconds);
+      if (retry.runAt === null) {
+        await failJob(DB, job.id, retry.message, retry.attempts);
+        await storage.deleteAll();
+        return;
+      }
+      next = { ...state, attempts: retry.attempts };
+      alarmAt = retry.runAt * 1e3;
+      error = retry.message;
+    }
+
+    // 获取过程中被停止或开始了新任务
+    if ((await storage.get<BackfillState>('state'))?.jobId !== state.jobId) {
+      return;
+    }
+    await storage.put('state', next);
+    await requeueJob(DB, job.id, {
+      page: next.page,
+      attempts: next.attempts,
+      runAt: Math.ceil(alarmAt / 1e3),
+      error,
+    });
+    await storage.setAlarm(alarmAt);
+  }
+}
@@ -0,0 +1,106 @@
+import { connect } from 'cloudflare:sockets';
+import {
+  createAccountNotifyMessage,
+  defaultNotifyTemplates,
+  parseNotifyChannels,
+  sendNotification,
+} from '@wewe-rss/core';
+import type {
+  AccountNotifyInfo,
+  NotifyClient,
+  NotifyMessage,
+  SmtpSocket,
+} from '@wewe-rss/core';
+import type { NotifyEvent } from '../constants';
+import type { Env } from '../types';
+import { getNotifyTemplate } from './db-queries';
+import { webhookClient } from './webhooks';
+
+const encoder = new TextEncoder();
+
+/**
+ * 使用 Workers 的 TCP Socket 连接 SMTP 服务器，非 TLS 连接允许之后升级为 STARTTLS
+ */
+async function connectSmtp({
+  host,
+  port,
+  secure,
+}: {
+  host: string;
+  port: number;
+  secure: boolean;
+}): Promise<SmtpSocket> {
+  let socket = connect(
+    { hostname: host, port },
+    { secureTransport: secure ? 'on' : 'starttls', allowHalfOpen: false },
+  );
+  let reader = socket.readable.getReader();
+  let writer = socket.writable.getWriter();
+  const decoder = new TextDecoder();
+  await socket.opened;
+
+  return {
+    async read() {
+      const { value, done } = await reader.read();
+      return done ? null : decoder.decode(value, { stream: true });
+    },
+    async write(data) {
+      await writer.write(encoder.encode(data));
+    },
+    async startTls() {
+      reader.releaseLock();
+      writer.releaseLock();
+      socket = socket.startTls();
+      reader = socket.readable.getReader();
+      writer = socket.writable.getWriter();
+    },
+    async close() {
+      await socket.close();
+    },
+  };
+}
+
+const notifyClient: NotifyClient = {
+  async post({ url, headers, body, timeout }) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeout),
+    });
+    return { status: res.status, body: await res.text() };
+  },
+  connectSmtp,
+  sign: webhookClient.sign,
+};
+
+/**
+ * 发送到 NOTIFY_CHANNELS 中订阅了该事件的渠道，未配置渠道时不发送
+ */
+export async function sendNotify(env: Env, message: NotifyMessage) {
+  const channels = parseNotifyChannels({
+    channels: env.NOTIFY_CHANNELS,
+    legacyWebhookUrl: env.ACCOUNT_CHECK_WEBHOOK_URL,
+    legacyWebhookSecret: env.ACCOUNT_CHECK_WEBHOOK_SECRET,
+  });
+  if (channels.length === 0) {
+    return [];
+  }
+  return sendNotification(channels, message, notifyClient);
+}
+
+/**
+ * 使用页面上编辑的模板生成账号通知，未保存时使用默认模板
+ */
+export async function createNotifyMessage(
+  env: Env,
+  event: NotifyEvent,
+  info: AccountNotifyInfo,
+) {
+  const template = await getNotifyTemplate(env.DB, event);
+  return createAccountNotifyMessage(
+    event,
+    info,
+    template ?? defaultNotifyTemplates[event],
+  );
+}
@@ -0,0 +1,53 @@
+import { getSnippet, highlight, splitSearchTerms } from '@wewe-rss/core';
+import { searchArticleRows } from './db-queries';
+
+// trigram 分词的最短关键词长度，更短的关键词退回 LIKE 查询
+const minIndexedTermLength = 3;
+
+/**
+ * 按标题和已保存的全文搜索文章，多个关键词用空格分隔，需全部命中；latest 为 true 时按发布时间排序
+ */
+export async function searchArticles(
+  db: D1Database,
+  opts: {
+    keyword: string;
+    mpId?: string | null;
+    limit: number;
+    offset: number;
+    latest?: boolean;
+  },
+) {
+  const terms = splitSearchTerms(opts.keyword);
+  if (terms.length === 0) {
+    return { items: [], nextCursor: undefined };
+  }
+
+  const rows = await searchArticleRows(db, {
+    terms,
+    useIndex: terms.every((term) => [...term].length >= minIndexedTermLength),
+    mpId: opts.mpId,
+    limit: opts.limit + 1,
+    offset: opts.offset,
+    latest: opts.latest,
+  });
+
+  let nextCursor: number | undefined = undefined;
+  if (rows.length > opts.limit) {
+    rows.pop();
+    nextCursor = opts.offset + opts.limit;
+  }
+
+  return {
+    items: rows.map((row) => ({
+      id: row.id,
+      mpId: row.mp_id,
+      title: row.title,
+      picUrl: row.pic_url,
+      publishTime: row.publish_time,
+      status: row.status,
+      titleHighlight: highlight(row.title, terms),
+      snippet: getSnippet(row.text || '', terms),
+    })),
+    nextCursor,
+  };
+}
@@ -0,0 +1,186 @@
+import { Miniflare } from 'miniflare';
+import {
+  feedRefreshModes,
+  jobStatusMap,
+  jobTypes,
+  statusMap,
+  syncBatchSize,
+  syncCursorNames,
+} from '../constants';
+import { applySchema } from '../test-utils';
+import type { Env } from '../types';
+import {
+  completeJob,
+  failJob,
+  getFeedById,
+  getSyncCursor,
+  listActiveJobs,
+  updateFeed,
+  upsertFeed,
+} from './db-queries';
+import {
+  enqueueScheduledFeeds,
+  getIsRefreshAllMpArticlesRunning,
+  processJobQueue,
+  refreshAllMpArticlesAndUpdateFeed,
+  refreshDueFeeds,
+  refreshGlobalScheduleFeeds,
+} from './trpc-service';
+
+describe('feed sync batches', () => {
+  let mf: Miniflare;
+  let env: Env;
+
+  const addFeeds = async (
+    count: number,
+    prefix: string,
+    data: Parameters<typeof updateFeed>[2] = {},
+  ) => {
+    for (let i = 0; i < count; i++) {
+      const id = `${prefix}${String(i).padStart(3, '0')}`;
+      await upsertFeed(env.DB, {
+        id,
+        mpName: id,
+        mpCover: '',
+        mpIntro: '',
+        syncTime: 0,
+        updateTime: 0,
+        status: statusMap.ENABLE,
+      });
+      await updateFeed(env.DB, id, data);
+    }
+  };
+
+  const queuedIds = async () =>
+    (await listActiveJobs(env.DB, jobTypes.REFRESH)).map(({ mpId }) => mpId);
+
+  beforeAll(async () => {
+    mf = new Miniflare({
+      modules: true,
+      script: 'export default { fetch() { return new Response(); } }',
+      d1Databases: { DB: 'sync-test' },
+    });
+    env = {
+      DB: (await mf.getD1Database('DB')) as unknown as D1Database,
+    } as Env;
+    await applySchema(env.DB);
+  }, 30 * 1e3);
+
+  afterAll(() => mf?.dispose());
+
+  beforeEach(async () => {
+    for (const table of ['feeds', 'jobs', 'sync_cursors']) {
+      await env.DB.prepare(`DELETE FROM ${table}`).run();
+    }
+  });
+
+  it('queues global schedule feeds one batch per tick', async () => {
+    const total = syncBatchSize * 2 + 5;
+    await addFeeds(total, 'G');
+    await addFeeds(2, 'I', {
+      refreshMode: feedRefreshModes.INTERVAL,
+      nextSyncAt: Math.floor(Date.now() / 1e3) + 3600,
+    });
+    await addFeeds(1, 'D', { status: statusMap.DISABLE });
+
+    expect(await refreshGlobalScheduleFeeds(env)).toBe(syncBatchSize);
+    expect(await queuedIds()).toHaveLength(syncBatchSize);
+
+    await enqueueScheduledFeeds(env);
+    expect(await queuedIds()).toHaveLength(syncBatchSize * 2);
+    expect(await getSyncCursor(env.DB, syncCursorNames.GLOBAL)).toMatchObject({
+      cursor: `G${String(syncBatchSize * 2 - 1).padStart(3, '0')}`,
+      finishedAt: 0,
+    });
+
+    await enqueueScheduledFeeds(env);
+    const ids = await queuedIds();
+    expect(ids).toHaveLength(total);
+    expect(ids.every((id) => id.startsWith('G'))).toBe(true);
+    expect(
+      (await getSyncCursor(env.DB, syncCursorNames.GLOBAL))!.finishedAt,
+    ).toBeGreaterThan(0);
+
+    // 本轮已完成，之后的调度不再加入
+    await enqueueScheduledFeeds(env);
+    expect(await queuedIds()).toHaveLength(total);
+  });
+
+  it('restarts an unfinished pass without duplicating queued jobs', async () => {
+    await addFeeds(syncBatchSize + 1, 'G');
+
+    await refreshGlobalScheduleFeeds(env);
+    await refreshGlobalScheduleFeeds(env);
+    expect(await queuedIds()).toHaveLength(syncBatchSize);
+
+    await enqueueScheduledFeeds(env);
+    expect(await queuedIds()).toHaveLength(syncBatchSize + 1);
+  });
+
+  it('queues every feed when refreshing all and reports progress', async () => {
+    await addFeeds(syncBatchSize, 'G');
+    await addFeeds(1, 'D', { status: statusMap.DISABLE });
+    await addFeeds(1, 'I', { refreshMode: feedRefreshModes.ADAPTIVE });
+
+    await refreshAllMpArticlesAndUpdateFeed(env);
+    expect(await queuedIds()).toHaveLength(syncBatchSize);
+
+    // 已加入的任务都完成后，剩余批次未加入前仍视为更新中
+    for (const job of await listActiveJobs(env.DB, jobTypes.REFRESH)) {
+      await completeJob(env.DB, job.id);
+    }
+    expect(await getIsRefreshAllMpArticlesRunning(env)).toBe(true);
+
+    await enqueueScheduledFeeds(env);
+    // 跟随全局更新之外的公众号到期后也会加入，同一公众号不会重复排队
+    expect((await queuedIds()).sort()).toEqual(['G019', 'I000']);
+    expect(await getIsRefreshAllMpArticlesRunning(env)).toBe(true);
+
+    for (const job of await listActiveJobs(env.DB, jobTypes.REFRESH)) {
+      await completeJob(env.DB, job.id);
+    }
+    expect(await getIsRefreshAllMpArticlesRunning(env)).toBe(false);
+  });
+
+  it('limits due feeds per tick and skips queued ones', async () => {
+    await addFeeds(syncBatchSize + 3, 'I', {
+      refreshMode: feedRefreshModes.INTERVAL,
+    });
+
+    expect(await refreshDueFeeds(env)).toBe(syncBatchSize);
+    expect(await refreshDueFeeds(env)).toBe(3);
+    expect(await refreshDueFeeds(env)).toBe(0);
+
+    const jobs = await env.DB.prepare('SELECT status FROM jobs').all<{
+      status: number;
+    }>();
+    expect(jobs.results).toHaveLength(syncBatchSize + 3);
+    expect(
+      jobs.results.every(({ status }) => status === jobStatusMap.QUEUED),
+    ).toBe(true);
+  });
+
+  it('postpones the next sync of failed feeds', async () => {
+    const now = Math.floor(Date.now() / 1e3);
+    await upsertFeed(env.DB, {
+      id: 'F',
+      mpName: 'F',
+      mpCover: '',
+      mpIntro: '',
+      syncTime: now - 3600,
+      updateTime: 0,
+      status: statusMap.ENABLE,
+    });
+    await updateFeed(env.DB, 'F', { refreshMode: feedRefreshModes.INTERVAL });
+    expect(await refreshDueFeeds(env)).toBe(1);
+
+    // 没有可用账号，更新失败
+    await processJobQueue(env);
+    const feed = await getFeedById(env.DB, 'F');
+    expect(feed!.nextSyncAt).toBeGreaterThanOrEqual(now + 3600);
+
+    const [job] = await listActiveJobs(env.DB, jobTypes.REFRESH);
+    await failJob(env.DB, job.id, 'failed', 3);
+    expect(await refreshDueFeeds(env)).toBe(0);
+  });
+});
@@ -1,62 +1,104 @@
-import dayjs from 'dayjs';
-import timezone from 'dayjs/plugin/timezone';
-import utc from 'dayjs/plugin/utc';
-import { defaultCount, statusMap } from '../constants';
 import {
+  getRetryNextSyncAt,
+  parseOpml,
+  parseRetryAfter,
+  refreshMpArticles,
+  requestWithAccount,
+} from '@wewe-rss/core';
+import type { MpArticle, PlatformError } from '@wewe-rss/core';
+import {
+  defaultCount,
+  feedRefreshModes,
+  jobTypes,
+  maxJobAttempts,
+  statusMap,
+  syncBatchSize,
+  syncCursorNames,
+} from '../constants';
+import type { SyncCursorName } from '../constants';
+import {
+  addFeedGroupFeed,
+  advanceSyncCursor,
+  bumpCacheVersions,
+  cancelJobs,
+  claimJob,
+  claimNextJob,
+  completeJob,
+  consumeRequestBudget,
   countArticlesByMpId,
-  getAvailableAccounts,
+  enqueueJob,
+  enqueueJobs,
+  failJob,
+  getBlockedAccountIds as queryBlockedAccountIds,
   getFeedById,
-  listAllFeeds,
+  getOrCreateFeedGroupByName,
+  getSyncCursor,
+  listActiveJobs,
+  listDueFeedIds,
+  listFeedIds,
+  listGlobalScheduleFeedIds,
+  requeueJob,
+  startSyncCursor,
   updateFeed,
-  upsertArticles,
-  updateAccount,
+  upsertFeed,
+  resetAccountRateLimit,
+  setAccountBlock,
 } from './db-queries';
+import { D1Store } from './d1-store';
 import type { Env } from '../types';
 
-dayjs.extend(utc);
-dayjs.extend(timezone);
-
-const blockedAccountsMap = new Map<string, string[]>();
-
-const inProgressHistoryMp = {
-  id: '',
-  page: 1,
-};
-
-let isRefreshAllMpArticlesRunning = false;
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const getTodayDate = () =>
-  dayjs.tz(new Date(), 'Asia/Shanghai').format('YYYY-MM-DD');
-
-export function getBlockedAccountIds() {
-  const today = getTodayDate();
-  const disabledAccounts = blockedAccountsMap.get(today) || [];
-  return disabledAccounts.filter(Boolean);
+export async function getBlockedAccountIds(env: Env) {
+  return queryBlockedAccountIds(env.DB);
 }
 
-export function removeBlockedAccount(id: string) {
-  const today = getTodayDate();
-  const blockedAccounts = blockedAccountsMap.get(today);
-  if (Array.isArray(blockedAccounts)) {
-    blockedAccountsMap.set(
-      today,
-      blockedAccounts.filter((item) => item !== id),
-    );
-  }
+export async function removeBlockedAccount(env: Env, id: string) {
+  await setAccountBlock(env.DB, id, {
+    blockedUntil: 0,
+    blockReason: null,
+    blockErrorCode: null,
+  });
+  await resetAccountRateLimit(env.DB, id);
 }
 
-function getUpdateDelaySeconds(env: Env) {
+export function getUpdateDelaySeconds(env: Env) {
   const raw = env.UPDATE_DELAY_TIME ?? '60';
   const seconds = Number(raw);
   return Number.isFinite(seconds) ? seconds : 60;
 }
 
+/**
+ * 超过该时长（毫秒）未更新的执行中任务视为中断
+ */
+function getJobStaleMs(env: Env) {
+  return Math.max(getUpdateDelaySeconds(env), 60) * 5 * 1000;
+}
+
 function getPlatformUrl(env: Env) {
   return env.PLATFORM_URL ?? 'https://weread.111965.xyz';
 }
 
+function getMaxRequestPerMinute(env: Env) {
+  const value = Number(env.PLATFORM_MAX_REQUEST_PER_MINUTE ?? '30');
+  return Number.isFinite(value) && value > 0 ? value : 30;
+}
+
+/**
+ * 所有读书接口请求共用每分钟请求额度，额度用完时直接报错，由任务队列稍后重试。
+ * 需要账号的请求在选账号之前获取，其他请求在发送前获取
+ */
+async function acquireRequestBudget(env: Env) {
+  const now = Date.now();
+  const windowStart = now - (now % 60000);
+  const count = await consumeRequestBudget(env.DB, windowStart);
+  const limit = getMaxRequestPerMinute(env);
+  if (count > limit) {
+    const error = new Error(`读书接口请求已达每分钟上限（${limit}）`);
+    (error as any).budgetExceeded = true;
+    (error as any).retryAfter = Math.ceil((windowStart + 60000 - now) / 1e3);
+    throw error;
+  }
+}
+
 async function fetchJson<T>(
   env: Env,
   path: string,
@@ -78,6 +120,9 @@ async function fetchJson<T>(
       const error = new Error(data?.message || `Request failed: ${res.status}`);
       (error as any).status = res.status;
       (error as any).data = data;
+      (error as any).retryAfter = parseRetryAfter(
+        res.headers.get('retry-after'),
+      );
       throw error;
     }
     return data;
@@ -86,25 +131,37 @@ async function fetchJson<T>(
   }
 }
 
-async function getAvailableAccount(env: Env) {
-  const blocked = getBlockedAccountIds();
-  const accounts = await getAvailableAccounts(env.DB, blocked);
-  if (!accounts.length) {
-    throw new Error('暂无可用读书账号!');
-  }
-  return accounts[Math.floor(Math.random() * accounts.length)];
+function getAccountDailyQuota(env: Env) {
+  const value = Number(env.ACCOUNT_DAILY_QUOTA ?? '0');
+  return Number.isFinite(value) && value > 0 ? value : 0;
 }
 
-async function handleAccountError(env: Env, accountId: string, message = '') {
-  const today = getTodayDate();
-  const blockedAccounts = blockedAccountsMap.get(today) || [];
+function parsePlatformError(error: any): PlatformError {
+  return {
+    status: error?.status,
+    message: error?.data?.message || error?.message || '',
+    retryAfter: error?.retryAfter,
+    budgetExceeded: error?.budgetExceeded,
+  };
+}
 
-  if (message.includes('WeReadError401')) {
-    await updateAccount(env.DB, accountId, { status: statusMap.INVALID });
-  } else if (message.includes('WeReadError429')) {
-    blockedAccounts.push(accountId);
-    blockedAccountsMap.set(today, blockedAccounts);
-  }
+/**
+ * 选出一个账号请求读书接口，出错时更新账号状态，按错误类型换账号重试
+ */
+function requestPlatform<T>(
+  env: Env,
+  name: string,
+  request: (account: { id: string; token: string }) => Promise<T>,
+  retryCount = 0,
+) {
+  return requestWithAccount(new D1Store(env.DB), {
+    name,
+    request,
+    parseError: parsePlatformError,
+    defaultQuota: getAccountDailyQuota(env),
+    retryCount,
+    acquireBudget: () => acquireRequestBudget(env),
+  });
 }
 
 export async function getMpArticles(
@@ -113,30 +170,22 @@ export async function getMpArticles(
   page = 1,
   retryCount = 3,
 ) {
-  const account = await getAvailableAccount(env);
-
-  try {
-    return await fetchJson<
-      {
-        id: string;
-        title: string;
-        picUrl: string;
-        publishTime: number;
-      }[]
-    >(env, `/api/v2/platform/mps/${mpId}/articles?page=${page}`, {
-      headers: {
-        xid: account.id,
-        Authorization: `Bearer ${account.token}`,
-      },
-    });
-  } catch (error: any) {
-    const message = error?.data?.message || error.message || '';
-    await handleAccountError(env, account.id, message);
-    if (retryCount > 0) {
-      return getMpArticles(env, mpId, page, retryCount - 1);
-    }
-    throw error;
-  }
+  return requestPlatform(
+    env,
+    `getMpArticles(${mpId})`,
+    (account) =>
+      fetchJson<MpArticle[]>(
+        env,
+        `/api/v2/platform/mps/${mpId}/articles?page=${page}`,
+        {
+          headers: {
+            xid: account.id,
+            Authorization: `Bearer ${account.token}`,
+          },
+        },
+      ),
+    retryCount,
+  );
 }
 
 export async function refreshMpArticlesAndUpdateFeed(
@@ -144,97 +193,258 @@ export async function refreshMpArticlesAndUpdateFeed(
   mpId: string,
   page = 1,
 ) {
-  const articles = await getMpArticles(env, mpId, page);
+  // 新文章的 webhook 由 JOB_CRON 发送，不阻塞更新
+  return refreshMpArticles(new D1Store(env.DB), {
+    mpId,
+    page,
+    getMpArticles: (mpId, page) => getMpArticles(env, mpId, page),
+  });
+}
 
-  if (articles.length > 0) {
-    await upsertArticles(env.DB, mpId, articles);
+/**
+ * 订阅源缓存按版本号区分，更新版本号即可让旧缓存失效；全部文章的订阅源一并失效
+ */
+export async function invalidateFeedCache(env: Env, mpId: string) {
+  await bumpCacheVersions(env.DB, [mpId, 'all']);
+}
+
+export type Job = Awaited<ReturnType<typeof enqueueJob>>;
+
+/**
+ * 任务失败后的重试计划：请求额度用完不计入失败次数，等下一分钟再执行；
+ * 失败次数达到上限时 runAt 为 null
+ */
+export function getJobRetry(
+  error: any,
+  attempts: number,
+  delaySeconds: number,
+) {
+  const message = error?.data?.message || error?.message || `${error}`;
+  const now = Math.floor(Date.now() / 1e3);
+  if (error?.budgetExceeded) {
+    return { attempts, message, runAt: now + error.retryAfter };
   }
+  const nextAttempts = attempts + 1;
+  return {
+    attempts: nextAttempts,
+    message,
+    runAt:
+      nextAttempts >= maxJobAttempts
+        ? null
+        : now + Math.max(nextAttempts * delaySeconds, error?.retryAfter || 0),
+  };
+}
 
-  const hasHistory = articles.length < defaultCount ? 0 : 1;
-  await updateFeed(env.DB, mpId, {
-    syncTime: Math.floor(Date.now() / 1e3),
-    hasHistory,
-  });
+/**
+ * 执行一次更新任务，失败时按重试计划重新排队
+ */
+export async function runJob(env: Env, job: Job) {
+  try {
+    await refreshMpArticlesAndUpdateFeed(env, job.mpId);
+    await completeJob(env.DB, job.id);
+  } catch (error) {
+    const { attempts, message, runAt } = getJobRetry(
+      error,
+      job.attempts,
+      getUpdateDelaySeconds(env),
+    );
+    if (runAt === null) {
+      await failJob(env.DB, job.id, message, attempts);
+    } else {
+      await requeueJob(env.DB, job.id, { attempts, error: message, runAt });
+    }
+    await postponeFeedSync(env, job.mpId);
+    throw error;
+  }
+}
 
-  return { hasHistory };
+/**
+ * 更新失败时推迟下次更新，避免失败的公众号每次定时任务都重新加入队列
+ */
+async function postponeFeedSync(env: Env, mpId: string) {
+  const feed = await getFeedById(env.DB, mpId);
+  if (feed && feed.refreshMode !== feedRefreshModes.GLOBAL) {
+    await updateFeed(env.DB, mpId, { nextSyncAt: getRetryNextSyncAt(feed) });
+  }
 }
 
-export async function getHistoryMpArticles(env: Env, mpId: string) {
-  if (inProgressHistoryMp.id === mpId) {
+/**
+ * 每次调度只执行一个更新任务，任务之间的间隔由 cron 频率和 run_at 控制；
+ * 历史文章任务由各自的 HistoryBackfill 执行
+ */
+export async function processJobQueue(env: Env) {
+  const job = await claimNextJob(env.DB, jobTypes.REFRESH, getJobStaleMs(env));
+  if (!job) {
     return;
   }
+  try {
+    await runJob(env, job);
+  } catch (error) {
+    console.error('[jobs] job failed:', job.id, error);
+  }
+}
+
+export async function refreshMpArticlesNow(env: Env, mpId: string) {
+  const job = await enqueueJob(env.DB, jobTypes.REFRESH, mpId);
+  if (await claimJob(env.DB, job.id)) {
+    await runJob(env, job);
+  }
+}
+
+/**
+ * 每个公众号的历史文章由一个 Durable Object 按 UPDATE_DELAY_TIME 逐页获取，
+ * jobs 表中的记录用于展示进度
+ */
+function getHistoryBackfill(env: Env, mpId: string) {
+  const { HISTORY_BACKFILL } = env;
+  return HISTORY_BACKFILL.get(HISTORY_BACKFILL.idFromName(mpId));
+}
 
-  inProgressHistoryMp.id = mpId;
-  inProgressHistoryMp.page = 1;
+function startHistoryBackfill(env: Env, job: Job) {
+  return getHistoryBackfill(env, job.mpId).fetch(
+    'https://history-backfill/start',
+    {
+      method: 'POST',
+      body: JSON.stringify({ jobId: job.id, mpId: job.mpId, page: job.page }),
+    },
+  );
+}
 
-  if (!inProgressHistoryMp.id) {
+export async function getHistoryMpArticles(env: Env, mpId: string) {
+  const feed = await getFeedById(env.DB, mpId);
+  if (!feed) {
     return;
   }
 
-  try {
-    const feed = await getFeedById(env.DB, mpId);
-    if (!feed) {
-      return;
-    }
+  if (feed.hasHistory === 0) {
+    return;
+  }
 
-    if (feed.hasHistory === 0) {
-      return;
-    }
+  const total = await countArticlesByMpId(env.DB, mpId);
+  const job = await enqueueJob(env.DB, jobTypes.HISTORY, mpId, {
+    page: Math.max(Math.ceil(total / defaultCount), 1),
+  });
+  await startHistoryBackfill(env, job);
+  return job;
+}
 
-    const total = await countArticlesByMpId(env.DB, mpId);
-    inProgressHistoryMp.page = Math.ceil(total / defaultCount);
+export async function stopHistoryMpArticles(env: Env, mpId?: string) {
+  const mpIds = mpId
+    ? [mpId]
+    : (await listActiveJobs(env.DB, jobTypes.HISTORY)).map((job) => job.mpId);
+  await cancelJobs(env.DB, jobTypes.HISTORY, mpId);
+  for (const id of mpIds) {
+    await getHistoryBackfill(env, id).fetch('https://history-backfill/stop', {
+      method: 'POST',
+    });
+  }
+}
 
-    let i = 1000;
-    while (i-- > 0) {
-      if (inProgressHistoryMp.id !== mpId) {
-        break;
-      }
-      const { hasHistory } = await refreshMpArticlesAndUpdateFeed(
-        env,
-        mpId,
-        inProgressHistoryMp.page,
-      );
-      if (hasHistory < 1) {
-        break;
-      }
-      inProgressHistoryMp.page++;
-      await sleep(getUpdateDelaySeconds(env) * 1000);
+export async function getInProgressHistoryMp(env: Env) {
+  const jobs = await listActiveJobs(env.DB, jobTypes.HISTORY);
+  return jobs.map(({ mpId, page, status }) => ({ id: mpId, page, status }));
+}
+
+/**
+ * 长时间未更新进度的历史文章任务重新交给 HistoryBackfill，
+ * 如升级前加入队列的任务；HistoryBackfill 已在执行同一任务时不受影响
+ */
+export async function resumeHistoryBackfills(env: Env) {
+  const staleBefore = Date.now() - getJobStaleMs(env);
+  const jobs = await listActiveJobs(env.DB, jobTypes.HISTORY);
+  for (const job of jobs) {
+    if (new Date(job.updatedAt).getTime() < staleBefore) {
+      await startHistoryBackfill(env, job);
     }
-  } finally {
-    inProgressHistoryMp.id = '';
-    inProgressHistoryMp.page = 1;
   }
 }
 
-export function getInProgressHistoryMp() {
-  return { ...inProgressHistoryMp };
+/**
+ * 按批次类型读取下一批公众号，global 只包含跟随 FEED_CRON 更新的公众号
+ */
+function listSyncFeedIds(env: Env, name: SyncCursorName, after: string) {
+  const query = { after, limit: syncBatchSize };
+  return name === syncCursorNames.GLOBAL
+    ? listGlobalScheduleFeedIds(env.DB, query)
+    : listFeedIds(env.DB, query);
 }
 
-export async function refreshAllMpArticlesAndUpdateFeed(env: Env) {
-  if (isRefreshAllMpArticlesRunning) {
-    return;
+/**
+ * 将下一批公众号加入更新队列并记录进度，本轮已完成或未开始时返回 0
+ */
+export async function continueFeedSync(env: Env, name: SyncCursorName) {
+  const cursor = await getSyncCursor(env.DB, name);
+  if (!cursor || cursor.finishedAt) {
+    return 0;
   }
 
-  isRefreshAllMpArticlesRunning = true;
-  try {
-    const feeds = await listAllFeeds(env.DB);
-    for (const feed of feeds) {
-      await refreshMpArticlesAndUpdateFeed(env, feed.id);
-      await sleep(getUpdateDelaySeconds(env) * 1000);
-    }
-  } finally {
-    isRefreshAllMpArticlesRunning = false;
+  const ids = await listSyncFeedIds(env, name, cursor.cursor);
+  await enqueueJobs(env.DB, jobTypes.REFRESH, ids);
+  await advanceSyncCursor(env.DB, name, {
+    cursor: ids.length ? ids[ids.length - 1] : cursor.cursor,
+    finished: ids.length < syncBatchSize,
+  });
+  return ids.length;
+}
+
+/**
+ * 开始新一轮分批更新，并立即加入第一批；剩余的由之后的 JOB_CRON 继续
+ */
+export async function startFeedSync(env: Env, name: SyncCursorName) {
+  const cursor = await getSyncCursor(env.DB, name);
+  if (cursor && !cursor.finishedAt) {
+    console.warn(`[jobs] ${name} sync restarted before finishing`);
   }
+  await startSyncCursor(env.DB, name);
+  return continueFeedSync(env, name);
+}
+
+/**
+ * 跟随 FEED_CRON 更新的公众号分批加入更新队列
+ */
+export async function refreshGlobalScheduleFeeds(env: Env) {
+  return startFeedSync(env, syncCursorNames.GLOBAL);
+}
+
+/**
+ * 按间隔或自适应更新、且已到计划时间的公众号加入更新队列，每次最多一批
+ */
+export async function refreshDueFeeds(env: Env) {
+  const ids = await listDueFeedIds(
+    env.DB,
+    Math.floor(Date.now() / 1e3),
+    syncBatchSize,
+  );
+  await enqueueJobs(env.DB, jobTypes.REFRESH, ids);
+  return ids.length;
 }
 
-export function getIsRefreshAllMpArticlesRunning() {
-  return isRefreshAllMpArticlesRunning;
+/**
+ * JOB_CRON 调度时继续未完成的分批更新，再加入已到计划时间的公众号
+ */
+export async function enqueueScheduledFeeds(env: Env) {
+  for (const name of Object.values(syncCursorNames)) {
+    await continueFeedSync(env, name);
+  }
+  await refreshDueFeeds(env);
+}
+
+export async function refreshAllMpArticlesAndUpdateFeed(env: Env) {
+  await startFeedSync(env, syncCursorNames.ALL);
+}
+
+export async function getIsRefreshAllMpArticlesRunning(env: Env) {
+  const cursor = await getSyncCursor(env.DB, syncCursorNames.ALL);
+  if (cursor && !cursor.finishedAt) {
+    return true;
+  }
+  const jobs = await listActiveJobs(env.DB, jobTypes.REFRESH);
+  return jobs.length > 0;
 }
 
 export async function getMpInfo(env: Env, url: string) {
-  const account = await getAvailableAccount(env);
-  try {
-    return await fetchJson<
+  return requestPlatform(env, 'getMpInfo', (account) =>
+    fetchJson<
       {
         id: string;
         cover: string;
@@ -250,26 +460,20 @@ export async function getMpInfo(env: Env, url: string) {
         Authorization: `Bearer ${account.token}`,
       },
       body: JSON.stringify({ url: url.trim() }),
-    });
-  } catch (error: any) {
-    const message = error?.data?.message || error.message || '';
-    await handleAccountError(env, account.id, message);
-    throw error;
-  }
+    }),
+  );
 }
 
 export async function createLoginUrl(env: Env) {
+  await acquireRequestBudget(env);
   return fetchJson<{
     uuid: string;
     scanUrl: string;
   }>(env, '/api/v2/login/platform');
 }
 
-export async function getLoginResult(
-  env: Env,
-  id: string,
-  timeoutMs = 120000,
-) {
+export async function getLoginResult(env: Env, id: string, timeoutMs = 120000) {
+  await acquireRequestBudget(env);
   return fetchJson<{
     message: string;
     vid?: number;
@@ -277,3 +481,77 @@ export async function getLoginResult(
     username?: string;
   }>(env, `/api/v2/login/platform/${id}`, { timeoutMs });
 }
+
+/**
+ * 从其他 WeWe-RSS 实例导出的 OPML 导入订阅源，新增的订阅源加入更新队列，返回每一项的导入结果
+ */
+export async function importOpml(env: Env, content: string) {
+  const entries = parseOpml(content);
+  const groupIds = new Map<string, string>();
+  const results: {
+    id: string | null;
+    mpName: string;
+    xmlUrl: string;
+    success: boolean;
+    message: string;
+  }[] = [];
+
+  for (const entry of entries) {
+    const { id, mpName, xmlUrl } = entry;
+    if (!id) {
+      results.push({
+        id,
+        mpName,
+        xmlUrl,
+        success: false,
+        message: '不是 WeWe-RSS 的订阅地址',
+      });
+      continue;
+    }
+
+    try {
+      const existing = await getFeedById(env.DB, id);
+      if (!existing) {
+        await upsertFeed(env.DB, {
+          id,
+          mpName: mpName || id,
+          mpCover: entry.mpCover,
+          mpIntro: entry.mpIntro,
+          syncTime: 0,
+          updateTime: Math.floor(Date.now() / 1e3),
+          status: statusMap.ENABLE,
+        });
+        await enqueueJob(env.DB, jobTypes.REFRESH, id);
+      }
+
+      if (entry.groupName) {
+        let groupId = groupIds.get(entry.groupName);
+        if (!groupId) {
+          groupId = await getOrCreateFeedGroupByName(env.DB, entry.groupName);
+          groupIds.set(entry.groupName, groupId);
+        }
+        await addFeedGroupFeed(env.DB, groupId, id);
+        await invalidateFeedCache(env, `group/${groupId}`);
+      }
+
+      results.push({
+        id,
+        mpName,
+        xmlUrl,
+        success: true,
+        message: existing ? '已存在' : '已添加',
+      });
+    } catch (error: any) {
+      console.error(`[opml] import ${id} failed:`, error);
+      results.push({
+        id,
+        mpName,
+        xmlUrl,
+        success: false,
+        message: error?.message || String(error),
+      });
+    }
+  }
+
+  return results;
+}
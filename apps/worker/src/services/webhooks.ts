@@ -0,0 +1,49 @@
+import { deliverWebhooks } from '@wewe-rss/core';
+import type { WebhookClient } from '@wewe-rss/core';
+import type { Env } from '../types';
+import { D1Store } from './d1-store';
+
+const encoder = new TextEncoder();
+
+export const webhookClient: WebhookClient = {
+  async send({ url, headers, body, timeout }) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeout),
+    });
+    // 释放响应体，避免占用连接
+    await res.body?.cancel();
+    return res.status;
+  },
+  async sign(secret, data) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      encoder.encode(data),
+    );
+    return [...new Uint8Array(signature)]
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  },
+};
+
+/**
+ * 发送到期的 webhook 记录，有新文章时和每次 JOB_CRON 调度时执行
+ */
+export async function processWebhookQueue(env: Env) {
+  try {
+    return await deliverWebhooks(new D1Store(env.DB), webhookClient);
+  } catch (err) {
+    console.error('[webhook] deliver failed:', err);
+    return 0;
+  }
+}
@@ -0,0 +1,21 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * 测试时在 Miniflare 的 D1 中执行 schema.sql，触发器内部的语句不拆分
+ */
+export async function applySchema(db: D1Database) {
+  const sql = readFileSync(join(__dirname, '../schema.sql'), 'utf-8');
+  let statement = '';
+  for (const line of sql.split('\n')) {
+    if (!statement && (!line.trim() || line.startsWith('--'))) {
+      continue;
+    }
+    statement += `${line}\n`;
+    const inTrigger = /^CREATE TRIGGER/.test(statement);
+    if (inTrigger ? line.trim() === 'END;' : line.trim().endsWith(';')) {
+      await db.prepare(statement).run();
+      statement = '';
+    }
+  }
+}
@@ -3,12 +3,17 @@ import type { Env } from '../types';
 export interface TrpcContext {
   env: Env;
   authError: string | null;
+  waitUntil: (promise: Promise<unknown>) => void;
 }
 
-export function createContext(env: Env, req: Request): TrpcContext {
+export function createContext(
+  env: Env,
+  req: Request,
+  waitUntil: (promise: Promise<unknown>) => void,
+): TrpcContext {
   const authCode = env.AUTH_CODE?.trim();
   const requestAuth = req.headers.get('authorization') || '';
   const authError = authCode && requestAuth !== authCode ? 'authCode不正确！' : null;
 
-  return { env, authError };
+  return { env, authError, waitUntil };
 }
@@ -1,21 +1,63 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import { z } from 'zod';
-import { statusMap } from '../constants';
+import {
+  enqueueWebhookPing,
+  findUnknownVariables,
+  mergeNotifyTemplates,
+  notifyTemplateVariables,
+  previewNotifyTemplate,
+} from '@wewe-rss/core';
+import {
+  backupSections,
+  backupVersion,
+  feedRefreshModes,
+  minRefreshInterval,
+  notifyEvents,
+  statusMap,
+  webhookEvents,
+} from '../constants';
 import type { TrpcContext } from './context';
 import {
+  createAlertFeed,
+  createFeedGroup,
+  createWebhook,
   deleteAccount,
+  deleteAlertFeed,
+  deleteFeedGroup,
   deleteFeed,
+  deleteNotifyTemplate,
+  deleteWebhook,
   getAccountById,
   getFeedById,
+  getFeedGroupById,
   listAccounts,
+  listAlertFeeds,
+  listFeedGroups,
   listArticles,
+  listFailedArticleContents,
   listFeeds,
+  listNotifyTemplates,
+  listWebhookDeliveries,
+  listWebhooks,
+  retryArticleContents,
+  retryWebhookDelivery,
+  setFeedGroupFeeds,
   updateAccount,
+  updateAlertFeed,
   updateFeed,
+  updateFeedGroup,
+  updateWebhook,
   upsertAccount,
   upsertFeed,
+  upsertNotifyTemplate,
 } from '../services/db-queries';
 import { toArticleDto } from '../db';
+import { searchArticles } from '../services/search';
+import {
+  countSections,
+  exportSection,
+  restoreSection,
+} from '../services/backup';
 import {
   createLoginUrl,
   getBlockedAccountIds,
@@ -25,13 +67,39 @@ import {
   getLoginResult,
   getMpArticles,
   getMpInfo,
+  importOpml,
+  invalidateFeedCache,
+  processJobQueue,
   refreshAllMpArticlesAndUpdateFeed,
-  refreshMpArticlesAndUpdateFeed,
+  refreshMpArticlesNow,
   removeBlockedAccount,
+  stopHistoryMpArticles,
 } from '../services/trpc-service';
+import { D1Store } from '../services/d1-store';
+import { processWebhookQueue } from '../services/webhooks';
 
 const t = initTRPC.context<TrpcContext>().create();
 
+const webhookInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  url: z
+    .string()
+    .url()
+    .max(1024)
+    .regex(/^https?:\/\//, '仅支持 http/https 地址'),
+  secret: z.string().min(1).max(255),
+  // 为空表示全部公众号
+  mpIds: z.array(z.string()),
+  events: z.array(z.nativeEnum(webhookEvents)).min(1),
+  status: z.number().int(),
+});
+
+const notifyTemplateInput = z.object({
+  event: z.nativeEnum(notifyEvents),
+  title: z.string().trim().min(1).max(255),
+  content: z.string().trim().min(1).max(10000),
+});
+
 const protectedProcedure = t.procedure.use(({ ctx, next }) => {
   if (ctx.authError) {
     throw new TRPCError({ code: 'UNAUTHORIZED', message: ctx.authError });
@@ -56,7 +124,7 @@ export const appRouter = t.router({
           input.cursor,
         );
         return {
-          blocks: getBlockedAccountIds(),
+          blocks: await getBlockedAccountIds(ctx.env),
           items,
           nextCursor,
         };
@@ -82,7 +150,7 @@ export const appRouter = t.router({
       )
       .mutation(async ({ ctx, input }) => {
         const account = await upsertAccount(ctx.env.DB, input);
-        removeBlockedAccount(input.id);
+        await removeBlockedAccount(ctx.env, input.id);
         return account;
       }),
     edit: protectedProcedure
@@ -93,19 +161,21 @@ export const appRouter = t.router({
             token: z.string().min(1).optional(),
             name: z.string().min(1).optional(),
             status: z.number().optional(),
+            dailyQuota: z.number().int().min(0).nullable().optional(),
           }),
         }),
       )
       .mutation(async ({ ctx, input }) => {
+        if (input.data.status !== undefined || input.data.token) {
+          await removeBlockedAccount(ctx.env, input.id);
+        }
         const account = await updateAccount(ctx.env.DB, input.id, input.data);
-        removeBlockedAccount(input.id);
         return account;
       }),
     delete: protectedProcedure
       .input(z.string())
       .mutation(async ({ ctx, input }) => {
         await deleteAccount(ctx.env.DB, input);
-        removeBlockedAccount(input);
         return input;
       }),
   }),
@@ -162,18 +232,57 @@ export const appRouter = t.router({
             syncTime: z.number().optional(),
             updateTime: z.number().optional(),
             status: z.number().optional(),
+            refreshMode: z
+              .enum([
+                feedRefreshModes.GLOBAL,
+                feedRefreshModes.INTERVAL,
+                feedRefreshModes.ADAPTIVE,
+              ])
+              .optional(),
+            refreshInterval: z
+              .number()
+              .int()
+              .min(minRefreshInterval)
+              .optional(),
           }),
         }),
       )
       .mutation(async ({ ctx, input }) => {
-        return updateFeed(ctx.env.DB, input.id, input.data);
+        const { data } = input;
+        // 切换为固定间隔时必须有有效的间隔，否则每次定时任务都会重复更新
+        if (
+          data.refreshMode === feedRefreshModes.INTERVAL &&
+          data.refreshInterval === undefined
+        ) {
+          const current = await getFeedById(ctx.env.DB, input.id);
+          if ((current?.refreshInterval ?? 0) < minRefreshInterval) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `refreshInterval must be at least ${minRefreshInterval} seconds`,
+            });
+          }
+        }
+        const feed = await updateFeed(ctx.env.DB, input.id, {
+          ...data,
+          nextSyncAt: data.refreshMode || data.refreshInterval ? 0 : undefined,
+        });
+        await invalidateFeedCache(ctx.env, input.id);
+        return feed;
       }),
     delete: protectedProcedure
       .input(z.string())
       .mutation(async ({ ctx, input }) => {
         await deleteFeed(ctx.env.DB, input);
+        await invalidateFeedCache(ctx.env, input);
         return input;
       }),
+    // 导入其他 WeWe-RSS 实例导出的 OPML
+    importOpml: protectedProcedure
+      .input(z.object({ content: z.string().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const items = await importOpml(ctx.env, input.content);
+        return { items };
+      }),
     refreshArticles: protectedProcedure
       .input(
         z.object({
@@ -182,13 +291,16 @@ export const appRouter = t.router({
       )
       .mutation(async ({ ctx, input }) => {
         if (input.mpId) {
-          await refreshMpArticlesAndUpdateFeed(ctx.env, input.mpId);
+          await refreshMpArticlesNow(ctx.env, input.mpId);
+          // 手动更新后在后台发送新文章的 webhook
+          ctx.waitUntil(processWebhookQueue(ctx.env));
         } else {
           await refreshAllMpArticlesAndUpdateFeed(ctx.env);
+          ctx.waitUntil(processJobQueue(ctx.env));
         }
       }),
-    isRefreshAllMpArticlesRunning: protectedProcedure.query(() => {
-      return getIsRefreshAllMpArticlesRunning();
+    isRefreshAllMpArticlesRunning: protectedProcedure.query(({ ctx }) => {
+      return getIsRefreshAllMpArticlesRunning(ctx.env);
     }),
     getHistoryArticles: protectedProcedure
       .input(
@@ -197,11 +309,284 @@ export const appRouter = t.router({
         }),
       )
       .mutation(async ({ ctx, input }) => {
-        await getHistoryMpArticles(ctx.env, input.mpId ?? '');
+        if (!input.mpId) {
+          await stopHistoryMpArticles(ctx.env);
+          return;
+        }
+        await getHistoryMpArticles(ctx.env, input.mpId);
+      }),
+    stopHistoryArticles: protectedProcedure
+      .input(
+        z.object({
+          mpId: z.string(),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        await stopHistoryMpArticles(ctx.env, input.mpId);
+      }),
+    getInProgressHistoryMp: protectedProcedure.query(({ ctx }) => {
+      return getInProgressHistoryMp(ctx.env);
+    }),
+  }),
+  group: t.router({
+    // 分组列表，附带每个分组的公众号 id
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const items = await listFeedGroups(ctx.env.DB);
+      return { items };
+    }),
+    add: protectedProcedure
+      .input(
+        z.object({
+          name: z.string().trim().min(1).max(255),
+          sort: z.number().int().optional(),
+          mpIds: z.array(z.string()).optional(),
+        }),
+      )
+      .mutation(async ({ ctx, input: { mpIds, ...data } }) => {
+        const id = await createFeedGroup(ctx.env.DB, data);
+        if (mpIds) {
+          await setFeedGroupFeeds(ctx.env.DB, id, mpIds);
+        }
+        return getFeedGroupById(ctx.env.DB, id);
+      }),
+    edit: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          data: z.object({
+            name: z.string().trim().min(1).max(255).optional(),
+            sort: z.number().int().optional(),
+            // 传入时替换分组内的全部公众号
+            mpIds: z.array(z.string()).optional(),
+          }),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        const {
+          id,
+          data: { mpIds, ...data },
+        } = input;
+        await updateFeedGroup(ctx.env.DB, id, data);
+        if (mpIds) {
+          await setFeedGroupFeeds(ctx.env.DB, id, mpIds);
+        }
+        const group = await getFeedGroupById(ctx.env.DB, id);
+        if (!group) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `No feed group with id '${id}'`,
+          });
+        }
+        await invalidateFeedCache(ctx.env, `group/${id}`);
+        return group;
+      }),
+    delete: protectedProcedure
+      .input(z.string())
+      .mutation(async ({ ctx, input: id }) => {
+        await deleteFeedGroup(ctx.env.DB, id);
+        await invalidateFeedCache(ctx.env, `group/${id}`);
+        return id;
+      }),
+  }),
+  backup: t.router({
+    // counts 为每类数据的记录数，迁移数据库时用于校验
+    info: protectedProcedure.query(async ({ ctx }) => {
+      return {
+        version: backupVersion,
+        sections: backupSections,
+        counts: await countSections(ctx.env.DB),
+      };
+    }),
+    // 分页导出，includeTokens 为 false 时不导出账号 token
+    export: protectedProcedure
+      .input(
+        z.object({
+          section: z.enum(backupSections),
+          cursor: z.string().nullish(),
+          limit: z.number().min(1).max(1000).nullish(),
+          includeTokens: z.boolean().default(false),
+        }),
+      )
+      .query(async ({ ctx, input }) => {
+        return exportSection(ctx.env.DB, {
+          ...input,
+          limit: input.limit ?? 500,
+        });
+      }),
+    // 分批导入，已存在的记录会被覆盖
+    restore: protectedProcedure
+      .input(
+        z.object({
+          version: z.number().int(),
+          section: z.enum(backupSections),
+          items: z.array(z.unknown()).max(1000),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.version > backupVersion) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `不支持的备份版本 ${input.version}，请升级后再导入`,
+          });
+        }
+        try {
+          const count = await restoreSection(
+            ctx.env.DB,
+            input.section,
+            input.items,
+          );
+          return { count };
+        } catch (error: any) {
+          console.error(`[backup] restore ${input.section} error:`, error);
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error?.message || String(error),
+          });
+        }
+      }),
+  }),
+  alert: t.router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const items = await listAlertFeeds(ctx.env.DB);
+      return { items };
+    }),
+    add: protectedProcedure
+      .input(
+        z.object({
+          name: z.string().min(1).max(255),
+          keyword: z.string().trim().min(1).max(100),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        return createAlertFeed(ctx.env.DB, input);
+      }),
+    edit: protectedProcedure
+      .input(
+        z.object({
+          id: z.string(),
+          data: z.object({
+            name: z.string().min(1).max(255).optional(),
+            keyword: z.string().trim().min(1).max(100).optional(),
+          }),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, data } = input;
+        const alert = await updateAlertFeed(ctx.env.DB, id, data);
+        if (!alert) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `No alert feed with id '${id}'`,
+          });
+        }
+        await invalidateFeedCache(ctx.env, `alert/${id}`);
+        return alert;
+      }),
+    delete: protectedProcedure
+      .input(z.string())
+      .mutation(async ({ ctx, input: id }) => {
+        await deleteAlertFeed(ctx.env.DB, id);
+        await invalidateFeedCache(ctx.env, `alert/${id}`);
+        return id;
+      }),
+  }),
+  webhook: t.router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const items = await listWebhooks(ctx.env.DB);
+      return { items };
+    }),
+    add: protectedProcedure
+      .input(webhookInput)
+      .mutation(async ({ ctx, input }) => {
+        return createWebhook(ctx.env.DB, input);
+      }),
+    edit: protectedProcedure
+      .input(z.object({ id: z.string(), data: webhookInput.partial() }))
+      .mutation(async ({ ctx, input }) => {
+        const { id, data } = input;
+        const webhook = await updateWebhook(ctx.env.DB, id, data);
+        if (!webhook) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `No webhook with id '${id}'`,
+          });
+        }
+        return webhook;
+      }),
+    delete: protectedProcedure
+      .input(z.string())
+      .mutation(async ({ ctx, input: id }) => {
+        await deleteWebhook(ctx.env.DB, id);
+        return id;
+      }),
+    // 发送一条 ping 事件，结果在发送记录中查看
+    test: protectedProcedure
+      .input(z.string())
+      .mutation(async ({ ctx, input: id }) => {
+        await enqueueWebhookPing(new D1Store(ctx.env.DB), id);
+        await processWebhookQueue(ctx.env);
+        return id;
+      }),
+    deliveries: protectedProcedure
+      .input(
+        z.object({
+          webhookId: z.string(),
+          limit: z.number().min(1).max(100).nullish(),
+          cursor: z.number().nullish(),
+        }),
+      )
+      .query(async ({ ctx, input }) => {
+        return listWebhookDeliveries(ctx.env.DB, {
+          webhookId: input.webhookId,
+          limit: input.limit ?? 20,
+          cursor: input.cursor,
+        });
+      }),
+    retry: protectedProcedure
+      .input(z.number())
+      .mutation(async ({ ctx, input: id }) => {
+        await retryWebhookDelivery(ctx.env.DB, id);
+        await processWebhookQueue(ctx.env);
+        return id;
       }),
-    getInProgressHistoryMp: protectedProcedure.query(() => {
-      return getInProgressHistoryMp();
+  }),
+  notify: t.router({
+    // 每个事件的通知模板，未保存的事件返回默认模板
+    templates: protectedProcedure.query(async ({ ctx }) => {
+      const templates = await listNotifyTemplates(ctx.env.DB);
+      return {
+        variables: notifyTemplateVariables,
+        items: mergeNotifyTemplates(templates),
+      };
     }),
+    saveTemplate: protectedProcedure
+      .input(notifyTemplateInput)
+      .mutation(async ({ ctx, input }) => {
+        await upsertNotifyTemplate(ctx.env.DB, input);
+        return input.event;
+      }),
+    // 删除保存的模板，恢复为默认模板
+    resetTemplate: protectedProcedure
+      .input(z.nativeEnum(notifyEvents))
+      .mutation(async ({ ctx, input: event }) => {
+        await deleteNotifyTemplate(ctx.env.DB, event);
+        return event;
+      }),
+    // 使用示例账号渲染模板，不会发送通知
+    preview: protectedProcedure
+      .input(notifyTemplateInput)
+      .query(async ({ input: { event, ...template } }) => {
+        const { title, markdown, text } = previewNotifyTemplate(
+          event,
+          template,
+        );
+        return {
+          title,
+          markdown,
+          text,
+          unknownVariables: findUnknownVariables(template),
+        };
+      }),
   }),
   article: t.router({
     list: protectedProcedure
@@ -210,6 +595,7 @@ export const appRouter = t.router({
           limit: z.number().min(1).max(1000).nullish(),
           cursor: z.string().nullish(),
           mpId: z.string().nullish(),
+          groupId: z.string().nullish(),
         }),
       )
       .query(async ({ ctx, input }) => {
@@ -219,6 +605,7 @@ export const appRouter = t.router({
           limit,
           input.cursor,
           input.mpId,
+          input.groupId,
         );
         return { items, nextCursor };
       }),
@@ -235,6 +622,48 @@ export const appRouter = t.router({
       }
       return toArticleDto(article as any);
     }),
+    search: protectedProcedure
+      .input(
+        z.object({
+          keyword: z.string().max(100),
+          mpId: z.string().nullish(),
+          limit: z.number().min(1).max(100).nullish(),
+          cursor: z.number().min(0).nullish(),
+        }),
+      )
+      .query(async ({ ctx, input }) => {
+        return searchArticles(ctx.env.DB, {
+          keyword: input.keyword,
+          mpId: input.mpId,
+          limit: input.limit ?? 20,
+          offset: input.cursor ?? 0,
+        });
+      }),
+    // 全文抓取失败的文章，包括等待重试和重试次数用尽的
+    failedContents: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().min(1).max(1000).nullish(),
+        }),
+      )
+      .query(async ({ ctx, input }) => {
+        const items = await listFailedArticleContents(
+          ctx.env.DB,
+          input.limit ?? 100,
+        );
+        return { items };
+      }),
+    // 重新抓取全文，不传 ids 时重试全部失败的文章；指定 ids 时已抓取的也重新抓取，用于检查文章是否已被删除
+    retryContents: protectedProcedure
+      .input(
+        z.object({
+          ids: z.array(z.string()).nullish(),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        const count = await retryArticleContents(ctx.env.DB, input.ids);
+        return { count };
+      }),
     add: protectedProcedure
       .input(
         z.object({
@@ -1,12 +1,21 @@
 export interface Env {
   DB: D1Database;
+  HISTORY_BACKFILL: DurableObjectNamespace;
   AUTH_CODE?: string;
   SERVER_ORIGIN_URL?: string;
   PLATFORM_URL?: string;
+  PLATFORM_MAX_REQUEST_PER_MINUTE?: string;
+  ACCOUNT_DAILY_QUOTA?: string;
   FEED_MODE?: string;
   UPDATE_DELAY_TIME?: string;
   ENABLE_CLEAN_HTML?: string;
   FEED_CRON?: string;
   ACCOUNT_CHECK_CRON?: string;
+  JOB_CRON?: string;
+  // 通知渠道 JSON 数组，见 README
+  NOTIFY_CHANNELS?: string;
+  // 旧版的钉钉机器人地址，只接收账号失效通知
   ACCOUNT_CHECK_WEBHOOK_URL?: string;
+  // 旧版钉钉机器人的加签密钥
+  ACCOUNT_CHECK_WEBHOOK_SECRET?: string;
 }
@@ -62,7 +62,7 @@ Pop-Location
 Write-Step "Set secrets"
 Push-Location "apps/worker"
 wrangler secret put AUTH_CODE
-wrangler secret put ACCOUNT_CHECK_WEBHOOK_URL
+wrangler secret put NOTIFY_CHANNELS
 Pop-Location
 
 Write-Step "Deploy Worker"
@@ -0,0 +1,279 @@
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone';
+import utc from 'dayjs/plugin/utc';
+import {
+  accountBlockDurationMap,
+  defaultAccountBlockDuration,
+  maxRetryAfterWait,
+  rateLimitBackoff,
+  successRateWeight,
+} from './constants';
+import type { AccountStore, CoreLogger, SchedulableAccount } from './types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回需要等待的秒数
+ */
+export function parseRetryAfter(value?: string | null) {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(Math.ceil(seconds), 0);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(Math.ceil((date - Date.now()) / 1e3), 0);
+}
+
+/**
+ * 从读书接口的错误信息中提取错误码，如 WeReadError429
+ */
+export function getWeReadErrorCode(message = '') {
+  return message.match(/WeReadError\d+/)?.[0] || '';
+}
+
+export function getBlockedUntil(
+  errCode: string,
+  rateLimitCount: number,
+  now = Math.floor(Date.now() / 1e3),
+) {
+  const duration =
+    errCode in accountBlockDurationMap
+      ? accountBlockDurationMap[errCode]
+      : defaultAccountBlockDuration;
+  if (duration === null) {
+    return (
+      now +
+      Math.min(
+        rateLimitBackoff.base * 2 ** Math.max(rateLimitCount - 1, 0),
+        rateLimitBackoff.max,
+      )
+    );
+  }
+  return now + duration;
+}
+
+/**
+ * 计算重试前的等待秒数，返回 null 表示不再重试
+ */
+export function getRetryDelay(
+  error: {
+    status?: number;
+    message?: string;
+    retryAfter?: number;
+    // 请求额度用完，交给任务队列稍后重试
+    budgetExceeded?: boolean;
+  },
+  attempt: number,
+) {
+  if (error.budgetExceeded) {
+    return null;
+  }
+  const { retryAfter } = error;
+  if (retryAfter !== undefined) {
+    return retryAfter > maxRetryAfterWait ? null : retryAfter;
+  }
+  if (error.status === 429 || error.message?.includes('WeReadError429')) {
+    return 2 ** attempt;
+  }
+  return 0;
+}
+
+/**
+ * 按指数滑动平均更新近期成功率
+ */
+export function getNextSuccessRate(successRate: number, success: boolean) {
+  return (
+    successRate * (1 - successRateWeight) + (success ? successRateWeight : 0)
+  );
+}
+
+/**
+ * 从全部可用账号中选出一个：跳过已达当日上限的账号，
+ * 按空闲时长乘以近期成功率打分，轮流使用且优先成功率高的账号
+ */
+export function pickAccount<T extends SchedulableAccount>(
+  accounts: T[],
+  {
+    defaultQuota,
+    now = Math.floor(Date.now() / 1e3),
+    today = getQuotaDate(),
+  }: { defaultQuota: number; now?: number; today?: string },
+) {
+  const candidates = accounts.filter((account) => {
+    const quota = account.dailyQuota ?? defaultQuota;
+    const used =
+      account.dailyRequestDate === today ? account.dailyRequestCount : 0;
+    return !quota || used < quota;
+  });
+
+  if (candidates.length === 0) {
+    throw new Error(
+      accounts.length > 0 ? '读书账号今日请求次数已用完!' : '暂无可用读书账号!',
+    );
+  }
+
+  const score = (account: T) =>
+    (now - account.lastUsedAt) * account.successRate;
+  return candidates.reduce((best, item) =>
+    score(item) > score(best) ? item : best,
+  );
+}
+
+/**
+ * 每日请求次数按北京时间计算
+ */
+export function getQuotaDate(date = new Date()) {
+  return dayjs(date).tz('Asia/Shanghai').format('YYYY-MM-DD');
+}
+
+/**
+ * 关入小黑屋，限流错误按连续次数指数退避，且不早于 Retry-After
+ */
+export async function blockAccount(
+  store: AccountStore,
+  {
+    id,
+    errCode,
+    reason,
+    retryAfter = 0,
+  }: { id: string; errCode: string; reason: string; retryAfter?: number },
+  logger: CoreLogger = console,
+) {
+  const rateLimitCount =
+    errCode === 'WeReadError429' ? await store.incrementRateLimit(id) : 0;
+  const now = Math.floor(Date.now() / 1e3);
+  const blockedUntil = Math.max(
+    getBlockedUntil(errCode, rateLimitCount, now),
+    now + retryAfter,
+  );
+  await store.setAccountBlock(id, {
+    blockedUntil,
+    blockErrorCode: errCode,
+    blockReason: reason,
+  });
+  logger.error(
+    `账号（${id}）${errCode}${rateLimitCount ? `（连续第 ${rateLimitCount} 次）` : ''}，关入小黑屋至 ${dayjs
+      .unix(blockedUntil)
+      .tz('Asia/Shanghai')
+      .format('YYYY-MM-DD HH:mm:ss')}`,
+  );
+  return blockedUntil;
+}
+
+/**
+ * 根据读书接口的错误码更新账号：401 登录失效，400 为请求参数错误不处理，其他错误关入小黑屋；返回错误码
+ */
+export async function handleAccountError(
+  store: AccountStore,
+  {
+    id,
+    message,
+    retryAfter,
+  }: { id: string; message: string; retryAfter?: number },
+  logger: CoreLogger = console,
+) {
+  const errCode = getWeReadErrorCode(message);
+  if (errCode === 'WeReadError401') {
+    await store.invalidateAccount(id);
+    logger.error(`账号（${id}）登录失效，已禁用`);
+  } else if (errCode === 'WeReadError400') {
+    logger.error(`账号（${id}）处理请求参数出错: ${message}`);
+  } else if (errCode) {
+    await blockAccount(
+      store,
+      { id, errCode, reason: message, retryAfter },
+      logger,
+    );
+  }
+  return errCode;
+}
+
+/**
+ * 读书接口请求的错误信息，由调用方从各自的 HTTP 错误中解析
+ */
+export type PlatformError = {
+  status?: number;
+  message: string;
+  retryAfter?: number;
+  budgetExceeded?: boolean;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 选出一个账号发起读书接口请求并记录结果，出错时更新账号状态，
+ * 按 getRetryDelay 等待后换账号重试，最多重试 retryCount 次。
+ * acquireBudget 在选账号之前获取请求额度，额度用完时抛出的错误不计入账号
+ */
+export async function requestWithAccount<T>(
+  store: AccountStore,
+  {
+    name,
+    request,
+    parseError,
+    defaultQuota,
+    retryCount = 0,
+    acquireBudget,
+  }: {
+    // 日志中显示的请求名称
+    name: string;
+    request: (account: SchedulableAccount) => Promise<T>;
+    parseError: (error: unknown) => PlatformError;
+    defaultQuota: number;
+    retryCount?: number;
+    acquireBudget?: () => Promise<void>;
+  },
+  logger: CoreLogger = console,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireBudget?.();
+    const account = pickAccount(await store.listAvailableAccounts(), {
+      defaultQuota,
+    });
+    await store.markAccountUsed(account.id, getQuotaDate());
+
+    try {
+      const result = await request(account);
+      await store.recordAccountResult(
+        account.id,
+        true,
+        getNextSuccessRate(account.successRate, true),
+      );
+      return result;
+    } catch (error) {
+      await store.recordAccountResult(
+        account.id,
+        false,
+        getNextSuccessRate(account.successRate, false),
+      );
+      const platformError = parseError(error);
+      logger.error(`retry(${attempt}) ${name} error: ${platformError.message}`);
+      await handleAccountError(
+        store,
+        {
+          id: account.id,
+          message: platformError.message,
+          retryAfter: platformError.retryAfter,
+        },
+        logger,
+      );
+
+      const delay =
+        attempt < retryCount ? getRetryDelay(platformError, attempt) : null;
+      if (delay === null) {
+        throw error;
+      }
+      if (delay > 0) {
+        logger.warn(`${name} ${delay}s 后重试`);
+        await sleep(delay * 1e3);
+      }
+    }
+  }
+}
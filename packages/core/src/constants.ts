@@ -0,0 +1,174 @@
+export const statusMap = {
+  // 0:失效 1:启用 2:禁用
+  INVALID: 0,
+  ENABLE: 1,
+  DISABLE: 2,
+};
+
+export const feedTypes = ['rss', 'atom', 'json'] as const;
+
+export type FeedType = (typeof feedTypes)[number];
+
+export const feedMimeTypeMap = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+} as const;
+
+export const defaultCount = 20;
+
+export const articleContentStatusMap = {
+  PENDING: 0,
+  SUCCESS: 1,
+  FAILED: 2,
+};
+
+export const articleStatusMap = {
+  // 0:正常 1:已删除 2:违规 3:无法查看
+  LIVE: 0,
+  DELETED: 1,
+  VIOLATION: 2,
+  UNAVAILABLE: 3,
+};
+
+export const articleStatusLabelMap: Record<number, string> = {
+  [articleStatusMap.DELETED]: '已删除',
+  [articleStatusMap.VIOLATION]: '违规',
+  [articleStatusMap.UNAVAILABLE]: '无法查看',
+};
+
+// 文章被删除或屏蔽后，微信页面中的提示文字
+export const articleStatusKeywords = [
+  {
+    status: articleStatusMap.DELETED,
+    keywords: ['该内容已被发布者删除', '此内容已被发布者删除'],
+  },
+  {
+    status: articleStatusMap.VIOLATION,
+    keywords: [
+      '此内容因违规无法查看',
+      '涉嫌违反相关法律法规和政策',
+      '经审核涉嫌侵权',
+    ],
+  },
+  {
+    status: articleStatusMap.UNAVAILABLE,
+    keywords: [
+      '此内容无法查看',
+      '该内容暂时无法查看',
+      '此内容发送失败无法查看',
+    ],
+  },
+];
+
+// 全文预抓取：每次抓取 batchSize 篇，失败后从 retryBase 秒开始指数退避，最多 maxAttempts 次
+export const contentPrefetch = {
+  batchSize: 3,
+  retryBase: 5 * 60,
+  maxAttempts: 5,
+};
+
+// 全文抓取失败（重试次数用尽）时订阅源中显示的内容
+export const contentFailedMessage = '<p>获取全文失败，请阅读原文~</p>';
+
+export const feedRefreshModes = {
+  GLOBAL: 'global',
+  INTERVAL: 'interval',
+  ADAPTIVE: 'adaptive',
+} as const;
+
+export type FeedRefreshMode =
+  (typeof feedRefreshModes)[keyof typeof feedRefreshModes];
+
+// 按固定间隔更新时允许的最短间隔（秒）
+export const minRefreshInterval = 10 * 60;
+
+// 自适应更新：最短/最长间隔（秒），超过 dormantDays 天未发文视为休眠，按最近 sampleSize 篇文章统计
+export const adaptiveRefresh = {
+  minInterval: 30 * 60,
+  maxInterval: 24 * 60 * 60,
+  dormantDays: 30,
+  sampleSize: 50,
+};
+
+/**
+ * 不同错误码对应的小黑屋时长（秒），null 表示按连续限流次数指数退避
+ */
+export const accountBlockDurationMap: Record<string, number | null> = {
+  // 请求频繁
+  WeReadError429: null,
+};
+
+// 限流退避：首次 30 分钟，之后每次翻倍，最长 24 小时
+export const rateLimitBackoff = { base: 30 * 60, max: 24 * 60 * 60 };
+
+// 近期成功率按指数滑动平均计算，每次请求结果所占的权重
+export const successRateWeight = 0.2;
+
+// 重试时最多等待 Retry-After 的秒数，超过则交给任务队列稍后重试
+export const maxRetryAfterWait = 60;
+
+// 其他读书接口错误的小黑屋时长（秒）
+export const defaultAccountBlockDuration = 10 * 60;
+
+// 未设置 SERVER_ORIGIN_URL 时聚合订阅源使用的图标
+export const defaultFeedCover = 'https://r2-assets.111965.xyz/wewe-rss.png';
+
+// 合并订阅最多包含的公众号数量，D1 单条查询最多绑定 100 个参数
+export const maxMergeFeeds = 50;
+
+export const webhookEvents = {
+  // 每篇新文章发送一次
+  ARTICLE_CREATED: 'article.created',
+  // 每次更新有新文章时发送一次，包含本次的全部新文章
+  FEED_UPDATED: 'feed.updated',
+} as const;
+
+export type WebhookEvent = (typeof webhookEvents)[keyof typeof webhookEvents];
+
+// 手动测试 webhook 时发送的事件，不需要订阅
+export const webhookPingEvent = 'ping';
+
+export const webhookDeliveryStatusMap = {
+  // 0:待发送 1:成功 2:失败
+  PENDING: 0,
+  SUCCESS: 1,
+  FAILED: 2,
+};
+
+// Webhook 发送：每次最多发送 batchSize 条，请求超时 timeout 毫秒，
+// 失败后从 retryBase 秒开始指数退避，最多 maxAttempts 次；发送中的记录 lease 秒内不会被重复发送
+export const webhookDelivery = {
+  batchSize: 10,
+  timeout: 10 * 1e3,
+  retryBase: 60,
+  maxAttempts: 6,
+  lease: 60,
+};
+
+export const notifyEvents = {
+  // 账号检测到失效，附带重新登录的二维码
+  ACCOUNT_INVALID: 'account.invalid',
+  // 失效账号扫码重新登录成功
+  ACCOUNT_RESTORED: 'account.restored',
+} as const;
+
+export type NotifyEvent = (typeof notifyEvents)[keyof typeof notifyEvents];
+
+// 手动测试通知时发送的事件，发送到所有渠道
+export const notifyTestEvent = 'test';
+
+export const notifyChannelTypes = [
+  'dingtalk',
+  'feishu',
+  'wecom',
+  'slack',
+  'webhook',
+  'telegram',
+  'smtp',
+] as const;
+
+export type NotifyChannelType = (typeof notifyChannelTypes)[number];
+
+// 单个通知渠道的超时时间（毫秒），SMTP 为整个发送过程
+export const notifyTimeout = 10 * 1e3;
@@ -0,0 +1,125 @@
+import {
+  articleContentStatusMap,
+  articleStatusLabelMap,
+  articleStatusMap,
+  contentPrefetch,
+} from './constants';
+import { cleanHtml, getArticleStatus, getText, HtmlMinifier } from './html';
+import type {
+  ArticleContentData,
+  ArticleContentStore,
+  CoreLogger,
+  FeedStore,
+} from './types';
+
+/**
+ * 抓取文章全文，保存原始 html、清理后的 html 和纯文本；失败时按次数退避重试。
+ * 请求由调用方实现，失败时抛出错误；原始网页超过 maxRawHtmlLength 时不保存
+ */
+export async function fetchArticleContent(
+  store: ArticleContentStore,
+  {
+    id,
+    fetchHtml,
+    minify,
+    maxRawHtmlLength = Infinity,
+  }: {
+    id: string;
+    fetchHtml: (url: string) => Promise<string>;
+    minify?: HtmlMinifier;
+    maxRawHtmlLength?: number;
+  },
+  logger: CoreLogger = console,
+) {
+  const url = `https://mp.weixin.qq.com/s/${id}`;
+  const now = Math.floor(Date.now() / 1e3);
+  try {
+    const rawHtml = await fetchHtml(url);
+    const articleStatus = getArticleStatus(rawHtml);
+
+    let data: ArticleContentData;
+    if (articleStatus === articleStatusMap.LIVE) {
+      data = {
+        rawHtml: rawHtml.length > maxRawHtmlLength ? null : rawHtml,
+        cleanHtml: cleanHtml(rawHtml, minify),
+        text: getText(rawHtml),
+        status: articleContentStatusMap.SUCCESS,
+        error: null,
+        nextRetryAt: 0,
+        fetchedAt: now,
+      };
+    } else {
+      // 文章已被删除或屏蔽：保留之前存档的全文，没有存档时不再重试
+      logger.warn(
+        `fetchArticleContent(${url}): ${articleStatusLabelMap[articleStatus]}`,
+      );
+      const existing = await store.getArticleContent(id);
+      const archived = existing?.status === articleContentStatusMap.SUCCESS;
+      data = {
+        status: archived
+          ? articleContentStatusMap.SUCCESS
+          : articleContentStatusMap.FAILED,
+        error: archived ? null : articleStatusLabelMap[articleStatus],
+        nextRetryAt: 0,
+        fetchedAt: now,
+      };
+    }
+    await store.upsertArticleContent(id, data);
+
+    // 全文就绪或文章状态变化后清除对应订阅源的缓存，并更新文章时间以刷新 ETag
+    const mpId = await store.touchArticle(id, articleStatus);
+    if (mpId) {
+      await store.invalidateFeed(mpId);
+    }
+    return data.status;
+  } catch (error: any) {
+    const message = error instanceof Error ? error.message : `${error}`;
+    logger.error(`fetchArticleContent(${url}) error: ${message}`);
+    const existing = await store.getArticleContent(id);
+    const attempts = (existing?.attempts ?? 0) + 1;
+    const status =
+      attempts >= contentPrefetch.maxAttempts
+        ? articleContentStatusMap.FAILED
+        : articleContentStatusMap.PENDING;
+    await store.upsertArticleContent(id, {
+      status,
+      error: message.slice(0, 1024),
+      attempts,
+      nextRetryAt: now + contentPrefetch.retryBase * 2 ** (attempts - 1),
+      fetchedAt: now,
+    });
+    return status;
+  }
+}
+
+/**
+ * 读取已保存的全文，未就绪的文章补充到抓取队列；重试次数用尽的为 null
+ */
+export async function getStoredContents(
+  store: FeedStore,
+  ids: string[],
+  enableCleanHtml: boolean,
+) {
+  const contents = await store.getArticleContents(ids);
+  const stored = new Set(contents.map(({ id }) => id));
+  const missing = ids.filter((id) => !stored.has(id));
+  if (missing.length) {
+    await store.enqueueArticleContents(missing);
+  }
+
+  const result = new Map<string, string | null>();
+  for (const content of contents) {
+    if (content.status === articleContentStatusMap.SUCCESS) {
+      // 原始网页过大未保存时使用清理后的内容
+      result.set(
+        content.id,
+        (enableCleanHtml ? content.cleanHtml : content.rawHtml) ||
+          content.cleanHtml ||
+          '',
+      );
+    } else if (content.status === articleContentStatusMap.FAILED) {
+      result.set(content.id, null);
+    }
+  }
+  return result;
+}
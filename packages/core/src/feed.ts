@@ -0,0 +1,344 @@
+import { Feed, Item } from 'feed';
+import {
+  articleStatusLabelMap,
+  articleStatusMap,
+  contentFailedMessage,
+  defaultFeedCover,
+  feedMimeTypeMap,
+  FeedType,
+  feedTypes,
+  maxMergeFeeds,
+} from './constants';
+import { getStoredContents } from './content';
+import type { CoreLogger, FeedArticle, FeedInfo, FeedStore } from './types';
+
+/**
+ * 订阅源不存在或参数错误，Server 和 Worker 转换为 400 响应
+ */
+export class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+export type FeedOptions = {
+  id?: string;
+  // 搜索关键词，输出全部订阅中匹配的文章
+  keyword?: string;
+  // 关键词提醒订阅 id
+  alertId?: string;
+  // 分组 id，输出分组内全部公众号的文章
+  groupId?: string;
+  // 临时合并多个公众号的文章
+  mpIds?: string[];
+  type: string;
+  limit: number;
+  page: number;
+  mode?: string;
+  title_include?: string;
+  title_exclude?: string;
+  // hide: 不输出已删除或屏蔽的文章
+  removed?: string;
+};
+
+export type FeedConfig = {
+  originUrl: string;
+  // 全局输出模式，fulltext 为全文
+  feedMode: string;
+  enableCleanHtml: boolean;
+};
+
+export function normalizeFeedType(type: string): FeedType {
+  return feedTypes.includes(type as FeedType) ? (type as FeedType) : 'atom';
+}
+
+/**
+ * 合并、分组、搜索和提醒订阅不对应单个公众号，使用虚拟 id
+ */
+export function getFeedKey({
+  id,
+  keyword,
+  alertId,
+  groupId,
+  mpIds,
+}: Pick<FeedOptions, 'id' | 'keyword' | 'alertId' | 'groupId' | 'mpIds'>) {
+  if (mpIds) {
+    return `merge/${mpIds.join(',')}`;
+  }
+  if (groupId) {
+    return `group/${groupId}`;
+  }
+  if (alertId) {
+    return `alert/${alertId}`;
+  }
+  if (keyword !== undefined) {
+    return 'search';
+  }
+  return id || 'all';
+}
+
+/**
+ * 全部文章、搜索结果等不对应单个公众号的订阅源信息
+ */
+export function getVirtualFeedInfo({
+  id,
+  mpName,
+  mpIntro,
+  originUrl,
+}: {
+  id: string;
+  mpName: string;
+  mpIntro: string;
+  originUrl: string;
+}): FeedInfo {
+  return {
+    id,
+    mpName,
+    mpIntro,
+    mpCover: originUrl ? `${originUrl}/favicon.ico` : defaultFeedCover,
+    updateTime: Math.floor(Date.now() / 1e3),
+  };
+}
+
+export async function renderFeed(
+  store: FeedStore,
+  config: FeedConfig,
+  {
+    type,
+    feedInfo,
+    articles,
+    mode,
+    link,
+    showAuthor = feedInfo.id === 'all',
+  }: {
+    type: string;
+    feedInfo: FeedInfo;
+    articles: FeedArticle[];
+    mode?: string;
+    link?: string;
+    showAuthor?: boolean;
+  },
+) {
+  link = link || `${config.originUrl}/feeds/${feedInfo.id}.${type}`;
+
+  const feed = new Feed({
+    title: feedInfo.mpName,
+    description: feedInfo.mpIntro,
+    id: link,
+    link: link,
+    language: 'zh-cn', // optional, used only in RSS 2.0, possible values: http://www.w3.org/TR/REC-html40/struct/dirlang.html#langcodes
+    image: feedInfo.mpCover,
+    favicon: feedInfo.mpCover,
+    copyright: '',
+    updated: new Date(feedInfo.updateTime * 1e3),
+    generator: 'WeWe-RSS',
+    author: { name: feedInfo.mpName },
+  });
+
+  feed.addExtension({
+    name: 'generator',
+    objects: `WeWe-RSS`,
+  });
+
+  const feeds = await store.listFeeds();
+
+  /**mode 高于全局模式。如果 mode 值存在，取 mode 值*/
+  const enableFullText =
+    typeof mode === 'string'
+      ? mode === 'fulltext'
+      : config.feedMode === 'fulltext';
+
+  // 全文未就绪时输出摘要，重试次数用尽的输出提示
+  const contents = enableFullText
+    ? await getStoredContents(
+        store,
+        articles.map(({ id }) => id),
+        config.enableCleanHtml,
+      )
+    : new Map<string, string | null>();
+
+  for (const item of articles) {
+    const { id, publishTime, picUrl, mpId, status } = item;
+    const link = `https://mp.weixin.qq.com/s/${id}`;
+
+    const mpName = feeds.find((feed) => feed.id === mpId)?.mpName || '-';
+    const published = new Date(publishTime * 1e3);
+
+    const stored = contents.get(id);
+    let title = item.title;
+    let content = stored === null ? contentFailedMessage : stored || '';
+    if (status !== articleStatusMap.LIVE) {
+      // 已删除或屏蔽的文章标注状态，有存档时附上存档内容
+      const label = articleStatusLabelMap[status];
+      title = `[${label}] ${title}`;
+      content = `<p>【${label}】原文已无法访问${
+        stored ? '，以下为存档内容' : ''
+      }</p>${stored || ''}`;
+    }
+
+    feed.addItem({
+      id,
+      title,
+      link: link,
+      guid: link,
+      content,
+      date: published,
+      image: picUrl,
+      author: showAuthor ? [{ name: mpName }] : undefined,
+    });
+  }
+
+  return feed;
+}
+
+/**
+ * 读取文章并生成订阅源内容，订阅源不存在或缺少搜索关键词时抛出 FeedError
+ */
+export async function generateFeed(
+  store: FeedStore,
+  config: FeedConfig,
+  opts: FeedOptions,
+  logger?: CoreLogger,
+) {
+  const { id, mpIds, groupId, alertId, limit, page, mode } = opts;
+  const type = normalizeFeedType(opts.type);
+  const feedKey = getFeedKey(opts);
+  const hideRemoved = opts.removed === 'hide';
+  const offset = (page - 1) * limit;
+  const { originUrl } = config;
+
+  let articles: FeedArticle[];
+  let feedInfo: FeedInfo;
+  let link: string | undefined;
+  if (mpIds) {
+    if (mpIds.length > maxMergeFeeds) {
+      throw new FeedError(`最多合并 ${maxMergeFeeds} 个公众号！`);
+    }
+    const feeds = await store.listFeeds(mpIds);
+    if (!mpIds.length || feeds.length !== mpIds.length) {
+      throw new FeedError('不存在该feed！');
+    }
+
+    articles = await store.listArticles({ mpIds, limit, offset, hideRemoved });
+
+    link = `${originUrl}/feeds/merge.${type}?ids=${mpIds.join(',')}`;
+    const names = mpIds.map(
+      (mpId) => feeds.find((feed) => feed.id === mpId)!.mpName,
+    );
+    feedInfo = getVirtualFeedInfo({
+      id: feedKey,
+      mpName: `WeWe-RSS ${names.join('、')}`,
+      mpIntro: `WeWe-RSS 合并订阅：${names.join('、')}`,
+      originUrl,
+    });
+  } else if (groupId) {
+    const group = await store.getFeedGroup(groupId);
+    if (!group) {
+      throw new FeedError('不存在该feed！');
+    }
+
+    articles = await store.listArticles({
+      groupId,
+      limit,
+      offset,
+      hideRemoved,
+    });
+
+    feedInfo = getVirtualFeedInfo({
+      id: feedKey,
+      mpName: `WeWe-RSS ${group.name}`,
+      mpIntro: `WeWe-RSS 分组「${group.name}」的文章`,
+      originUrl,
+    });
+  } else if (alertId || opts.keyword !== undefined) {
+    let keyword = opts.keyword;
+    let name = '';
+    if (alertId) {
+      const alert = await store.getAlertFeed(alertId);
+      if (!alert) {
+        throw new FeedError('不存在该feed！');
+      }
+      keyword = alert.keyword;
+      name = alert.name;
+    } else {
+      link = `${originUrl}/feeds/search.${type}?q=${encodeURIComponent(
+        keyword!,
+      )}`;
+    }
+
+    if (!keyword?.trim()) {
+      throw new FeedError('缺少搜索关键词！');
+    }
+
+    const ids = await store.searchArticleIds({ keyword, limit, offset });
+    articles = await store.getArticlesByIds(ids, hideRemoved);
+
+    feedInfo = getVirtualFeedInfo({
+      id: feedKey,
+      mpName: name || `WeWe-RSS 搜索：${keyword}`,
+      mpIntro: `WeWe-RSS 包含「${keyword}」的文章`,
+      originUrl,
+    });
+  } else if (id) {
+    const feed = await store.getFeed(id);
+    if (!feed) {
+      throw new FeedError('不存在该feed！');
+    }
+    feedInfo = feed;
+
+    articles = await store.listArticles({
+      mpIds: [id],
+      limit,
+      offset,
+      hideRemoved,
+    });
+  } else {
+    articles = await store.listArticles({ limit, offset, hideRemoved });
+
+    feedInfo = getVirtualFeedInfo({
+      id: 'all',
+      mpName: 'WeWe-RSS All',
+      mpIntro: 'WeWe-RSS 全部文章',
+      originUrl,
+    });
+  }
+
+  logger?.log('generateFeed articles: ' + articles.length);
+  const feed = await renderFeed(store, config, {
+    feedInfo,
+    articles,
+    type,
+    mode,
+    link,
+    showAuthor: !id,
+  });
+
+  if (opts.title_include) {
+    const includes = opts.title_include.split('|');
+    feed.items = feed.items.filter((i: Item) =>
+      includes.some((k) => i.title.includes(k)),
+    );
+  }
+  if (opts.title_exclude) {
+    const excludes = opts.title_exclude.split('|');
+    feed.items = feed.items.filter(
+      (i: Item) => !excludes.some((k) => i.title.includes(k)),
+    );
+  }
+
+  let content: string;
+  switch (type) {
+    case 'rss':
+      content = feed.rss2();
+      break;
+    case 'json':
+      content = feed.json1();
+      break;
+    case 'atom':
+    default:
+      content = feed.atom1();
+  }
+
+  return { content, mimeType: feedMimeTypeMap[type] };
+}
@@ -0,0 +1,81 @@
+import { load } from 'cheerio';
+import { articleStatusKeywords, articleStatusMap } from './constants';
+
+export type HtmlMinifier = (html: string) => string;
+
+// 需要保留空白的元素
+const preserveWhitespaceTags = new Set([
+  'pre',
+  'textarea',
+  'script',
+  'style',
+  'code',
+]);
+
+/**
+ * 合并文本中的连续空白，pre 等需要保留空白的元素不处理；
+ * 不依赖 Node.js 模块，Worker 中也可以使用
+ */
+export const collapseWhitespace: HtmlMinifier = (html) => {
+  const $ = load(html, { decodeEntities: false }, false);
+  $('*')
+    .contents()
+    .each((_, node) => {
+      if (node.type !== 'text') {
+        return;
+      }
+      const preserved = $(node)
+        .parents()
+        .toArray()
+        .some((parent) => preserveWhitespaceTags.has(parent.tagName));
+      if (!preserved) {
+        node.data = node.data.replace(/\s+/g, ' ');
+      }
+    });
+  return $.html().replace(/>\s+</g, '> <').trim();
+};
+
+/**
+ * 提取正文 html，显示懒加载的图片和隐藏的内容，并加上正文样式
+ */
+export function cleanHtml(
+  source: string,
+  minify: HtmlMinifier = collapseWhitespace,
+) {
+  const $ = load(source, { decodeEntities: false });
+
+  const dirtyHtml = $.html($('.rich_media_content'));
+
+  const html = dirtyHtml
+    .replace(/data-src=/g, 'src=')
+    .replace(/opacity: 0( !important)?;/g, '')
+    .replace(/visibility: hidden;/g, '');
+
+  const content =
+    '<style> .rich_media_content {overflow: hidden;color: #222;font-size: 17px;word-wrap: break-word;-webkit-hyphens: auto;-ms-hyphens: auto;hyphens: auto;text-align: justify;position: relative;z-index: 0;}.rich_media_content {font-size: 18px;}</style>' +
+    html;
+
+  return minify(content);
+}
+
+export function getText(source: string) {
+  const $ = load(source, { decodeEntities: false });
+  return $('.rich_media_content').text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 根据页面判断文章是否已被删除或屏蔽，没有正文也没有提示文字的页面视为正常
+ */
+export function getArticleStatus(source: string) {
+  const $ = load(source, { decodeEntities: false });
+  const content = $('.rich_media_content');
+  if (content.text().trim() || content.find('img').length > 0) {
+    return articleStatusMap.LIVE;
+  }
+
+  const text = $('body').text();
+  const matched = articleStatusKeywords.find(({ keywords }) =>
+    keywords.some((keyword) => text.includes(keyword)),
+  );
+  return matched?.status ?? articleStatusMap.LIVE;
+}
@@ -0,0 +1,12 @@
+export * from './constants';
+export * from './types';
+export * from './html';
+export * from './content';
+export * from './feed';
+export * from './account';
+export * from './refresh';
+export * from './refresh-schedule';
+export * from './opml';
+export * from './search';
+export * from './webhook';
+export * from './notify';
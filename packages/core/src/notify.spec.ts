@@ -0,0 +1,325 @@
+import { createHmac } from 'crypto';
+import { notifyEvents, notifyTestEvent } from './constants';
+import {
+  createAccountNotifyMessage,
+  defaultNotifyTemplates,
+  findUnknownVariables,
+  parseNotifyChannels,
+  previewNotifyTemplate,
+  sendNotification,
+} from './notify';
+import type { NotifyClient, SmtpSocket } from './notify';
+import type { WebhookRequest } from './webhook';
+
+const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const sign = async (secret: string, data: string) =>
+  createHmac('sha256', secret).update(data).digest('hex');
+
+const message = createAccountNotifyMessage(
+  notifyEvents.ACCOUNT_INVALID,
+  {
+    accountId: '123',
+    accountName: '测试账号',
+    scanUrl: 'https://example.com/login',
+  },
+  undefined,
+  new Date('2026-10-19T01:02:03Z'),
+);
+
+/**
+ * 按顺序回复 SMTP 命令，记录收到的全部数据
+ */
+function createSmtpServer(replies: Record<string, string>) {
+  const received: string[] = [];
+  let tls = false;
+  const pending = ['220 smtp.test ready\r\n'];
+  const socket: SmtpSocket = {
+    async read() {
+      return pending.shift() ?? null;
+    },
+    async write(data) {
+      received.push(data);
+      const command = data.startsWith('From:')
+        ? 'CONTENT'
+        : data.split(/[ :\r]/)[0];
+      pending.push(replies[command] ?? '250 OK\r\n');
+    },
+    async startTls() {
+      tls = true;
+    },
+    async close() {},
+  };
+  return { socket, received, isTls: () => tls };
+}
+
+describe('notify', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('parses channels and skips invalid ones', () => {
+    const channels = parseNotifyChannels(
+      {
+        channels: JSON.stringify([
+          { type: 'feishu', url: 'https://feishu.test' },
+          { type: 'telegram', botToken: 'token', chatId: 42 },
+          { type: 'smtp', host: 'smtp.test' },
+          { type: 'unknown', url: 'https://unknown.test' },
+        ]),
+        legacyWebhookUrl: 'https://dingtalk.test',
+      },
+      logger,
+    );
+
+    expect(channels).toEqual([
+      { type: 'feishu', url: 'https://feishu.test' },
+      { type: 'telegram', botToken: 'token', chatId: '42' },
+      {
+        type: 'dingtalk',
+        url: 'https://dingtalk.test',
+        events: [notifyEvents.ACCOUNT_INVALID],
+      },
+    ]);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(parseNotifyChannels({ channels: '[' }, logger)).toEqual([]);
+  });
+
+  it('sends to subscribed channels and reports robot error codes', async () => {
+    const requests: WebhookRequest[] = [];
+    const client: NotifyClient = {
+      async post(request) {
+        requests.push(request);
+        return request.url.includes('wecom')
+          ? { status: 200, body: '{"errcode":93000,"errmsg":"invalid"}' }
+          : { status: 200, body: '{"errcode":0}' };
+      },
+      connectSmtp: jest.fn(),
+      sign,
+    };
+    const channels = parseNotifyChannels({
+      channels: JSON.stringify([
+        { type: 'dingtalk', url: 'https://dingtalk.test' },
+        { type: 'wecom', url: 'https://wecom.test' },
+        {
+          type: 'slack',
+          url: 'https://slack.test',
+          events: [notifyEvents.ACCOUNT_RESTORED],
+        },
+      ]),
+    });
+
+    const results = await sendNotification(channels, message, client, logger);
+    expect(results).toEqual([
+      { channel: 'dingtalk', error: null },
+      { channel: 'wecom', error: '93000: invalid' },
+    ]);
+    expect(JSON.parse(requests[0].body)).toEqual({
+      msgtype: 'markdown',
+      markdown: { title: '微信读书账号失效通知', text: message.markdown },
+    });
+    expect(message.markdown).toContain('2026/10/19 09:02:03');
+
+    // 测试通知发送到全部渠道
+    const testResults = await sendNotification(
+      channels,
+      { ...message, event: notifyTestEvent },
+      client,
+      logger,
+    );
+    expect(testResults.map(({ channel }) => channel)).toEqual([
+      'dingtalk',
+      'wecom',
+      'slack',
+    ]);
+  });
+
+  it('sends mail over STARTTLS with AUTH PLAIN', async () => {
+    const server = createSmtpServer({
+      EHLO: '250-smtp.test\r\n250-STARTTLS\r\n250 AUTH PLAIN\r\n',
+      STARTTLS: '220 ready\r\n',
+      AUTH: '235 ok\r\n',
+      DATA: '354 go ahead\r\n',
+      QUIT: '221 bye\r\n',
+    });
+    const connectSmtp = jest.fn().mockResolvedValue(server.socket);
+
+    const results = await sendNotification(
+      [
+        {
+          type: 'smtp',
+          host: 'smtp.test',
+          user: 'bot@example.com',
+          pass: 'secret',
+          from: 'WeWe RSS <bot@example.com>',
+          to: ['a@example.com', 'b@example.com'],
+        },
+      ],
+      message,
+      { post: jest.fn(), connectSmtp, sign },
+      logger,
+    );
+
+    expect(results).toEqual([{ channel: 'smtp', error: null }]);
+    expect(connectSmtp).toHaveBeenCalledWith({
+      host: 'smtp.test',
+      port: 587,
+      secure: false,
+    });
+    expect(server.isTls()).toBe(true);
+    expect(server.received.slice(0, 8)).toEqual([
+      'EHLO wewe-rss\r\n',
+      'STARTTLS\r\n',
+      'EHLO wewe-rss\r\n',
+      `AUTH PLAIN ${Buffer.from('\0bot@example.com\0secret').toString(
+        'base64',
+      )}\r\n`,
+      'MAIL FROM:<bot@example.com>\r\n',
+      'RCPT TO:<a@example.com>\r\n',
+      'RCPT TO:<b@example.com>\r\n',
+      'DATA\r\n',
+    ]);
+
+    const content = server.received[8];
+    expect(content).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(message.title).toString('base64')}?=`,
+    );
+    const body = content.split('\r\n\r\n')[1].replace(/\r\n\.\r\n$/, '');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe(message.text);
+  });
+
+  it('stops at the first rejected SMTP command', async () => {
+    const server = createSmtpServer({
+      EHLO: '250 smtp.test\r\n',
+      AUTH: '535 authentication failed\r\n',
+    });
+
+    const results = await sendNotification(
+      [
+        {
+          type: 'smtp',
+          host: 'smtp.test',
+          secure: true,
+          user: 'bot',
+          pass: 'secret',
+          from: 'bot@example.com',
+          to: 'a@example.com',
+        },
+      ],
+      message,
+      { post: jest.fn(), connectSmtp: async () => server.socket, sign },
+      logger,
+    );
+
+    expect(results).toEqual([
+      { channel: 'smtp', error: 'SMTP AUTH 失败: 535 authentication failed' },
+    ]);
+    expect(server.isTls()).toBe(false);
+    expect(server.received.some((data) => data.startsWith('MAIL'))).toBe(false);
+  });
+
+  it('refuses to authenticate over plaintext without STARTTLS', async () => {
+    const channel = {
+      type: 'smtp' as const,
+      host: 'smtp.test',
+      user: 'bot',
+      pass: 'secret',
+      from: 'bot@example.com',
+      to: 'a@example.com',
+    };
+    let server = createSmtpServer({
+      EHLO: '250 smtp.test\r\n',
+      QUIT: '221 bye\r\n',
+    });
+    const send = (allowInsecureAuth?: boolean) =>
+      sendNotification(
+        [{ ...channel, allowInsecureAuth }],
+        message,
+        { post: jest.fn(), connectSmtp: async () => server.socket, sign },
+        logger,
+      );
+
+    expect(await send()).toEqual([
+      {
+        channel: 'smtp',
+        error: 'SMTP 服务器不支持 STARTTLS，拒绝在未加密的连接上发送密码',
+      },
+    ]);
+    expect(server.received).toEqual(['EHLO wewe-rss\r\n']);
+
+    server = createSmtpServer({
+      EHLO: '250 smtp.test\r\n',
+      AUTH: '235 ok\r\n',
+      DATA: '354 go ahead\r\n',
+      QUIT: '221 bye\r\n',
+    });
+    expect(await send(true)).toEqual([{ channel: 'smtp', error: null }]);
+    expect(server.received[1]).toMatch(/^AUTH PLAIN /);
+  });
+
+  it('signs DingTalk requests when a secret is set', async () => {
+    const requests: WebhookRequest[] = [];
+    const post = jest.fn(async (request: WebhookRequest) => {
+      requests.push(request);
+      return { status: 200, body: '{"errcode":0}' };
+    });
+    const channels = parseNotifyChannels({
+      legacyWebhookUrl: 'https://oapi.dingtalk.com/robot/send?access_token=t',
+      legacyWebhookSecret: 'SEC123',
+    });
+
+    await sendNotification(
+      channels,
+      message,
+      { post, connectSmtp: jest.fn(), sign },
+      logger,
+    );
+
+    const url = new URL(requests[0].url);
+    const timestamp = url.searchParams.get('timestamp')!;
+    expect(url.searchParams.get('access_token')).toBe('t');
+    expect(url.searchParams.get('sign')).toBe(
+      createHmac('sha256', 'SEC123')
+        .update(`${timestamp}\nSEC123`)
+        .digest('base64'),
+    );
+    expect(Math.abs(Number(timestamp) - Date.now())).toBeLessThan(5e3);
+  });
+
+  it('renders templates with variables', () => {
+    const template = {
+      title: '{{accountName}} 已失效',
+      content:
+        '## {{accountName}} 已失效\n\n**ID：** `{{accountId}}`\n\n![二维码]({{qrCodeUrl}})\n\n[扫码登录]({{scanUrl}}) {{unknown}}',
+    };
+    const rendered = createAccountNotifyMessage(
+      notifyEvents.ACCOUNT_INVALID,
+      {
+        accountId: '123',
+        accountName: '测试账号',
+        scanUrl: 'https://example.com/login',
+        qrCodeUrl: 'data:image/png;base64,AAAA',
+      },
+      template,
+    );
+
+    expect(rendered.title).toBe('测试账号 已失效');
+    expect(rendered.markdown).toContain(
+      '![二维码](data:image/png;base64,AAAA)',
+    );
+    expect(rendered.text).toBe(
+      'ID： 123\n\n扫码登录：https://example.com/login {{unknown}}',
+    );
+    expect(findUnknownVariables(template)).toEqual(['unknown']);
+
+    // 恢复通知没有登录链接，对应变量替换为空
+    const preview = previewNotifyTemplate(notifyEvents.ACCOUNT_RESTORED, {
+      title: '{{accountName}}',
+      content: '{{scanUrl}}{{accountId}}',
+    });
+    expect(preview.markdown).toBe('TEST_ACCOUNT_ID');
+    expect(
+      findUnknownVariables(
+        defaultNotifyTemplates[notifyEvents.ACCOUNT_INVALID],
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,710 @@
+import {
+  notifyChannelTypes,
+  notifyEvents,
+  notifyTestEvent,
+  notifyTimeout,
+} from './constants';
+import type { NotifyChannelType, NotifyEvent } from './constants';
+import type { CoreLogger } from './types';
+import type { WebhookClient, WebhookRequest } from './webhook';
+
+type NotifyChannelBase = {
+  // 日志中显示的名称，默认为渠道类型
+  name?: string;
+  // 订阅的事件，未设置或为空时接收全部事件
+  events?: string[];
+};
+
+export type NotifyChannel = NotifyChannelBase &
+  // secret 为钉钉机器人“加签”安全设置的密钥
+  (| { type: 'dingtalk'; url: string; secret?: string }
+    | { type: 'feishu' | 'wecom' | 'slack'; url: string }
+    | { type: 'webhook'; url: string; headers?: Record<string, string> }
+    | { type: 'telegram'; botToken: string; chatId: string; apiUrl?: string }
+    | {
+        type: 'smtp';
+        host: string;
+        // 默认 secure 时为 465，否则为 587
+        port?: number;
+        // true 时直接使用 TLS 连接，否则在服务器支持时使用 STARTTLS
+        secure?: boolean;
+        user?: string;
+        pass?: string;
+        // 服务器不支持 STARTTLS 时仍然在明文连接上认证，默认拒绝
+        allowInsecureAuth?: boolean;
+        from: string;
+        to: string | string[];
+      }
+  );
+
+export type NotifyMessage = {
+  event: string;
+  title: string;
+  // 支持 markdown 的渠道（钉钉、企业微信）使用
+  markdown: string;
+  // 其他渠道使用的纯文本
+  text: string;
+  // 通用 webhook 原样发送的数据
+  data: Record<string, unknown>;
+};
+
+export type NotifyResponse = { status: number; body: string };
+
+/**
+ * SMTP 连接由调用方实现：read 返回下一段收到的数据，连接关闭时返回 null；
+ * startTls 在 STARTTLS 命令成功后将当前连接升级为 TLS
+ */
+export type SmtpSocket = {
+  read: () => Promise<string | null>;
+  write: (data: string) => Promise<void>;
+  startTls: () => Promise<void>;
+  close: () => Promise<void>;
+};
+
+/**
+ * 发送请求由调用方实现：post 返回状态码和响应内容，网络错误或超时时抛出错误；
+ * sign 与 WebhookClient 相同，返回 HMAC-SHA256 的十六进制字符串
+ */
+export type NotifyClient = {
+  post: (request: WebhookRequest) => Promise<NotifyResponse>;
+  sign: WebhookClient['sign'];
+  connectSmtp: (options: {
+    host: string;
+    port: number;
+    secure: boolean;
+  }) => Promise<SmtpSocket>;
+};
+
+export type NotifyResult = { channel: string; error: string | null };
+
+const requiredFields: Record<NotifyChannelType, string[]> = {
+  dingtalk: ['url'],
+  feishu: ['url'],
+  wecom: ['url'],
+  slack: ['url'],
+  webhook: ['url'],
+  telegram: ['botToken', 'chatId'],
+  smtp: ['host', 'from', 'to'],
+};
+
+/**
+ * 解析 NOTIFY_CHANNELS（JSON 数组），格式错误的渠道会被忽略并记录日志。
+ * 兼容旧的 ACCOUNT_CHECK_WEBHOOK_URL，设置时作为只接收账号失效通知的钉钉渠道
+ */
+export function parseNotifyChannels(
+  {
+    channels,
+    legacyWebhookUrl,
+    legacyWebhookSecret,
+  }: {
+    channels?: string;
+    legacyWebhookUrl?: string;
+    legacyWebhookSecret?: string;
+  },
+  logger: CoreLogger = console,
+): NotifyChannel[] {
+  const result: NotifyChannel[] = [];
+
+  let items: unknown[] = [];
+  if (channels?.trim()) {
+    try {
+      const parsed = JSON.parse(channels);
+      items = Array.isArray(parsed) ? parsed : [parsed];
+    } catch (err: any) {
+      logger.error(`NOTIFY_CHANNELS 不是有效的 JSON: ${err.message}`);
+    }
+  }
+
+  items.forEach((item: any, index) => {
+    const type = item?.type;
+    if (!notifyChannelTypes.includes(type)) {
+      logger.warn(`NOTIFY_CHANNELS[${index}] 不支持的渠道类型: ${type}`);
+      return;
+    }
+    const missing = requiredFields[type as NotifyChannelType].filter(
+      (field) =>
+        item[field] === undefined ||
+        item[field] === null ||
+        `${item[field]}`.trim() === '',
+    );
+    if (missing.length > 0) {
+      logger.warn(`NOTIFY_CHANNELS[${index}] 缺少配置: ${missing.join(', ')}`);
+      return;
+    }
+    if (item.events !== undefined && !Array.isArray(item.events)) {
+      logger.warn(`NOTIFY_CHANNELS[${index}] events 必须是数组`);
+      return;
+    }
+    result.push(
+      type === 'telegram' ? { ...item, chatId: `${item.chatId}` } : item,
+    );
+  });
+
+  if (legacyWebhookUrl) {
+    result.push({
+      type: 'dingtalk',
+      url: legacyWebhookUrl,
+      secret: legacyWebhookSecret || undefined,
+      events: [notifyEvents.ACCOUNT_INVALID],
+    });
+  }
+  return result;
+}
+
+const formatNotifyTime = (time: Date) =>
+  time.toLocaleString('zh-CN', {
+    timeZone: 'Asia/Shanghai',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+export type NotifyTemplate = { title: string; content: string };
+
+// 模板中可以使用的变量，写作 {{变量名}}，当前通知没有的变量替换为空字符串
+export const notifyTemplateVariables = [
+  { name: 'accountId', label: '账号ID' },
+  { name: 'accountName', label: '账号名称' },
+  { name: 'scanUrl', label: '重新登录的链接，仅账号失效通知' },
+  { name: 'qrCodeUrl', label: '登录二维码图片地址，仅账号失效通知' },
+  { name: 'loginId', label: '登录ID，仅账号失效通知' },
+  { name: 'time', label: '通知时间（北京时间）' },
+] as const;
+
+export type NotifyVariables = Partial<
+  Record<(typeof notifyTemplateVariables)[number]['name'], string>
+>;
+
+export const defaultNotifyTemplates: Record<NotifyEvent, NotifyTemplate> = {
+  [notifyEvents.ACCOUNT_INVALID]: {
+    title: '微信读书账号失效通知',
+    content: `## 微信读书账号失效通知
+
+**账号信息：**
+- 账号ID：\`{{accountId}}\`
+- 账号名称：{{accountName}}
+- 失效时间：{{time}}
+
+**请扫描以下二维码重新登录微信账号：**
+
+![登录二维码]({{qrCodeUrl}})
+
+**二维码链接：** {{scanUrl}}
+
+**登录ID：** \`{{loginId}}\`
+
+**或直接访问：** [点击这里打开二维码]({{scanUrl}})
+
+> 请尽快重新登录微信账号，以免影响服务使用。`,
+  },
+  [notifyEvents.ACCOUNT_RESTORED]: {
+    title: '微信读书账号已恢复',
+    content: `## 微信读书账号已恢复
+
+- 账号ID：\`{{accountId}}\`
+- 账号名称：{{accountName}}
+- 恢复时间：{{time}}`,
+  },
+};
+
+/**
+ * 合并已保存的模板和默认模板，按事件返回全部模板
+ */
+export function mergeNotifyTemplates(
+  saved: ({ event: string } & NotifyTemplate)[],
+) {
+  return Object.values(notifyEvents).map((event) => {
+    const template = saved.find((item) => item.event === event);
+    return {
+      event,
+      ...(template
+        ? { title: template.title, content: template.content }
+        : defaultNotifyTemplates[event]),
+      isDefault: !template,
+    };
+  });
+}
+
+const variablePattern = /\{\{\s*(\w+)\s*\}\}/g;
+
+const variableNames = new Set<string>(
+  notifyTemplateVariables.map(({ name }) => name),
+);
+
+/**
+ * 模板中使用了但不存在的变量，用于保存前提示
+ */
+export function findUnknownVariables({ title, content }: NotifyTemplate) {
+  const unknown = new Set<string>();
+  for (const [, name] of `${title}\n${content}`.matchAll(variablePattern)) {
+    if (!variableNames.has(name)) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+}
+
+// 不存在的变量原样保留，方便在预览中发现拼写错误
+const renderText = (template: string, variables: NotifyVariables) =>
+  template.replace(variablePattern, (match, name: string) =>
+    variableNames.has(name)
+      ? (variables[name as keyof NotifyVariables] ?? '')
+      : match,
+  );
+
+/**
+ * 将 markdown 转为纯文本：去掉图片和格式标记，链接保留地址。
+ * 第一行与标题相同时去掉，避免与渠道显示的标题重复
+ */
+export function markdownToText(markdown: string, title = '') {
+  const lines = markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\(([^)]*)\)/g, '$1：$2')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .split('\n')
+    .map((line) => line.replace(/^\s*(#{1,6}|>)\s?/, '').trimEnd());
+  if (lines[0]?.trim() === title.trim()) {
+    lines.shift();
+  }
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 用变量替换模板生成通知内容，title 和 content 中的变量都会被替换
+ */
+function renderNotifyTemplate(
+  event: string,
+  template: NotifyTemplate,
+  variables: NotifyVariables,
+  data: Record<string, unknown>,
+): NotifyMessage {
+  const title = renderText(template.title, variables);
+  const markdown = renderText(template.content, variables);
+  return {
+    event,
+    title,
+    markdown,
+    text: markdownToText(markdown, title),
+    data,
+  };
+}
+
+export type AccountNotifyInfo = {
+  accountId: string;
+  accountName: string;
+  // 重新登录的链接和二维码图片地址，仅账号失效通知需要
+  scanUrl?: string;
+  qrCodeUrl?: string;
+  loginId?: string;
+};
+
+/**
+ * 生成账号失效和恢复的通知内容，未传入模板时使用默认模板
+ */
+export function createAccountNotifyMessage(
+  event: NotifyEvent,
+  info: AccountNotifyInfo,
+  template: NotifyTemplate = defaultNotifyTemplates[event],
+  time = new Date(),
+): NotifyMessage {
+  const { accountId, accountName, scanUrl, loginId } = info;
+  return renderNotifyTemplate(
+    event,
+    template,
+    { ...info, time: formatNotifyTime(time) },
+    { accountId, accountName, scanUrl, loginId, time: time.toISOString() },
+  );
+}
+
+/**
+ * 使用示例账号预览模板
+ */
+export function previewNotifyTemplate(
+  event: NotifyEvent,
+  template: NotifyTemplate,
+  time = new Date(),
+) {
+  const scanUrl = 'https://weread.111965.xyz/preview';
+  return createAccountNotifyMessage(
+    event,
+    {
+      accountId: 'TEST_ACCOUNT_ID',
+      accountName: '测试微信账号',
+      ...(event === notifyEvents.ACCOUNT_INVALID && {
+        scanUrl,
+        qrCodeUrl: `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(
+          scanUrl,
+        )}`,
+        loginId: 'TEST_LOGIN_ID',
+      }),
+    },
+    template,
+    time,
+  );
+}
+
+/**
+ * 钉钉“加签”：用密钥对 `${timestamp}\n${secret}` 计算 HMAC-SHA256，
+ * base64 后与毫秒时间戳一起加在请求地址上
+ */
+export async function signDingtalkUrl(
+  url: string,
+  secret: string,
+  sign: WebhookClient['sign'],
+  timestamp = Date.now(),
+) {
+  const hex = await sign(secret, `${timestamp}\n${secret}`);
+  const bytes = (hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16));
+  const signature = encodeURIComponent(encodeBase64(bytes));
+  return `${url}${
+    url.includes('?') ? '&' : '?'
+  }timestamp=${timestamp}&sign=${signature}`;
+}
+
+/**
+ * 按渠道类型生成机器人接口的请求，SMTP 渠道不使用
+ */
+export async function createNotifyRequest(
+  channel: Exclude<NotifyChannel, { type: 'smtp' }>,
+  message: NotifyMessage,
+  sign: WebhookClient['sign'],
+): Promise<WebhookRequest> {
+  const request = (url: string, body: unknown, headers = {}) => ({
+    url,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    timeout: notifyTimeout,
+  });
+
+  switch (channel.type) {
+    case 'dingtalk':
+      return request(
+        channel.secret
+          ? await signDingtalkUrl(channel.url, channel.secret, sign)
+          : channel.url,
+        {
+          msgtype: 'markdown',
+          markdown: { title: message.title, text: message.markdown },
+        },
+      );
+    case 'wecom':
+      return request(channel.url, {
+        msgtype: 'markdown',
+        markdown: { content: message.markdown },
+      });
+    case 'feishu':
+      return request(channel.url, {
+        msg_type: 'post',
+        content: {
+          post: {
+            zh_cn: {
+              title: message.title,
+              content: [[{ tag: 'text', text: message.text }]],
+            },
+          },
+        },
+      });
+    case 'slack':
+      return request(channel.url, {
+        text: `*${message.title}*\n${message.text}`,
+      });
+    case 'telegram':
+      return request(
+        `${channel.apiUrl || 'https://api.telegram.org'}/bot${
+          channel.botToken
+        }/sendMessage`,
+        {
+          chat_id: channel.chatId,
+          text: `${message.title}\n\n${message.text}`,
+          disable_web_page_preview: true,
+        },
+      );
+    case 'webhook':
+      return request(
+        channel.url,
+        {
+          event: message.event,
+          title: message.title,
+          text: message.text,
+          markdown: message.markdown,
+          data: message.data,
+          timestamp: Math.floor(Date.now() / 1e3),
+        },
+        channel.headers,
+      );
+  }
+}
+
+/**
+ * 机器人接口出错时大多仍返回 200，需要检查响应中的错误码
+ */
+function getResponseError(
+  channel: NotifyChannel,
+  { status, body }: NotifyResponse,
+) {
+  if (status < 200 || status >= 300) {
+    return `HTTP ${status}${body ? `: ${body.slice(0, 200)}` : ''}`;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  switch (channel.type) {
+    case 'dingtalk':
+    case 'wecom':
+      return data?.errcode ? `${data.errcode}: ${data.errmsg}` : null;
+    case 'feishu':
+      return data?.code ? `${data.code}: ${data.msg}` : null;
+    case 'telegram':
+      return data?.ok === false ? `${data.description}` : null;
+    default:
+      return null;
+  }
+}
+
+const base64Chars =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function encodeBase64(bytes: ArrayLike<number>) {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result +=
+      base64Chars[(chunk >> 18) & 63] +
+      base64Chars[(chunk >> 12) & 63] +
+      (i + 1 < bytes.length ? base64Chars[(chunk >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? base64Chars[chunk & 63] : '=');
+  }
+  return result;
+}
+
+export function encodeUtf8(value: string) {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63),
+      );
+    }
+  }
+  return bytes;
+}
+
+const base64Utf8 = (value: string) => encodeBase64(encodeUtf8(value));
+
+// 邮件头中的非 ASCII 内容使用 RFC 2047 编码
+const encodeHeader = (value: string) =>
+  // eslint-disable-next-line no-control-regex
+  /^[\x00-\x7f]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value)}?=`;
+
+const parseAddress = (value: string) => {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match
+    ? { name: match[1].replace(/^"|"$/g, ''), address: match[2] }
+    : { name: '', address: value.trim() };
+};
+
+const formatAddress = (value: string) => {
+  const { name, address } = parseAddress(value);
+  return name ? `${encodeHeader(name)} <${address}>` : address;
+};
+
+export function createMailContent(
+  { from, to }: { from: string; to: string[] },
+  message: NotifyMessage,
+  date = new Date(),
+) {
+  const body = base64Utf8(message.text).replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${formatAddress(from)}`,
+    `To: ${to.map(formatAddress).join(', ')}`,
+    `Subject: ${encodeHeader(message.title)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * 使用 SMTP 发送纯文本邮件，支持 TLS、STARTTLS 和 AUTH PLAIN 认证
+ */
+async function sendMail(
+  channel: Extract<NotifyChannel, { type: 'smtp' }>,
+  message: NotifyMessage,
+  connect: NotifyClient['connectSmtp'],
+) {
+  const secure = !!channel.secure;
+  const to = Array.isArray(channel.to) ? channel.to : [channel.to];
+  const socket = await connect({
+    host: channel.host,
+    port: channel.port || (secure ? 465 : 587),
+    secure,
+  });
+
+  let buffer = '';
+  const readReply = async () => {
+    const lines: string[] = [];
+    for (;;) {
+      const index = buffer.indexOf('\n');
+      if (index === -1) {
+        const chunk = await socket.read();
+        if (chunk === null) {
+          throw new Error('SMTP 连接已关闭');
+        }
+        buffer += chunk;
+        continue;
+      }
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line);
+      // 多行响应除最后一行外，状态码后为 "-"
+      if (line[3] !== '-') {
+        return { code: parseInt(line.slice(0, 3)), lines };
+      }
+    }
+  };
+
+  // label 用于错误信息，避免认证命令中的密码出现在日志中
+  const command = async (
+    line: string | null,
+    expected: number[],
+    label = line?.split(' ')[0] || 'CONNECT',
+  ) => {
+    if (line !== null) {
+      await socket.write(`${line}\r\n`);
+    }
+    const reply = await readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} 失败: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  const session = async () => {
+    await command(null, [220]);
+    let tls = secure;
+    let ehlo = await command('EHLO wewe-rss', [250]);
+    if (!tls && ehlo.lines.some((line) => /^250[- ]STARTTLS/i.test(line))) {
+      await command('STARTTLS', [220]);
+      await socket.startTls();
+      tls = true;
+      ehlo = await command('EHLO wewe-rss', [250]);
+    }
+    if (channel.user) {
+      if (!tls && !channel.allowInsecureAuth) {
+        throw new Error(
+          'SMTP 服务器不支持 STARTTLS，拒绝在未加密的连接上发送密码',
+        );
+      }
+      await command(
+        `AUTH PLAIN ${base64Utf8(`\0${channel.user}\0${channel.pass ?? ''}`)}`,
+        [235],
+        'AUTH',
+      );
+    }
+    await command(`MAIL FROM:<${parseAddress(channel.from).address}>`, [250]);
+    for (const recipient of to) {
+      await command(`RCPT TO:<${parseAddress(recipient).address}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    // 正文为 base64，不会出现需要转义的以 "." 开头的行
+    await command(
+      `${createMailContent({ from: channel.from, to }, message)}\r\n.`,
+      [250],
+      'DATA',
+    );
+    await command('QUIT', [221]).catch(() => undefined);
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      session(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error('SMTP 发送超时')),
+          notifyTimeout,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    await socket.close().catch(() => undefined);
+  }
+}
+
+/**
+ * 将通知发送到订阅了该事件的全部渠道，测试事件发送到所有渠道。
+ * 单个渠道失败不影响其他渠道，返回每个渠道的发送结果
+ */
+export async function sendNotification(
+  channels: NotifyChannel[],
+  message: NotifyMessage,
+  client: NotifyClient,
+  logger: CoreLogger = console,
+): Promise<NotifyResult[]> {
+  const targets = channels.filter(
+    ({ events }) =>
+      message.event === notifyTestEvent ||
+      !events?.length ||
+      events.includes(message.event),
+  );
+
+  const results: NotifyResult[] = [];
+  for (const channel of targets) {
+    const name = channel.name || channel.type;
+    let error: string | null = null;
+    try {
+      if (channel.type === 'smtp') {
+        await sendMail(channel, message, client.connectSmtp);
+      } else {
+        error = getResponseError(
+          channel,
+          await client.post(
+            await createNotifyRequest(channel, message, client.sign),
+          ),
+        );
+      }
+    } catch (err: any) {
+      error = err instanceof Error ? err.message : `${err}`;
+    }
+
+    if (error) {
+      logger.error(
+        `sendNotification(${name}) ${message.event} error: ${error}`,
+      );
+    } else {
+      logger.log(`sendNotification(${name}) ${message.event} sent`);
+    }
+    results.push({ channel: name, error });
+  }
+  return results;
+}
@@ -0,0 +1,119 @@
+import { load } from 'cheerio';
+
+export type OpmlFeed = {
+  id: string;
+  mpName: string;
+  mpCover: string;
+  mpIntro: string;
+};
+
+export type OpmlEntry = {
+  // 从 xmlUrl 中解析出的公众号 id，不是 WeWe-RSS 订阅地址时为 null
+  id: string | null;
+  xmlUrl: string;
+  mpName: string;
+  mpCover: string;
+  mpIntro: string;
+  // 所在分组，即上一级 outline 的名称
+  groupName?: string;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * 生成 OPML，属于分组的公众号嵌套在分组下，未分组的放在最外层
+ */
+export const buildOpml = ({
+  originUrl,
+  type,
+  feeds,
+  groups,
+}: {
+  originUrl: string;
+  type: string;
+  feeds: OpmlFeed[];
+  groups: { name: string; mpIds: string[] }[];
+}) => {
+  const toOutline = (feed: OpmlFeed, indent: string) => {
+    const url = escapeXml(`${originUrl}/feeds/${feed.id}.${type}`);
+    const name = escapeXml(feed.mpName);
+    return `${indent}<outline text="${name}" title="${name}" type="rss" xmlUrl="${url}" htmlUrl="${url}" description="${escapeXml(
+      feed.mpIntro,
+    )}" imageUrl="${escapeXml(feed.mpCover)}"/>`;
+  };
+
+  const lines: string[] = [];
+  const groupedIds = new Set<string>();
+  for (const group of groups) {
+    const members = feeds.filter((feed) => group.mpIds.includes(feed.id));
+    if (members.length === 0) {
+      continue;
+    }
+    const name = escapeXml(group.name);
+    lines.push(`    <outline text="${name}" title="${name}">`);
+    for (const feed of members) {
+      groupedIds.add(feed.id);
+      lines.push(toOutline(feed, '      '));
+    }
+    lines.push('    </outline>');
+  }
+  for (const feed of feeds) {
+    if (!groupedIds.has(feed.id)) {
+      lines.push(toOutline(feed, '    '));
+    }
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>WeWeRSS 所有订阅源</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+  </head>
+  <body>
+${lines.join('\n')}
+  </body>
+</opml>
+`;
+};
+
+/**
+ * 解析 OPML 中的订阅源，公众号 id 从 WeWe-RSS 的订阅地址 /feeds/:id.(atom|rss|json) 中获取
+ */
+export const parseOpml = (content: string): OpmlEntry[] => {
+  const $ = load(content, { xmlMode: true });
+  return $('outline[xmlUrl]')
+    .toArray()
+    .map((el) => {
+      const outline = $(el);
+      const xmlUrl = outline.attr('xmlUrl')?.trim() || '';
+      const parent = outline.parent('outline');
+
+      let id: string | null = null;
+      try {
+        const { pathname } = new URL(xmlUrl);
+        const match = pathname.match(/\/feeds\/([^/]+)\.(atom|rss|json)$/);
+        // 全部文章、合并等聚合订阅源不对应单个公众号
+        if (match && !['all', 'search', 'merge'].includes(match[1])) {
+          id = decodeURIComponent(match[1]);
+        }
+      } catch {
+        // 无效的地址
+      }
+
+      return {
+        id,
+        xmlUrl,
+        mpName: outline.attr('text') || outline.attr('title') || '',
+        mpCover: outline.attr('imageUrl') || '',
+        mpIntro: outline.attr('description') || '',
+        groupName: parent.length
+          ? parent.attr('text') || parent.attr('title') || undefined
+          : undefined,
+      };
+    });
+};
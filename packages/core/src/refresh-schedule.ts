@@ -0,0 +1,56 @@
+import { adaptiveRefresh } from './constants';
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * 根据最近文章的发布时间（秒）计算自适应模式的下次更新时间：
+ * 常发文的时段内按最短间隔更新，其余时间按发文间隔的一半更新，且不晚于下个常发文时段开始，
+ * 长期未发文的公众号每天只更新一次
+ */
+export function getAdaptiveNextSyncAt(
+  publishTimes: number[],
+  now = Math.floor(Date.now() / 1e3),
+) {
+  const { minInterval, maxInterval, dormantDays } = adaptiveRefresh;
+  // 同一次推送的多篇文章发布时间相同，只算一次
+  const times = [...new Set(publishTimes)].sort((a, b) => b - a);
+  if (times.length === 0 || now - times[0] > dormantDays * 24 * 60 * 60) {
+    return now + maxInterval;
+  }
+
+  const hourCounts = new Array<number>(24).fill(0);
+  for (const time of times) {
+    hourCounts[dayjs.unix(time).tz('Asia/Shanghai').hour()] += 1;
+  }
+  const threshold = Math.max(2, times.length * 0.1);
+  const isActiveHour = (hour: number) => hourCounts[hour] >= threshold;
+
+  const current = dayjs.unix(now).tz('Asia/Shanghai');
+  if (isActiveHour(current.hour())) {
+    return now + minInterval;
+  }
+
+  const gaps = times
+    .slice(1)
+    .map((time, i) => times[i] - time)
+    .sort((a, b) => a - b);
+  const medianGap =
+    gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : maxInterval;
+  let nextSyncAt =
+    now +
+    Math.min(Math.max(Math.round(medianGap / 2), minInterval), maxInterval);
+
+  for (let i = 1; i < 24; i++) {
+    if (isActiveHour((current.hour() + i) % 24)) {
+      const activeStart = current.startOf('hour').add(i, 'hour').unix();
+      nextSyncAt = Math.min(nextSyncAt, activeStart);
+      break;
+    }
+  }
+
+  return nextSyncAt;
+}
@@ -0,0 +1,98 @@
+import {
+  adaptiveRefresh,
+  defaultCount,
+  feedRefreshModes,
+  minRefreshInterval,
+} from './constants';
+import { getAdaptiveNextSyncAt } from './refresh-schedule';
+import type { MpArticle, RefreshStore } from './types';
+import { enqueueWebhookEvents } from './webhook';
+
+/**
+ * 按公众号的更新方式计算下次更新时间（秒），跟随全局更新的为 0。
+ * 间隔无效（小于最短间隔）时同样跟随全局更新，避免每次定时任务都重复拉取
+ */
+export async function getNextSyncAt(
+  store: RefreshStore,
+  feed: { id: string; refreshMode: string; refreshInterval: number },
+  now = Math.floor(Date.now() / 1e3),
+) {
+  if (feed.refreshMode === feedRefreshModes.INTERVAL) {
+    return feed.refreshInterval >= minRefreshInterval
+      ? now + feed.refreshInterval
+      : 0;
+  }
+  if (feed.refreshMode === feedRefreshModes.ADAPTIVE) {
+    const publishTimes = await store.getRecentPublishTimes(
+      feed.id,
+      adaptiveRefresh.sampleSize,
+    );
+    return getAdaptiveNextSyncAt(publishTimes, now);
+  }
+  return 0;
+}
+
+/**
+ * 更新失败后的下次更新时间（秒），跟随全局更新的为 0。
+ * 间隔取距上次成功更新的时长，连续失败时逐次翻倍，介于最短更新间隔和一天之间
+ */
+export function getRetryNextSyncAt(
+  feed: { refreshMode: string; syncTime: number },
+  now = Math.floor(Date.now() / 1e3),
+) {
+  if (feed.refreshMode === feedRefreshModes.GLOBAL) {
+    return 0;
+  }
+  const elapsed = feed.syncTime > 0 ? now - feed.syncTime : 0;
+  return (
+    now +
+    Math.min(Math.max(elapsed, minRefreshInterval), adaptiveRefresh.maxInterval)
+  );
+}
+
+/**
+ * 拉取一页公众号文章并保存，新文章加入全文抓取队列并生成 webhook 记录，
+ * 更新订阅源的同步时间和下次更新时间。webhook 由调用方之后发送
+ */
+export async function refreshMpArticles(
+  store: RefreshStore,
+  {
+    mpId,
+    page = 1,
+    getMpArticles,
+  }: {
+    mpId: string;
+    page?: number;
+    getMpArticles: (mpId: string, page: number) => Promise<MpArticle[]>;
+  },
+) {
+  const articles = await getMpArticles(mpId, page);
+
+  let newArticles: MpArticle[] = [];
+  if (articles.length > 0) {
+    // 按实际插入的结果判断新文章，同一公众号同时更新时只有一方会生成 webhook
+    const insertedIds = new Set(await store.saveArticles(mpId, articles));
+    newArticles = articles.filter(({ id }) => insertedIds.has(id));
+  }
+
+  if (newArticles.length > 0) {
+    await store.invalidateFeed(mpId);
+    // 新文章的全文在后台抓取，不阻塞订阅源输出
+    await store.enqueueArticleContents(newArticles.map(({ id }) => id));
+    await enqueueWebhookEvents(store, mpId, newArticles);
+  }
+
+  // 如果文章数量小于 defaultCount，则认为没有更多历史文章
+  const hasHistory = articles.length < defaultCount ? 0 : 1;
+
+  const feed = await store.getFeedSchedule(mpId);
+  await store.updateFeedSync(mpId, {
+    syncTime: Math.floor(Date.now() / 1e3),
+    hasHistory,
+    // 获取历史文章不影响更新计划
+    nextSyncAt:
+      page === 1 && feed ? await getNextSyncAt(store, feed) : undefined,
+  });
+
+  return { hasHistory, newArticles };
+}
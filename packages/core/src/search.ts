@@ -0,0 +1,56 @@
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 拆分搜索关键词，按空白分隔并去重
+ */
+export const splitSearchTerms = (keyword: string) => [
+  ...new Set(keyword.trim().split(/\s+/).filter(Boolean)),
+];
+
+/**
+ * 转义 html 后用 <mark> 标记命中的关键词
+ */
+export const highlight = (value: string, terms: string[]) => {
+  const html = escapeHtml(value);
+  if (terms.length === 0) {
+    return html;
+  }
+  const pattern = new RegExp(
+    terms.map((term) => escapeRegExp(escapeHtml(term))).join('|'),
+    'gi',
+  );
+  return html.replace(pattern, (match) => `<mark>${match}</mark>`);
+};
+
+/**
+ * 截取正文中第一个命中关键词附近的片段并高亮
+ */
+export const getSnippet = (text: string, terms: string[], length = 120) => {
+  if (!text) {
+    return '';
+  }
+  const lowerText = text.toLowerCase();
+  const index = Math.min(
+    ...terms
+      .map((term) => lowerText.indexOf(term.toLowerCase()))
+      .filter((i) => i >= 0),
+    text.length,
+  );
+  const start =
+    index === text.length ? 0 : Math.max(index - Math.floor(length / 4), 0);
+  const end = Math.min(start + length, text.length);
+
+  return (
+    (start > 0 ? '…' : '') +
+    highlight(text.slice(start, end), terms) +
+    (end < text.length ? '…' : '')
+  );
+};
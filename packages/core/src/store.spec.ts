@@ -0,0 +1,968 @@
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  articleContentStatusMap,
+  articleStatusMap,
+  contentFailedMessage,
+  contentPrefetch,
+  feedRefreshModes,
+  statusMap,
+  webhookDelivery,
+  webhookDeliveryStatusMap,
+  webhookEvents,
+} from './constants';
+import { fetchArticleContent } from './content';
+import { FeedError, generateFeed } from './feed';
+import { handleAccountError, requestWithAccount } from './account';
+import { refreshMpArticles } from './refresh';
+import { deliverWebhooks, enqueueWebhookPing } from './webhook';
+import type { WebhookClient, WebhookRequest } from './webhook';
+import type { CoreStore, MpArticle } from './types';
+
+/**
+ * 同一套用例分别运行在 Worker 的 D1Store 和 Server 的 PrismaStore 上。
+ * D1 使用 Miniflare 的本地数据库；Prisma 需要设置 PRISMA_TEST_DATABASE_URL 指向已执行迁移的空数据库，
+ * 并按 DATABASE_TYPE 生成对应的 Prisma Client，未设置时跳过
+ */
+type Fixture = {
+  store: CoreStore;
+  addFeed(feed: {
+    id: string;
+    mpName: string;
+    refreshMode?: string;
+    refreshInterval?: number;
+  }): Promise<void>;
+  addGroup(name: string, mpIds: string[]): Promise<string>;
+  addAlert(name: string, keyword: string): Promise<string>;
+  addAccount(id: string): Promise<void>;
+  addWebhook(webhook: {
+    url: string;
+    secret: string;
+    mpIds: string[];
+    events: string[];
+    status?: number;
+  }): Promise<string>;
+  // 按 id 正序
+  listDeliveries(): Promise<
+    {
+      id: number;
+      webhookId: string;
+      event: string;
+      payload: string;
+      status: number;
+      attempts: number;
+      responseStatus: number | null;
+      error: string | null;
+      nextRetryAt: number;
+      deliveredAt: number;
+    }[]
+  >;
+  getAccount(id: string): Promise<{
+    status: number;
+    blockedUntil: number;
+    blockErrorCode: string | null;
+    rateLimitCount: number;
+    successRate: number;
+    dailyRequestCount: number;
+  }>;
+  getFeedSync(
+    id: string,
+  ): Promise<{ syncTime: number; hasHistory: number; nextSyncAt: number }>;
+  reset(): Promise<void>;
+  close(): Promise<void>;
+};
+
+const rootDir = join(__dirname, '../../..');
+
+/**
+ * 执行 Worker 的 schema.sql，触发器内部的语句不拆分
+ */
+async function applySchema(db: any) {
+  const sql = readFileSync(join(rootDir, 'apps/worker/schema.sql'), 'utf-8');
+  let statement = '';
+  for (const line of sql.split('\n')) {
+    if (!statement && (!line.trim() || line.startsWith('--'))) {
+      continue;
+    }
+    statement += `${line}\n`;
+    const inTrigger = /^CREATE TRIGGER/.test(statement);
+    if (inTrigger ? line.trim() === 'END;' : line.trim().endsWith(';')) {
+      await db.prepare(statement).run();
+      statement = '';
+    }
+  }
+}
+
+async function createD1Fixture(): Promise<Fixture> {
+  const { Miniflare } = require('miniflare');
+  const { D1Store } = require(
+    join(rootDir, 'apps/worker/src/services/d1-store'),
+  );
+  const queries = require(join(rootDir, 'apps/worker/src/services/db-queries'));
+  const { toWebhookDeliveryDto } = require(join(rootDir, 'apps/worker/src/db'));
+
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(); } }',
+    d1Databases: { DB: 'core-test' },
+  });
+  const db = await mf.getD1Database('DB');
+  await applySchema(db);
+
+  return {
+    store: new D1Store(db),
+    async addFeed({ id, mpName, refreshMode, refreshInterval }) {
+      await queries.upsertFeed(db, {
+        id,
+        mpName,
+        mpCover: '',
+        mpIntro: '',
+        syncTime: 0,
+        updateTime: 0,
+        status: statusMap.ENABLE,
+      });
+      await queries.updateFeed(db, id, { refreshMode, refreshInterval });
+    },
+    async addGroup(name, mpIds) {
+      const id = await queries.createFeedGroup(db, { name });
+      await queries.setFeedGroupFeeds(db, id, mpIds);
+      return id;
+    },
+    async addAlert(name, keyword) {
+      const alert = await queries.createAlertFeed(db, { name, keyword });
+      return alert.id;
+    },
+    async addAccount(id) {
+      await queries.upsertAccount(db, {
+        id,
+        token: `token-${id}`,
+        name: id,
+        status: statusMap.ENABLE,
+      });
+    },
+    async addWebhook(webhook) {
+      const created = await queries.createWebhook(db, {
+        name: webhook.url,
+        ...webhook,
+      });
+      return created.id;
+    },
+    async listDeliveries() {
+      const { results } = await db
+        .prepare('SELECT * FROM webhook_deliveries ORDER BY id ASC')
+        .all();
+      return results.map(toWebhookDeliveryDto);
+    },
+    getAccount: (id) => queries.getAccountById(db, id),
+    getFeedSync: (id) => queries.getFeedById(db, id),
+    async reset() {
+      for (const table of [
+        'articles',
+        'article_contents',
+        'feeds',
+        'feed_groups',
+        'feed_group_feeds',
+        'alert_feeds',
+        'accounts',
+        'cache_versions',
+        'webhooks',
+        'webhook_deliveries',
+      ]) {
+        await db.prepare(`DELETE FROM ${table}`).run();
+      }
+    },
+    close: () => mf.dispose(),
+  };
+}
+
+async function createPrismaFixture(): Promise<Fixture> {
+  const serverDir = join(rootDir, 'apps/server');
+  const { PrismaClient } = require(
+    require.resolve('@prisma/client', { paths: [serverDir] }),
+  );
+  const { PrismaStore } = require('@server/store/prisma-store');
+  const { SearchService } = require('@server/search/search.service');
+
+  const prisma = new PrismaClient({
+    datasources: { db: { url: process.env.PRISMA_TEST_DATABASE_URL } },
+  });
+  const configService = {
+    get: () => ({ type: process.env.DATABASE_TYPE || 'sqlite' }),
+  };
+
+  return {
+    store: new PrismaStore(
+      prisma,
+      configService,
+      new SearchService(prisma, configService),
+    ),
+    async addFeed({ id, mpName, refreshMode, refreshInterval }) {
+      await prisma.feed.create({
+        data: {
+          id,
+          mpName,
+          mpCover: '',
+          mpIntro: '',
+          updateTime: 0,
+          refreshMode,
+          refreshInterval,
+        },
+      });
+    },
+    async addGroup(name, mpIds) {
+      const group = await prisma.feedGroup.create({ data: { name } });
+      await prisma.feedGroupFeed.createMany({
+        data: mpIds.map((mpId) => ({ groupId: group.id, mpId })),
+      });
+      return group.id;
+    },
+    async addAlert(name, keyword) {
+      const alert = await prisma.alertFeed.create({ data: { name, keyword } });
+      return alert.id;
+    },
+    async addAccount(id) {
+      await prisma.account.create({
+        data: { id, token: `token-${id}`, name: id },
+      });
+    },
+    async addWebhook({ mpIds, events, ...webhook }) {
+      const created = await prisma.webhook.create({
+        data: {
+          name: webhook.url,
+          ...webhook,
+          mpIds: mpIds.join(','),
+          events: events.join(','),
+        },
+      });
+      return created.id;
+    },
+    listDeliveries: () =>
+      prisma.webhookDelivery.findMany({ orderBy: { id: 'asc' } }),
+    getAccount: (id) => prisma.account.findUniqueOrThrow({ where: { id } }),
+    getFeedSync: (id) => prisma.feed.findUniqueOrThrow({ where: { id } }),
+    async reset() {
+      await prisma.$transaction([
+        prisma.article.deleteMany(),
+        prisma.articleContent.deleteMany(),
+        prisma.feed.deleteMany(),
+        prisma.feedGroup.deleteMany(),
+        prisma.feedGroupFeed.deleteMany(),
+        prisma.alertFeed.deleteMany(),
+        prisma.account.deleteMany(),
+        prisma.webhook.deleteMany(),
+        prisma.webhookDelivery.deleteMany(),
+      ]);
+    },
+    close: () => prisma.$disconnect(),
+  };
+}
+
+const backends: [string, () => Promise<Fixture>][] = [
+  ['D1Store', createD1Fixture],
+];
+if (process.env.PRISMA_TEST_DATABASE_URL) {
+  backends.push(['PrismaStore', createPrismaFixture]);
+}
+
+const config = {
+  originUrl: 'https://rss.test',
+  feedMode: '',
+  enableCleanHtml: true,
+};
+
+const now = Math.floor(Date.now() / 1e3);
+
+const article = (id: string, title: string, offset = 0): MpArticle => ({
+  id,
+  title,
+  picUrl: `https://img.test/${id}.png`,
+  publishTime: now - offset,
+});
+
+const liveHtml = `<html><body><div class="rich_media_content">
+  <p>正文   内容</p><img data-src="https://img.test/inline.png">
+</div></body></html>`;
+
+const deletedHtml = `<html><body><div class="rich_media_content"></div>
+  <p>该内容已被发布者删除</p></body></html>`;
+
+describe.each(backends)('%s', (_, createFixture) => {
+  let fixture: Fixture;
+  let store: CoreStore;
+
+  beforeAll(async () => {
+    fixture = await createFixture();
+    store = fixture.store;
+  }, 30 * 1e3);
+
+  afterAll(() => fixture?.close());
+
+  beforeEach(async () => {
+    await fixture.reset();
+    await fixture.addFeed({ id: 'MP_A', mpName: '公众号A' });
+    await fixture.addFeed({ id: 'MP_B', mpName: '公众号B' });
+    await store.saveArticles('MP_A', [
+      article('a1', '新品发布会回顾', 0),
+      article('a2', '周末活动预告', 100),
+    ]);
+    await store.saveArticles('MP_B', [article('b1', '年度发布会总结', 50)]);
+  });
+
+  describe('generateFeed', () => {
+    it('outputs a single feed ordered by publish time', async () => {
+      const { content, mimeType } = await generateFeed(store, config, {
+        id: 'MP_A',
+        type: 'json',
+        limit: 10,
+        page: 1,
+      });
+      const feed = JSON.parse(content);
+
+      expect(mimeType).toContain('application/feed+json');
+      expect(feed.title).toBe('公众号A');
+      expect(feed.items.map((item: any) => item.id)).toEqual(['a1', 'a2']);
+      expect(feed.items[0].author).toBeUndefined();
+    });
+
+    it('outputs all articles with authors and applies title filters', async () => {
+      const { content } = await generateFeed(store, config, {
+        type: 'json',
+        limit: 10,
+        page: 1,
+        title_include: '发布会|活动',
+        title_exclude: '总结',
+      });
+      const feed = JSON.parse(content);
+
+      expect(feed.title).toBe('WeWe-RSS All');
+      expect(feed.items.map((item: any) => item.id)).toEqual(['a1', 'a2']);
+      expect(feed.items[0].author).toEqual({ name: '公众号A' });
+    });
+
+    it('paginates and hides removed articles', async () => {
+      await store.touchArticle('a1', articleStatusMap.DELETED);
+
+      const page = JSON.parse(
+        (await generateFeed(store, config, { type: 'json', limit: 1, page: 2 }))
+          .content,
+      );
+      expect(page.items.map((item: any) => item.id)).toEqual(['b1']);
+
+      const hidden = JSON.parse(
+        (
+          await generateFeed(store, config, {
+            id: 'MP_A',
+            type: 'json',
+            limit: 10,
+            page: 1,
+            removed: 'hide',
+          })
+        ).content,
+      );
+      expect(hidden.items.map((item: any) => item.id)).toEqual(['a2']);
+
+      const shown = JSON.parse(
+        (
+          await generateFeed(store, config, {
+            id: 'MP_A',
+            type: 'json',
+            limit: 10,
+            page: 1,
+          })
+        ).content,
+      );
+      expect(shown.items[0].title).toBe('[已删除] 新品发布会回顾');
+    });
+
+    it('merges feeds, groups and alerts', async () => {
+      const merged = JSON.parse(
+        (
+          await generateFeed(store, config, {
+            mpIds: ['MP_B', 'MP_A'],
+            type: 'json',
+            limit: 10,
+            page: 1,
+          })
+        ).content,
+      );
+      expect(merged.title).toBe('WeWe-RSS 公众号B、公众号A');
+      expect(merged.home_page_url).toBe(
+        'https://rss.test/feeds/merge.json?ids=MP_B,MP_A',
+      );
+      expect(merged.items).toHaveLength(3);
+
+      const groupId = await fixture.addGroup('科技', ['MP_B']);
+      const group = JSON.parse(
+        (
+          await generateFeed(store, config, {
+            groupId,
+            type: 'json',
+            limit: 10,
+            page: 1,
+          })
+        ).content,
+      );
+      expect(group.title).toBe('WeWe-RSS 科技');
+      expect(group.items.map((item: any) => item.id)).toEqual(['b1']);
+
+      const alertId = await fixture.addAlert('发布会提醒', '发布会');
+      const alert = JSON.parse(
+        (
+          await generateFeed(store, config, {
+            alertId,
+            type: 'json',
+            limit: 10,
+            page: 1,
+          })
+        ).content,
+      );
+      expect(alert.title).toBe('发布会提醒');
+      expect(alert.items.map((item: any) => item.id)).toEqual(['a1', 'b1']);
+    });
+
+    it(
+      'outputs search feeds with more than 100 matches',
+      async () => {
+        await store.saveArticles(
+          'MP_B',
+          Array.from({ length: 110 }, (_, i) =>
+            article(`s${i}`, `发布会第${i}场`, 200 + i),
+          ),
+        );
+        const feed = JSON.parse(
+          (
+            await generateFeed(store, config, {
+              keyword: '发布会',
+              type: 'json',
+              limit: 120,
+              page: 1,
+            })
+          ).content,
+        );
+        expect(feed.items).toHaveLength(112);
+        expect(feed.items[0].id).toBe('a1');
+        expect(feed.items[111].id).toBe('s109');
+      },
+      30 * 1e3,
+    );
+
+    it('throws FeedError for missing feeds and empty keywords', async () => {
+      const opts = { type: 'rss', limit: 10, page: 1 };
+      await expect(
+        generateFeed(store, config, { ...opts, id: 'MP_X' }),
+      ).rejects.toBeInstanceOf(FeedError);
+      await expect(
+        generateFeed(store, config, { ...opts, mpIds: ['MP_A', 'MP_X'] }),
+      ).rejects.toBeInstanceOf(FeedError);
+      await expect(
+        generateFeed(store, config, {
+          ...opts,
+          mpIds: Array.from({ length: 51 }, (_, i) => `MP_${i}`),
+        }),
+      ).rejects.toThrow('最多合并 50 个公众号');
+      await expect(
+        generateFeed(store, config, { ...opts, groupId: 'missing' }),
+      ).rejects.toBeInstanceOf(FeedError);
+      await expect(
+        generateFeed(store, config, { ...opts, keyword: ' ' }),
+      ).rejects.toThrow('缺少搜索关键词');
+    });
+  });
+
+  describe('article contents', () => {
+    const fulltext = async () =>
+      JSON.parse(
+        (
+          await generateFeed(store, config, {
+            id: 'MP_A',
+            type: 'json',
+            limit: 10,
+            page: 1,
+            mode: 'fulltext',
+          })
+        ).content,
+      );
+
+    it('enqueues missing contents and outputs fetched ones', async () => {
+      let feed = await fulltext();
+      expect(feed.items[0].content_html).toBeFalsy();
+      expect(await store.getArticleContent('a1')).toMatchObject({
+        status: articleContentStatusMap.PENDING,
+      });
+
+      const status = await fetchArticleContent(store, {
+        id: 'a1',
+        fetchHtml: async () => liveHtml,
+      });
+      expect(status).toBe(articleContentStatusMap.SUCCESS);
+
+      feed = await fulltext();
+      expect(feed.items[0].content_html).toContain('正文 内容');
+      expect(feed.items[0].content_html).toContain(
+        'src="https://img.test/inline.png"',
+      );
+    });
+
+    it(
+      'outputs fulltext feeds with more than 100 articles',
+      async () => {
+        await store.saveArticles(
+          'MP_A',
+          Array.from({ length: 110 }, (_, i) =>
+            article(`c${i}`, `文章${i}`, i),
+          ),
+        );
+        const { content } = await generateFeed(store, config, {
+          id: 'MP_A',
+          type: 'json',
+          limit: 120,
+          page: 1,
+          mode: 'fulltext',
+        });
+        expect(JSON.parse(content).items).toHaveLength(112);
+        expect(await store.getArticleContents(['a1', 'a2'])).toHaveLength(2);
+      },
+      30 * 1e3,
+    );
+
+    it('drops raw html over the length limit', async () => {
+      await fetchArticleContent(store, {
+        id: 'a1',
+        fetchHtml: async () => liveHtml,
+        maxRawHtmlLength: 10,
+      });
+      const [content] = await store.getArticleContents(['a1']);
+      expect(content.rawHtml).toBeNull();
+      expect(content.cleanHtml).toContain('正文 内容');
+
+      // 原始网页未保存时使用清理后的内容
+      const feed = JSON.parse(
+        (
+          await generateFeed(
+            store,
+            { ...config, enableCleanHtml: false },
+            { id: 'MP_A', type: 'json', limit: 1, page: 1, mode: 'fulltext' },
+          )
+        ).content,
+      );
+      expect(feed.items[0].content_html).toBe(content.cleanHtml);
+    });
+
+    it('backs off on errors and gives up after max attempts', async () => {
+      const fetchHtml = async (): Promise<string> => {
+        throw new Error('Request failed: 502');
+      };
+      const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      for (let i = 1; i < contentPrefetch.maxAttempts; i++) {
+        const status = await fetchArticleContent(
+          store,
+          { id: 'a1', fetchHtml },
+          logger,
+        );
+        expect(status).toBe(articleContentStatusMap.PENDING);
+        expect(await store.getArticleContent('a1')).toMatchObject({
+          attempts: i,
+        });
+      }
+
+      expect(
+        await fetchArticleContent(store, { id: 'a1', fetchHtml }, logger),
+      ).toBe(articleContentStatusMap.FAILED);
+      expect((await fulltext()).items[0].content_html).toBe(
+        contentFailedMessage,
+      );
+    });
+
+    it('keeps archived contents of deleted articles', async () => {
+      const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      await fetchArticleContent(store, {
+        id: 'a1',
+        fetchHtml: async () => liveHtml,
+      });
+      await fetchArticleContent(
+        store,
+        { id: 'a1', fetchHtml: async () => deletedHtml },
+        logger,
+      );
+      await fetchArticleContent(
+        store,
+        { id: 'a2', fetchHtml: async () => deletedHtml },
+        logger,
+      );
+
+      const [a1, a2] = (await fulltext()).items;
+      expect(a1.title).toBe('[已删除] 新品发布会回顾');
+      expect(a1.content_html).toContain('以下为存档内容');
+      expect(a1.content_html).toContain('正文 内容');
+      expect(await store.getArticleContent('a2')).toMatchObject({
+        status: articleContentStatusMap.FAILED,
+      });
+      expect(a2.content_html).toBe('<p>【已删除】原文已无法访问</p>');
+    });
+  });
+
+  describe('refreshMpArticles', () => {
+    it('saves new articles and schedules the next sync', async () => {
+      await fixture.addFeed({
+        id: 'MP_C',
+        mpName: '公众号C',
+        refreshMode: feedRefreshModes.INTERVAL,
+        refreshInterval: 3600,
+      });
+      const getMpArticles = jest.fn(async () => [
+        article('c1', '第一篇'),
+        article('a1', '新品发布会回顾（更新）'),
+      ]);
+
+      const { hasHistory, newArticles } = await refreshMpArticles(store, {
+        mpId: 'MP_C',
+        getMpArticles,
+      });
+
+      expect(getMpArticles).toHaveBeenCalledWith('MP_C', 1);
+      expect(hasHistory).toBe(0);
+      expect(newArticles.map(({ id }) => id)).toEqual(['c1']);
+      expect(await store.getArticleContent('c1')).toMatchObject({
+        status: articleContentStatusMap.PENDING,
+      });
+      expect(await store.getArticleContent('a1')).toBeNull();
+
+      const feed = await fixture.getFeedSync('MP_C');
+      expect(feed.hasHistory).toBe(0);
+      expect(feed.syncTime).toBeGreaterThanOrEqual(now);
+      expect(feed.nextSyncAt).toBeGreaterThanOrEqual(now + 3600);
+    });
+
+    it('does not reschedule when fetching history pages', async () => {
+      await fixture.addFeed({
+        id: 'MP_C',
+        mpName: '公众号C',
+        refreshMode: feedRefreshModes.INTERVAL,
+        refreshInterval: 3600,
+      });
+      const articles = Array.from({ length: 20 }, (_, i) =>
+        article(`h${i}`, `历史文章${i}`, 1e5 + i),
+      );
+
+      const { hasHistory } = await refreshMpArticles(store, {
+        mpId: 'MP_C',
+        page: 2,
+        getMpArticles: async () => articles,
+      });
+
+      expect(hasHistory).toBe(1);
+      expect(await fixture.getFeedSync('MP_C')).toMatchObject({
+        hasHistory: 1,
+        nextSyncAt: 0,
+      });
+    });
+
+    it('follows the global schedule when the interval is not set', async () => {
+      await fixture.addFeed({
+        id: 'MP_C',
+        mpName: '公众号C',
+        refreshMode: feedRefreshModes.INTERVAL,
+        refreshInterval: 0,
+      });
+
+      await refreshMpArticles(store, {
+        mpId: 'MP_C',
+        getMpArticles: async () => [article('c1', '第一篇')],
+      });
+
+      expect(await fixture.getFeedSync('MP_C')).toMatchObject({
+        nextSyncAt: 0,
+      });
+    });
+  });
+
+  describe('accounts', () => {
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    it('records results and retries with another account', async () => {
+      await fixture.addAccount('u1');
+      await fixture.addAccount('u2');
+      const used: string[] = [];
+
+      const result = await requestWithAccount(
+        store,
+        {
+          name: 'test',
+          request: async (account) => {
+            used.push(account.id);
+            if (used.length === 1) {
+              throw new Error('WeReadError500');
+            }
+            return account.token;
+          },
+          parseError: (error: any) => ({ message: error.message }),
+          defaultQuota: 0,
+          retryCount: 1,
+        },
+        logger,
+      );
+
+      expect(result).toBe(`token-${used[1]}`);
+      expect(used[0]).not.toBe(used[1]);
+      const failed = await fixture.getAccount(used[0]);
+      expect(failed.successRate).toBeCloseTo(0.8);
+      expect(failed.blockErrorCode).toBe('WeReadError500');
+      expect(failed.blockedUntil).toBeGreaterThan(now);
+      const succeeded = await fixture.getAccount(used[1]);
+      expect(succeeded.successRate).toBe(1);
+      expect(succeeded.dailyRequestCount).toBe(1);
+    });
+
+    it('stops at the daily quota', async () => {
+      await fixture.addAccount('u1');
+      const request = {
+        name: 'test',
+        request: async () => 'ok',
+        parseError: (error: any) => ({ message: error.message }),
+        defaultQuota: 1,
+      };
+
+      await requestWithAccount(store, request, logger);
+      await expect(requestWithAccount(store, request, logger)).rejects.toThrow(
+        '读书账号今日请求次数已用完!',
+      );
+    });
+
+    it('does not charge accounts when the request budget is exceeded', async () => {
+      await fixture.addAccount('u1');
+      const request = jest.fn(async () => 'ok');
+
+      await expect(
+        requestWithAccount(
+          store,
+          {
+            name: 'test',
+            request,
+            parseError: (error: any) => ({ message: error.message }),
+            defaultQuota: 1,
+            retryCount: 1,
+            acquireBudget: async () => {
+              throw Object.assign(new Error('budget'), {
+                budgetExceeded: true,
+              });
+            },
+          },
+          logger,
+        ),
+      ).rejects.toThrow('budget');
+
+      expect(request).not.toHaveBeenCalled();
+      expect(await fixture.getAccount('u1')).toMatchObject({
+        successRate: 1,
+        dailyRequestCount: 0,
+        blockedUntil: 0,
+      });
+    });
+
+    it('backs off rate limited accounts and disables expired ones', async () => {
+      await fixture.addAccount('u1');
+      await fixture.addAccount('u2');
+
+      await handleAccountError(
+        store,
+        { id: 'u1', message: 'WeReadError429', retryAfter: 10 },
+        logger,
+      );
+      await handleAccountError(
+        store,
+        { id: 'u1', message: 'WeReadError429' },
+        logger,
+      );
+      await handleAccountError(
+        store,
+        { id: 'u2', message: 'WeReadError401' },
+        logger,
+      );
+
+      const limited = await fixture.getAccount('u1');
+      expect(limited.rateLimitCount).toBe(2);
+      expect(limited.blockedUntil).toBeGreaterThanOrEqual(now + 60 * 60);
+      expect((await fixture.getAccount('u2')).status).toBe(statusMap.INVALID);
+      expect(await store.listAvailableAccounts()).toEqual([]);
+    });
+  });
+
+  describe('webhooks', () => {
+    const secret = 'test-secret';
+    let requests: WebhookRequest[];
+    let responses: (number | Error)[];
+
+    const client: WebhookClient = {
+      async send(request) {
+        requests.push(request);
+        const response = responses.shift() ?? 200;
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      },
+      async sign(key, data) {
+        return createHmac('sha256', key).update(data).digest('hex');
+      },
+    };
+
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    beforeEach(() => {
+      requests = [];
+      responses = [];
+    });
+
+    it('queues events for new articles matching the feed filter', async () => {
+      const all = await fixture.addWebhook({
+        url: 'https://hook.test/all',
+        secret,
+        mpIds: [],
+        events: [webhookEvents.ARTICLE_CREATED, webhookEvents.FEED_UPDATED],
+      });
+      await fixture.addWebhook({
+        url: 'https://hook.test/b',
+        secret,
+        mpIds: ['MP_B'],
+        events: [webhookEvents.FEED_UPDATED],
+      });
+      await fixture.addWebhook({
+        url: 'https://hook.test/disabled',
+        secret,
+        mpIds: [],
+        events: [webhookEvents.FEED_UPDATED],
+        status: statusMap.DISABLE,
+      });
+
+      await refreshMpArticles(store, {
+        mpId: 'MP_A',
+        getMpArticles: async () => [
+          article('a3', '新文章一'),
+          article('a4', '新文章二', 10),
+          article('a1', '新品发布会回顾'),
+        ],
+      });
+
+      const deliveries = await fixture.listDeliveries();
+      expect(
+        deliveries.map(({ webhookId, event }) => [webhookId, event]),
+      ).toEqual([
+        [all, webhookEvents.ARTICLE_CREATED],
+        [all, webhookEvents.ARTICLE_CREATED],
+        [all, webhookEvents.FEED_UPDATED],
+      ]);
+      const payload = JSON.parse(deliveries[2].payload);
+      expect(payload).toMatchObject({
+        event: webhookEvents.FEED_UPDATED,
+        feed: { id: 'MP_A', name: '公众号A' },
+      });
+      expect(payload.articles.map(({ id }: { id: string }) => id)).toEqual([
+        'a3',
+        'a4',
+      ]);
+      expect(payload.articles[0].url).toBe('https://mp.weixin.qq.com/s/a3');
+
+      // 已保存的文章再次更新时不重复通知
+      await refreshMpArticles(store, {
+        mpId: 'MP_A',
+        getMpArticles: async () => [article('a3', '新文章一')],
+      });
+      expect(await fixture.listDeliveries()).toHaveLength(3);
+
+      // 同时更新同一公众号时只有一方插入新文章
+      await Promise.all(
+        [1, 2].map(() =>
+          refreshMpArticles(store, {
+            mpId: 'MP_A',
+            getMpArticles: async () => [article('a5', '新文章三')],
+          }),
+        ),
+      );
+      expect(await fixture.listDeliveries()).toHaveLength(5);
+    });
+
+    it('signs payloads and retries failed deliveries with backoff', async () => {
+      const id = await fixture.addWebhook({
+        url: 'https://hook.test/ping',
+        secret,
+        mpIds: [],
+        events: [webhookEvents.ARTICLE_CREATED],
+      });
+      await enqueueWebhookPing(store, id);
+      responses = [500];
+
+      expect(await deliverWebhooks(store, client, {}, logger)).toBe(0);
+      expect(requests).toHaveLength(1);
+      const [{ url, headers, body }] = requests;
+      expect(url).toBe('https://hook.test/ping');
+      expect(headers['X-WeWe-RSS-Event']).toBe('ping');
+      expect(headers['X-WeWe-RSS-Signature']).toBe(
+        `sha256=${createHmac('sha256', secret)
+          .update(`${headers['X-WeWe-RSS-Timestamp']}.${body}`)
+          .digest('hex')}`,
+      );
+
+      let [delivery] = await fixture.listDeliveries();
+      expect(`${delivery.id}`).toBe(headers['X-WeWe-RSS-Delivery']);
+      expect(delivery).toMatchObject({
+        status: webhookDeliveryStatusMap.PENDING,
+        attempts: 1,
+        responseStatus: 500,
+        error: 'HTTP 500',
+      });
+      expect(delivery.nextRetryAt).toBeGreaterThanOrEqual(
+        now + webhookDelivery.retryBase,
+      );
+
+      // 未到重试时间不发送
+      expect(await deliverWebhooks(store, client, {}, logger)).toBe(0);
+      expect(requests).toHaveLength(1);
+
+      await store.updateWebhookDelivery(delivery.id, {
+        ...delivery,
+        nextRetryAt: 0,
+      });
+      expect(await deliverWebhooks(store, client, {}, logger)).toBe(1);
+      [delivery] = await fixture.listDeliveries();
+      expect(delivery).toMatchObject({
+        status: webhookDeliveryStatusMap.SUCCESS,
+        attempts: 2,
+        responseStatus: 200,
+        error: null,
+      });
+      expect(delivery.deliveredAt).toBeGreaterThanOrEqual(now);
+    });
+
+    it('gives up after max attempts and sends each delivery once', async () => {
+      const id = await fixture.addWebhook({
+        url: 'https://hook.test/down',
+        secret,
+        mpIds: [],
+        events: [webhookEvents.ARTICLE_CREATED],
+      });
+      await enqueueWebhookPing(store, id);
+      let [delivery] = await fixture.listDeliveries();
+      await store.updateWebhookDelivery(delivery.id, {
+        ...delivery,
+        attempts: webhookDelivery.maxAttempts - 1,
+      });
+      responses = [new Error('connect ECONNREFUSED')];
+
+      // 同时执行时只有一次发送
+      await Promise.all([
+        deliverWebhooks(store, client, {}, logger),
+        deliverWebhooks(store, client, {}, logger),
+      ]);
+      expect(requests).toHaveLength(1);
+
+      [delivery] = await fixture.listDeliveries();
+      expect(delivery).toMatchObject({
+        status: webhookDeliveryStatusMap.FAILED,
+        attempts: webhookDelivery.maxAttempts,
+        error: 'connect ECONNREFUSED',
+      });
+    });
+  });
+});
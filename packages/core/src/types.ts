@@ -0,0 +1,222 @@
+/**
+ * 日志输出，Server 传入 Nest 的 Logger，Worker 使用 console
+ */
+export interface CoreLogger {
+  log(message: any, ...params: any[]): void;
+  warn(message: any, ...params: any[]): void;
+  error(message: any, ...params: any[]): void;
+}
+
+export type FeedInfo = {
+  id: string;
+  mpName: string;
+  mpCover: string;
+  mpIntro: string;
+  // 信息更新时间（秒）
+  updateTime: number;
+};
+
+export type FeedArticle = {
+  id: string;
+  mpId: string;
+  title: string;
+  picUrl: string;
+  publishTime: number;
+  // 文章状态，见 articleStatusMap
+  status: number;
+};
+
+export type StoredArticleContent = {
+  id: string;
+  status: number;
+  rawHtml: string | null;
+  cleanHtml: string | null;
+};
+
+// rawHtml 未传入时保留已保存的内容，attempts 未传入时保留失败次数
+export type ArticleContentData = {
+  rawHtml?: string | null;
+  cleanHtml?: string | null;
+  text?: string | null;
+  status: number;
+  error: string | null;
+  attempts?: number;
+  nextRetryAt: number;
+  fetchedAt: number;
+};
+
+export type SchedulableAccount = {
+  id: string;
+  token: string;
+  lastUsedAt: number;
+  successRate: number;
+  dailyQuota: number | null;
+  dailyRequestCount: number;
+  dailyRequestDate: string | null;
+};
+
+export type AccountBlock = {
+  blockedUntil: number;
+  blockReason: string | null;
+  blockErrorCode: string | null;
+};
+
+export type MpArticle = {
+  id: string;
+  title: string;
+  picUrl: string;
+  publishTime: number;
+};
+
+export type WebhookTarget = {
+  id: string;
+  url: string;
+  secret: string;
+  // 为空表示全部公众号
+  mpIds: string[];
+  events: string[];
+};
+
+export type PendingWebhookDelivery = {
+  id: number;
+  webhookId: string;
+  event: string;
+  payload: string;
+  attempts: number;
+  // 下次发送时间（秒），抢占时用于判断是否已被其他进程发送
+  nextRetryAt: number;
+  url: string;
+  secret: string;
+};
+
+export type WebhookDeliveryResult = {
+  status: number;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextRetryAt: number;
+  deliveredAt: number;
+};
+
+/**
+ * 订阅源输出需要的数据读取，listArticles 未传入 mpIds 和 groupId 时读取全部文章
+ */
+export interface FeedStore {
+  getFeed(id: string): Promise<FeedInfo | null>;
+  listFeeds(ids?: string[]): Promise<FeedInfo[]>;
+  getFeedGroup(
+    id: string,
+  ): Promise<{ id: string; name: string; mpIds: string[] } | null>;
+  getAlertFeed(id: string): Promise<{ name: string; keyword: string } | null>;
+  listArticles(query: {
+    mpIds?: string[];
+    // 读取分组内全部公众号的文章
+    groupId?: string;
+    limit: number;
+    offset: number;
+    hideRemoved: boolean;
+  }): Promise<FeedArticle[]>;
+  // 按发布时间倒序返回
+  getArticlesByIds(ids: string[], hideRemoved: boolean): Promise<FeedArticle[]>;
+  // 按发布时间倒序搜索，返回文章 id
+  searchArticleIds(query: {
+    keyword: string;
+    limit: number;
+    offset: number;
+  }): Promise<string[]>;
+  getArticleContents(ids: string[]): Promise<StoredArticleContent[]>;
+  // 新建待抓取的全文记录，已存在的跳过
+  enqueueArticleContents(ids: string[]): Promise<void>;
+}
+
+/**
+ * 全文抓取需要的数据读写
+ */
+export interface ArticleContentStore {
+  getArticleContent(
+    id: string,
+  ): Promise<{ status: number; attempts: number } | null>;
+  upsertArticleContent(id: string, data: ArticleContentData): Promise<void>;
+  // 更新文章状态和更新时间，返回所属公众号 id，文章不存在时返回 null
+  touchArticle(id: string, status: number): Promise<string | null>;
+  invalidateFeed(mpId: string): Promise<void>;
+}
+
+/**
+ * 读书账号出错后的状态更新
+ */
+export interface AccountStore {
+  // 启用且不在小黑屋中的账号
+  listAvailableAccounts(): Promise<SchedulableAccount[]>;
+  // 更新最后使用时间和请求次数，today 不同时重新计算当日请求次数
+  markAccountUsed(id: string, today: string): Promise<void>;
+  // 成功时清零连续限流次数，失败时失败次数加一
+  recordAccountResult(
+    id: string,
+    success: boolean,
+    successRate: number,
+  ): Promise<void>;
+  invalidateAccount(id: string): Promise<void>;
+  // 连续限流次数加一，返回新的次数
+  incrementRateLimit(id: string): Promise<number>;
+  setAccountBlock(id: string, block: AccountBlock): Promise<void>;
+}
+
+/**
+ * 生成和发送 webhook 需要的数据读写
+ */
+export interface WebhookStore {
+  getFeed(id: string): Promise<FeedInfo | null>;
+  // 启用的 webhook
+  listActiveWebhooks(): Promise<WebhookTarget[]>;
+  createWebhookDeliveries(
+    items: { webhookId: string; event: string; payload: string }[],
+  ): Promise<void>;
+  // 所属 webhook 启用、待发送且到达发送时间的记录，按 id 正序
+  listDueWebhookDeliveries(
+    now: number,
+    limit: number,
+  ): Promise<PendingWebhookDelivery[]>;
+  // 下次发送时间仍为 nextRetryAt 时改为 leaseUntil，返回是否抢占成功
+  claimWebhookDelivery(
+    id: number,
+    nextRetryAt: number,
+    leaseUntil: number,
+  ): Promise<boolean>;
+  updateWebhookDelivery(
+    id: number,
+    result: WebhookDeliveryResult,
+  ): Promise<void>;
+}
+
+/**
+ * 更新公众号文章需要的数据读写，新文章通过 webhook 通知
+ */
+export interface RefreshStore extends Pick<
+  WebhookStore,
+  'getFeed' | 'listActiveWebhooks' | 'createWebhookDeliveries'
+> {
+  // 保存文章，已存在的文章不重复创建，返回本次新插入的文章 id
+  saveArticles(mpId: string, articles: MpArticle[]): Promise<string[]>;
+  enqueueArticleContents(ids: string[]): Promise<void>;
+  invalidateFeed(mpId: string): Promise<void>;
+  getFeedSchedule(
+    id: string,
+  ): Promise<{
+    id: string;
+    refreshMode: string;
+    refreshInterval: number;
+  } | null>;
+  // 最近 limit 篇文章的发布时间（秒），按发布时间倒序
+  getRecentPublishTimes(mpId: string, limit: number): Promise<number[]>;
+  updateFeedSync(
+    mpId: string,
+    data: { syncTime: number; hasHistory: number; nextSyncAt?: number },
+  ): Promise<void>;
+}
+
+export type CoreStore = FeedStore &
+  ArticleContentStore &
+  AccountStore &
+  RefreshStore &
+  WebhookStore;
@@ -0,0 +1,242 @@
+import {
+  webhookDelivery,
+  webhookDeliveryStatusMap,
+  webhookEvents,
+  webhookPingEvent,
+} from './constants';
+import type {
+  CoreLogger,
+  FeedInfo,
+  MpArticle,
+  PendingWebhookDelivery,
+  WebhookStore,
+} from './types';
+
+export type WebhookRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  // 超时时间（毫秒）
+  timeout: number;
+};
+
+/**
+ * 发送请求和计算签名由调用方实现：send 返回 HTTP 状态码，网络错误或超时时抛出错误；
+ * sign 返回 HMAC-SHA256 的十六进制字符串
+ */
+export type WebhookClient = {
+  send: (request: WebhookRequest) => Promise<number>;
+  sign: (secret: string, data: string) => Promise<string>;
+};
+
+/**
+ * webhook 的公众号 id 和事件类型以逗号分隔保存，空字符串表示空列表
+ */
+export const splitWebhookList = (value: string) =>
+  value ? value.split(',') : [];
+
+export type WebhookPayload = {
+  event: string;
+  // 事件产生时间（秒）
+  timestamp: number;
+  feed: { id: string; name: string; cover: string; intro: string } | null;
+  articles: {
+    id: string;
+    title: string;
+    picUrl: string;
+    publishTime: number;
+    url: string;
+  }[];
+};
+
+const createPayload = (
+  event: string,
+  feed: Pick<FeedInfo, 'id' | 'mpName' | 'mpCover' | 'mpIntro'> | null,
+  articles: MpArticle[],
+) =>
+  JSON.stringify({
+    event,
+    timestamp: Math.floor(Date.now() / 1e3),
+    feed: feed && {
+      id: feed.id,
+      name: feed.mpName,
+      cover: feed.mpCover,
+      intro: feed.mpIntro,
+    },
+    articles: articles.map(({ id, title, picUrl, publishTime }) => ({
+      id,
+      title,
+      picUrl,
+      publishTime,
+      url: `https://mp.weixin.qq.com/s/${id}`,
+    })),
+  } satisfies WebhookPayload);
+
+/**
+ * 为订阅了对应公众号和事件的 webhook 生成待发送记录：
+ * article.created 每篇新文章一条，feed.updated 每次更新一条。返回生成的记录数
+ */
+export async function enqueueWebhookEvents(
+  store: Pick<
+    WebhookStore,
+    'getFeed' | 'listActiveWebhooks' | 'createWebhookDeliveries'
+  >,
+  mpId: string,
+  articles: MpArticle[],
+) {
+  if (articles.length === 0) {
+    return 0;
+  }
+  const webhooks = (await store.listActiveWebhooks()).filter(
+    ({ mpIds }) => mpIds.length === 0 || mpIds.includes(mpId),
+  );
+  if (webhooks.length === 0) {
+    return 0;
+  }
+
+  const feed = await store.getFeed(mpId);
+  const items: { webhookId: string; event: string; payload: string }[] = [];
+  for (const webhook of webhooks) {
+    if (webhook.events.includes(webhookEvents.ARTICLE_CREATED)) {
+      for (const article of articles) {
+        items.push({
+          webhookId: webhook.id,
+          event: webhookEvents.ARTICLE_CREATED,
+          payload: createPayload(webhookEvents.ARTICLE_CREATED, feed, [
+            article,
+          ]),
+        });
+      }
+    }
+    if (webhook.events.includes(webhookEvents.FEED_UPDATED)) {
+      items.push({
+        webhookId: webhook.id,
+        event: webhookEvents.FEED_UPDATED,
+        payload: createPayload(webhookEvents.FEED_UPDATED, feed, articles),
+      });
+    }
+  }
+  if (items.length > 0) {
+    await store.createWebhookDeliveries(items);
+  }
+  return items.length;
+}
+
+/**
+ * 生成一条 ping 记录，用于在页面上测试 webhook 地址和签名校验
+ */
+export async function enqueueWebhookPing(
+  store: Pick<WebhookStore, 'createWebhookDeliveries'>,
+  webhookId: string,
+) {
+  await store.createWebhookDeliveries([
+    {
+      webhookId,
+      event: webhookPingEvent,
+      payload: createPayload(webhookPingEvent, null, []),
+    },
+  ]);
+}
+
+/**
+ * 请求头中带上事件、记录 id 和签名，签名内容为 `${timestamp}.${body}`，
+ * 接收方应校验签名并拒绝时间相差过大的请求
+ */
+export async function createWebhookRequest(
+  delivery: Pick<
+    PendingWebhookDelivery,
+    'id' | 'event' | 'payload' | 'url' | 'secret'
+  >,
+  sign: WebhookClient['sign'],
+  timestamp = Math.floor(Date.now() / 1e3),
+): Promise<WebhookRequest> {
+  const signature = await sign(
+    delivery.secret,
+    `${timestamp}.${delivery.payload}`,
+  );
+  return {
+    url: delivery.url,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'WeWe-RSS-Webhook',
+      'X-WeWe-RSS-Event': delivery.event,
+      'X-WeWe-RSS-Delivery': `${delivery.id}`,
+      'X-WeWe-RSS-Timestamp': `${timestamp}`,
+      'X-WeWe-RSS-Signature': `sha256=${signature}`,
+    },
+    body: delivery.payload,
+    timeout: webhookDelivery.timeout,
+  };
+}
+
+/**
+ * 发送到达发送时间的 webhook 记录，2xx 视为成功，失败后按次数退避重试。
+ * 每条记录发送前先抢占，避免多个进程重复发送。返回成功发送的记录数
+ */
+export async function deliverWebhooks(
+  store: WebhookStore,
+  client: WebhookClient,
+  { limit = webhookDelivery.batchSize }: { limit?: number } = {},
+  logger: CoreLogger = console,
+) {
+  const now = Math.floor(Date.now() / 1e3);
+  const deliveries = await store.listDueWebhookDeliveries(now, limit);
+
+  let delivered = 0;
+  for (const delivery of deliveries) {
+    const claimed = await store.claimWebhookDelivery(
+      delivery.id,
+      delivery.nextRetryAt,
+      now + webhookDelivery.lease,
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      responseStatus = await client.send(
+        await createWebhookRequest(delivery, client.sign),
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `HTTP ${responseStatus}`;
+      }
+    } catch (err: any) {
+      error = err instanceof Error ? err.message : `${err}`;
+    }
+
+    const finishedAt = Math.floor(Date.now() / 1e3);
+    if (!error) {
+      delivered++;
+      await store.updateWebhookDelivery(delivery.id, {
+        status: webhookDeliveryStatusMap.SUCCESS,
+        attempts,
+        responseStatus,
+        error: null,
+        nextRetryAt: 0,
+        deliveredAt: finishedAt,
+      });
+      continue;
+    }
+
+    logger.warn(
+      `deliverWebhook(${delivery.id}) ${delivery.event} ${delivery.url} error: ${error}`,
+    );
+    const failed = attempts >= webhookDelivery.maxAttempts;
+    await store.updateWebhookDelivery(delivery.id, {
+      status: failed
+        ? webhookDeliveryStatusMap.FAILED
+        : webhookDeliveryStatusMap.PENDING,
+      attempts,
+      responseStatus,
+      error: error.slice(0, 1024),
+      nextRetryAt: failed
+        ? 0
+        : finishedAt + webhookDelivery.retryBase * 2 ** (attempts - 1),
+      deliveredAt: 0,
+    });
+  }
+  return delivered;
+}